@@ -13,6 +13,12 @@ import ViewInvoicePage from './pages/ViewInvoicePage.tsx';
 import ClientsPage from './pages/ClientsPage.tsx';
 import SettingsPage from './pages/SettingsPage.tsx';
 import CreateInvoicePage from './pages/CreateInvoicePage.tsx';
+import RecurringInvoicesPage from './pages/RecurringInvoicesPage.tsx';
+import QuotesPage from './pages/QuotesPage.tsx';
+import CreateQuotePage from './pages/CreateQuotePage.tsx';
+import ViewQuotePage from './pages/ViewQuotePage.tsx';
+import ItemsPage from './pages/ItemsPage.tsx';
+import SharedInvoicePage from './pages/SharedInvoicePage.tsx';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -40,6 +46,7 @@ const AppContent: React.FC = () => {
       <main>
         <Routes>
           <Route path="/" element={<HomePage />} />
+          <Route path="/i/:token" element={<SharedInvoicePage />} />
           <Route 
             path="/login" 
             element={isAuthenticated ? <Navigate to="/dashboard" /> : <LoginPage />} 
@@ -88,6 +95,46 @@ const AppContent: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/quotes"
+            element={
+              <ProtectedRoute>
+                <QuotesPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quotes/create"
+            element={
+              <ProtectedRoute>
+                <CreateQuotePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quotes/:id"
+            element={
+              <ProtectedRoute>
+                <ViewQuotePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/quotes/edit/:id"
+            element={
+              <ProtectedRoute>
+                <CreateQuotePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/recurring"
+            element={
+              <ProtectedRoute>
+                <RecurringInvoicesPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/clients"
             element={
@@ -96,6 +143,14 @@ const AppContent: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/items"
+            element={
+              <ProtectedRoute>
+                <ItemsPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings"
             element={
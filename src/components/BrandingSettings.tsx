@@ -0,0 +1,310 @@
+import React, { useEffect } from "react";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { useAuth } from "../context/AuthContext.tsx";
+import InvoicePreview from "./InvoicePreview.tsx";
+import {
+  BRAND_FONTS,
+  DEFAULT_BRANDING,
+  INVOICE_LAYOUT_LABELS,
+  MAX_LOGO_SIZE,
+} from "../utils/branding.ts";
+import { DEFAULT_CURRENCY } from "../utils/currency.ts";
+import { toDateInputValue } from "../utils/helper.ts";
+import type {
+  BrandFont,
+  InvoiceFormData,
+  InvoiceLayout,
+} from "../types/index.ts";
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color such as #0ea5e9");
+
+const brandingSchema = z.object({
+  logo: z.string().optional(),
+  primary_color: hexColor,
+  accent_color: hexColor,
+  font: z.enum(["sans", "serif", "mono"]),
+  layout: z.enum(["classic", "modern", "compact"]),
+  show_bank_details: z.boolean(),
+  show_notes: z.boolean(),
+  show_signature: z.boolean(),
+  signature_name: z.string().max(100).optional(),
+});
+
+type BrandingFormData = z.infer<typeof brandingSchema>;
+
+const SAMPLE_INVOICE: InvoiceFormData = {
+  client_name: "Acme Corporation",
+  client_email: "billing@acme.example",
+  client_address: "Jl. Sudirman No. 1, Jakarta",
+  invoice_number: "INV-2025-0001",
+  issue_date: toDateInputValue(new Date()),
+  due_date: toDateInputValue(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)),
+  currency: DEFAULT_CURRENCY,
+  tax_rate: 11,
+  delivery_fee: 0,
+  notes: "Payment due within 30 days.",
+  items: [
+    {
+      description: "Website design",
+      quantity: 1,
+      unit_price: 7500000,
+      total: 7500000,
+    },
+    {
+      description: "Consulting",
+      quantity: 2.5,
+      unit: "hrs",
+      unit_price: 150000,
+      total: 375000,
+    },
+  ],
+};
+
+const BrandingSettings: React.FC = () => {
+  const { branding, updateBranding } = useAuth();
+
+  const brandingForm = useForm<BrandingFormData>({
+    resolver: zodResolver(brandingSchema),
+    defaultValues: branding,
+  });
+  const { reset, setValue } = brandingForm;
+
+  useEffect(() => {
+    reset(branding);
+  }, [branding, reset]);
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      toast.error("Logo must be a PNG or JPEG image");
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      toast.error("Logo must be smaller than 512 KB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () =>
+      setValue("logo", reader.result as string, { shouldDirty: true });
+    reader.onerror = () => toast.error("Failed to read logo");
+    reader.readAsDataURL(file);
+  };
+
+  const onSubmitBranding = async (data: BrandingFormData) => {
+    try {
+      await updateBranding(data);
+      toast.success("Branding updated successfully");
+    } catch {
+      toast.error("Failed to update branding");
+    }
+  };
+
+  const preview = { ...DEFAULT_BRANDING, ...brandingForm.watch() };
+  const errors = brandingForm.formState.errors;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30">
+        <h3 className="text-xl font-bold text-primary-900">Invoice Branding</h3>
+        <p className="text-sm text-primary-600 mt-2">
+          Your logo, colors and layout, used on previews and PDFs.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 p-8">
+        <form
+          onSubmit={brandingForm.handleSubmit(onSubmitBranding)}
+          className="space-y-8"
+        >
+          <div>
+            <label className="block text-sm font-semibold text-primary-700 mb-3">
+              Logo
+            </label>
+            <div className="flex items-center gap-4">
+              {preview.logo ? (
+                <img
+                  src={preview.logo}
+                  alt="Logo"
+                  className="h-14 max-w-[10rem] object-contain rounded border border-primary-200 bg-white p-1"
+                />
+              ) : (
+                <div className="h-14 w-14 flex items-center justify-center rounded border border-dashed border-primary-300 text-primary-400">
+                  <ImagePlus className="h-6 w-6" />
+                </div>
+              )}
+              <label className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300 cursor-pointer">
+                Upload
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={handleLogoChange}
+                  className="hidden"
+                />
+              </label>
+              {preview.logo && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setValue("logo", undefined, { shouldDirty: true })
+                  }
+                  className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                  title="Remove Logo"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-primary-500">
+              PNG or JPEG, up to 512 KB.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {(["primary_color", "accent_color"] as const).map((field) => (
+              <div key={field}>
+                <label
+                  htmlFor={field}
+                  className="block text-sm font-semibold text-primary-700 mb-3"
+                >
+                  {field === "primary_color" ? "Primary Color" : "Accent Color"}
+                </label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={preview[field]}
+                    onChange={(e) =>
+                      setValue(field, e.target.value, { shouldDirty: true })
+                    }
+                    className="h-12 w-12 rounded-full border border-primary-200 cursor-pointer"
+                  />
+                  <input
+                    id={field}
+                    type="text"
+                    {...brandingForm.register(field)}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm font-mono"
+                  />
+                </div>
+                {errors[field] && (
+                  <p className="mt-2 text-sm text-red-600 font-medium">
+                    {errors[field]?.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label
+              htmlFor="font"
+              className="block text-sm font-semibold text-primary-700 mb-3"
+            >
+              Font
+            </label>
+            <select
+              id="font"
+              {...brandingForm.register("font")}
+              className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+            >
+              {(Object.keys(BRAND_FONTS) as BrandFont[]).map((font) => (
+                <option key={font} value={font}>
+                  {BRAND_FONTS[font].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-primary-700 mb-3">
+              Layout
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {(Object.keys(INVOICE_LAYOUT_LABELS) as InvoiceLayout[]).map(
+                (layout) => (
+                  <button
+                    key={layout}
+                    type="button"
+                    onClick={() =>
+                      setValue("layout", layout, { shouldDirty: true })
+                    }
+                    className={`px-4 py-3 text-sm font-semibold rounded-2xl border transition-all duration-200 ${
+                      preview.layout === layout
+                        ? "bg-sky-100 text-sky-800 border-sky-300"
+                        : "bg-white/80 text-primary-600 border-primary-200 hover:bg-primary-50"
+                    }`}
+                  >
+                    {INVOICE_LAYOUT_LABELS[layout]}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className="block text-sm font-semibold text-primary-700 mb-3">
+              Sections
+            </label>
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...brandingForm.register("show_bank_details")}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Bank account details
+            </label>
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...brandingForm.register("show_notes")}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Notes and terms
+            </label>
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...brandingForm.register("show_signature")}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Signature line
+            </label>
+            {preview.show_signature && (
+              <input
+                type="text"
+                {...brandingForm.register("signature_name")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="Name under the signature line"
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={brandingForm.formState.isSubmitting}
+              className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {brandingForm.formState.isSubmitting
+                ? "Saving..."
+                : "Save Changes"}
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-gradient-to-br from-primary-50/80 to-sky-50/60 rounded-2xl p-6 border border-primary-200/40 overflow-hidden">
+          <InvoicePreview data={SAMPLE_INVOICE} branding={preview} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandingSettings;
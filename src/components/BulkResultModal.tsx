@@ -0,0 +1,61 @@
+import React from "react";
+import { AlertCircle, X } from "lucide-react";
+
+interface BulkResultModalProps {
+  title: string;
+  failures: { label: string; reason: string }[];
+  onClose: () => void;
+}
+
+const BulkResultModal: React.FC<BulkResultModalProps> = ({
+  title,
+  failures,
+  onClose,
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">{title}</h3>
+            <p className="flex items-center gap-2 text-sm text-red-600 mt-1">
+              <AlertCircle className="h-4 w-4" />
+              {failures.length} invoice{failures.length === 1 ? "" : "s"} failed
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="px-8 pb-8 pt-6">
+          <ul className="divide-y divide-primary-100 border border-primary-200/60 rounded-2xl max-h-80 overflow-y-auto">
+            {failures.map((failure, index) => (
+              <li key={index} className="px-4 py-3 text-sm">
+                <span className="font-semibold text-primary-900">
+                  {failure.label}
+                </span>
+                <span className="block text-red-600">{failure.reason}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center justify-end mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkResultModal;
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { toast } from "react-toastify";
+import type { CreditNoteFormData, Invoice } from "../types/index.ts";
+import { apiService } from "../utils/api.ts";
+import { formatItemRate, toDateInputValue } from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+} from "../utils/calculation.ts";
+
+interface CreditNoteModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+  onSubmit: (data: CreditNoteFormData) => Promise<void>;
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
+  invoice,
+  onClose,
+  onSubmit,
+}) => {
+  // Quantity to credit per invoice line, keyed by line index
+  const [creditQuantities, setCreditQuantities] = useState<
+    Record<number, number>
+  >({});
+  const [creditNoteNumber, setCreditNoteNumber] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadNextCreditNoteNumber = async () => {
+      try {
+        const nextNumber = await apiService.getNextCreditNoteNumber();
+        // Keep any number the user already typed in
+        setCreditNoteNumber((prev) => prev || nextNumber);
+      } catch {
+        toast.error("Failed to load the next credit note number");
+      }
+    };
+
+    loadNextCreditNoteNumber();
+  }, []);
+
+  const toggleItem = (index: number) => {
+    setCreditQuantities((prev) => {
+      const next = { ...prev };
+      if (index in next) {
+        delete next[index];
+      } else {
+        next[index] = invoice.items[index].quantity;
+      }
+      return next;
+    });
+  };
+
+  const handleQuantityChange = (index: number, value: number) => {
+    const maxQuantity = invoice.items[index].quantity;
+    setCreditQuantities((prev) => ({
+      ...prev,
+      [index]: Math.min(Math.max(value || 0, 0), maxQuantity),
+    }));
+  };
+
+  // Credited lines are stored as negative quantities of the price actually
+  // charged, so line and invoice discounts are credited back proportionally
+  const totals = calculateInvoiceTotals(invoice);
+  const discountedSubtotal = totals.subtotal - totals.lineDiscount;
+  const invoiceDiscountFactor =
+    discountedSubtotal > 0 ? totals.taxableAmount / discountedSubtotal : 1;
+  const creditItems = Object.entries(creditQuantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([index, quantity]) => {
+      const item = invoice.items[Number(index)];
+      const unitPrice =
+        (calculateLineTotal(item, invoice.currency) / item.quantity) *
+        invoiceDiscountFactor;
+      return {
+        description: item.description,
+        quantity: -quantity,
+        unit: item.unit,
+        unit_price: unitPrice,
+        taxes: item.taxes,
+        total: calculateLineTotal(
+          { quantity: -quantity, unit_price: unitPrice },
+          invoice.currency
+        ),
+      };
+    });
+
+  const creditTotal = calculateInvoiceTotals({
+    items: creditItems,
+    tax_rate: invoice.tax_rate,
+    tax_rounding: invoice.tax_rounding,
+    currency: invoice.currency,
+    delivery_fee: 0,
+  }).total;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!creditNoteNumber.trim()) {
+      setError("Credit note number is required");
+      return;
+    }
+    if (creditItems.length === 0) {
+      setError("Select at least one line to credit");
+      return;
+    }
+    if (!reason.trim()) {
+      setError("Reason is required");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await onSubmit({
+        credit_note_number: creditNoteNumber.trim(),
+        issue_date: toDateInputValue(new Date()),
+        reason: reason.trim(),
+        items: creditItems,
+      });
+    } catch {
+      toast.error("Failed to issue credit note");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-2xl w-full border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">
+              Issue Credit Note
+            </h3>
+            <p className="text-sm text-primary-600 mt-1">
+              Against invoice {invoice.invoice_number}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label
+                htmlFor="credit_note_number"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Credit note number
+              </label>
+              <input
+                id="credit_note_number"
+                type="text"
+                value={creditNoteNumber}
+                onChange={(e) => setCreditNoteNumber(e.target.value)}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Lines to credit
+              </label>
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {invoice.items.map((item, index) => (
+                  <div
+                    key={item.id ?? index}
+                    className="flex items-center gap-4 px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={index in creditQuantities}
+                      onChange={() => toggleItem(index)}
+                      className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-primary-900 truncate">
+                        {item.description}
+                      </div>
+                      <div className="text-xs text-primary-500">
+                        {formatItemRate(
+                          item,
+                          invoice.currency,
+                          invoice.quantity_precision
+                        )}
+                      </div>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max={item.quantity}
+                      step="any"
+                      value={creditQuantities[index] ?? ""}
+                      disabled={!(index in creditQuantities)}
+                      onChange={(e) =>
+                        handleQuantityChange(index, parseFloat(e.target.value))
+                      }
+                      className="w-24 px-3 py-2 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm disabled:opacity-50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="reason"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Reason
+              </label>
+              <textarea
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none"
+                placeholder="Disputed line, returned goods, etc."
+              />
+            </div>
+
+            <div className="flex justify-between text-sm">
+              <span className="text-primary-600">Credit total</span>
+              <span className="font-bold text-primary-900">
+                {formatMoney(creditTotal, invoice.currency)}
+              </span>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 font-medium">{error}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isSubmitting ? "Saving..." : "Issue Credit Note"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteModal;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, CheckCircle, X } from "lucide-react";
+import { apiService } from "../utils/api.ts";
+import {
+  E_INVOICE_FORMAT_LABELS,
+  validateEInvoice,
+} from "../utils/eInvoice.ts";
+import type { EInvoiceFormat } from "../utils/eInvoice.ts";
+import type { Client, Invoice, User } from "../types/index.ts";
+
+interface EInvoiceModalProps {
+  invoice: Invoice;
+  user: User | null;
+  onClose: () => void;
+  // Only called once the invoice passes validation
+  onSubmit: (format: EInvoiceFormat, buyer: Client) => Promise<void>;
+}
+
+const EInvoiceModal: React.FC<EInvoiceModalProps> = ({
+  invoice,
+  user,
+  onClose,
+  onSubmit,
+}) => {
+  const [eInvoiceFormat, setEInvoiceFormat] = useState<EInvoiceFormat>("ubl");
+  const [buyer, setBuyer] = useState<Client | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const loadBuyer = async () => {
+      try {
+        // The buyer's country and VAT number live on the saved client
+        if (invoice.client_id) {
+          setBuyer(await apiService.getClient(invoice.client_id));
+        }
+      } catch {
+        setBuyer(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBuyer();
+  }, [invoice.client_id]);
+
+  const errors = loading ? [] : validateEInvoice(invoice, user, buyer);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!buyer || errors.length > 0) return;
+    try {
+      setIsExporting(true);
+      await onSubmit(eInvoiceFormat, buyer);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">
+              Export E-Invoice
+            </h3>
+            <p className="text-sm text-primary-600 mt-1">
+              Structured invoice for EN 16931 compliant systems
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Format
+              </label>
+              <div className="space-y-3">
+                {(Object.keys(E_INVOICE_FORMAT_LABELS) as EInvoiceFormat[]).map(
+                  (value) => (
+                    <label
+                      key={value}
+                      className="flex items-center gap-2 text-sm text-primary-700"
+                    >
+                      <input
+                        type="radio"
+                        name="e_invoice_format"
+                        checked={eInvoiceFormat === value}
+                        onChange={() => setEInvoiceFormat(value)}
+                        className="h-4 w-4 border-primary-300 text-sky-600 focus:ring-sky-500"
+                      />
+                      {E_INVOICE_FORMAT_LABELS[value]}
+                    </label>
+                  )
+                )}
+              </div>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-primary-600">Checking invoice...</p>
+            ) : errors.length > 0 ? (
+              <div className="text-sm text-red-600 bg-red-50 rounded-2xl px-4 py-4">
+                <p className="flex items-center gap-2 font-semibold mb-2">
+                  <AlertCircle className="h-4 w-4" />
+                  Fix these before exporting
+                </p>
+                <ul className="list-disc pl-5 space-y-1">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+                <div className="flex gap-4 mt-3 text-xs font-semibold">
+                  <Link
+                    to="/settings"
+                    className="text-sky-600 hover:text-sky-800"
+                  >
+                    Open Settings
+                  </Link>
+                  <Link
+                    to="/clients"
+                    className="text-sky-600 hover:text-sky-800"
+                  >
+                    Open Clients
+                  </Link>
+                </div>
+              </div>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                All mandatory fields are present.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || isExporting || errors.length > 0}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isExporting ? "Exporting..." : "Export"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EInvoiceModal;
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import type {
+  ExportColumn,
+  ExportFormat,
+  ExportLevel,
+  ExportOptions,
+} from "../utils/export.ts";
+
+interface ExportModalProps {
+  title: string;
+  // What will be exported, e.g. how many records match the filters
+  description: string;
+  columns: Pick<ExportColumn<unknown>, "key" | "label" | "level">[];
+  // Offer one row per line item as well as one per record
+  allowItemLevel?: boolean;
+  onClose: () => void;
+  onSubmit: (options: ExportOptions) => Promise<void>;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+};
+
+const ExportModal: React.FC<ExportModalProps> = ({
+  title,
+  description,
+  columns,
+  allowItemLevel = false,
+  onClose,
+  onSubmit,
+}) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [level, setLevel] = useState<ExportLevel>("invoice");
+  const [selected, setSelected] = useState<string[]>(
+    columns.map((column) => column.key)
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  const availableColumns = columns.filter(
+    (column) => !column.level || column.level === level
+  );
+  const selectedColumns = availableColumns
+    .map((column) => column.key)
+    .filter((key) => selected.includes(key));
+
+  const toggleColumn = (key: string) => {
+    setSelected((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsExporting(true);
+      await onSubmit({ format: exportFormat, columns: selectedColumns, level });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">{title}</h3>
+            <p className="text-sm text-primary-600 mt-1">{description}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleExport} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Format
+              </label>
+              <div className="flex gap-6">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(
+                  (value) => (
+                    <label
+                      key={value}
+                      className="inline-flex items-center gap-2 text-sm text-primary-700"
+                    >
+                      <input
+                        type="radio"
+                        name="export_format"
+                        checked={exportFormat === value}
+                        onChange={() => setExportFormat(value)}
+                        className="h-4 w-4 border-primary-300 text-sky-600 focus:ring-sky-500"
+                      />
+                      {FORMAT_LABELS[value]}
+                    </label>
+                  )
+                )}
+              </div>
+            </div>
+
+            {allowItemLevel && (
+              <div>
+                <label className="block text-sm font-semibold text-primary-700 mb-3">
+                  Rows
+                </label>
+                <div className="flex gap-6">
+                  <label className="inline-flex items-center gap-2 text-sm text-primary-700">
+                    <input
+                      type="radio"
+                      name="export_level"
+                      checked={level === "invoice"}
+                      onChange={() => setLevel("invoice")}
+                      className="h-4 w-4 border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    One per invoice
+                  </label>
+                  <label className="inline-flex items-center gap-2 text-sm text-primary-700">
+                    <input
+                      type="radio"
+                      name="export_level"
+                      checked={level === "item"}
+                      onChange={() => setLevel("item")}
+                      className="h-4 w-4 border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    One per line item
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-semibold text-primary-700">
+                  Columns
+                </label>
+                <div className="flex gap-4 text-xs font-semibold">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSelected(columns.map((column) => column.key))
+                    }
+                    className="text-sky-600 hover:text-sky-800"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelected([])}
+                    className="text-sky-600 hover:text-sky-800"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 bg-white/60 border border-primary-200/60 rounded-2xl px-4 py-4">
+                {availableColumns.map((column) => (
+                  <label
+                    key={column.key}
+                    className="inline-flex items-center gap-2 text-sm text-primary-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isExporting || selectedColumns.length === 0}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isExporting ? "Exporting..." : "Export"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
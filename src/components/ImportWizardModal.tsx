@@ -0,0 +1,456 @@
+import React, { useState } from "react";
+import { AlertCircle, CheckCircle, Upload, X } from "lucide-react";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import {
+  CLIENT_IMPORT_FIELDS,
+  IMPORT_BATCH_SIZE,
+  INVOICE_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessImportMapping,
+  parseCsv,
+  validateClientImport,
+  validateInvoiceImport,
+} from "../utils/import.ts";
+import type {
+  ImportMapping,
+  ImportRowResult,
+  ImportTarget,
+} from "../utils/import.ts";
+import type { Client, InvoiceFormData } from "../types/index.ts";
+
+interface ImportWizardModalProps {
+  target: ImportTarget;
+  onClose: () => void;
+  // Called once records were created so the list can be reloaded
+  onComplete: () => void;
+}
+
+type ImportStep = "upload" | "map" | "review" | "import";
+
+type ImportRecord = Omit<Client, "id"> | InvoiceFormData;
+
+const STEP_LABELS: Record<ImportStep, string> = {
+  upload: "Upload",
+  map: "Map Columns",
+  review: "Review",
+  import: "Import",
+};
+
+const TARGET_LABELS: Record<ImportTarget, [string, string]> = {
+  clients: ["client", "clients"],
+  invoices: ["invoice", "invoices"],
+};
+
+const fetchAllClients = async () => {
+  const clients: Client[] = [];
+  for (let page = 1; ; page++) {
+    const result = await apiService.getClients({ page, page_size: 100 });
+    clients.push(...result.data);
+    if (page >= result.pagination.total_pages) break;
+  }
+  return clients;
+};
+
+const ImportWizardModal: React.FC<ImportWizardModalProps> = ({
+  target,
+  onClose,
+  onComplete,
+}) => {
+  const fields =
+    target === "clients" ? CLIENT_IMPORT_FIELDS : INVOICE_IMPORT_FIELDS;
+  const [singular, plural] = TARGET_LABELS[target];
+
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [results, setResults] = useState<ImportRowResult<ImportRecord>[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [processed, setProcessed] = useState(0);
+  const [created, setCreated] = useState(0);
+  const [failures, setFailures] = useState<string[]>([]);
+
+  const missingFields = fields.filter(
+    (field) => field.required && mapping[field.key] === null
+  );
+  const ready = results.filter((result) => result.record && !result.duplicate);
+  const invalidCount = results.filter((result) => !result.record).length;
+  const duplicateCount = results.filter(
+    (result) => result.record && result.duplicate
+  ).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error("The file has no rows to import");
+      return;
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      toast.error(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setRows(dataRows);
+    setMapping(guessImportMapping(headerRow, fields));
+    setStep("map");
+  };
+
+  const handleValidate = async () => {
+    try {
+      setIsValidating(true);
+      const clients = await fetchAllClients();
+      if (target === "clients") {
+        setResults(validateClientImport(rows, mapping, clients));
+      } else {
+        const invoices = await apiService.getAllInvoices();
+        setResults(
+          validateInvoiceImport(
+            rows,
+            mapping,
+            clients,
+            invoices.map((invoice) => invoice.invoice_number)
+          )
+        );
+      }
+      setStep("review");
+    } catch {
+      toast.error(`Failed to load existing ${plural}`);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const createRecord = async (record: ImportRecord) => {
+    if (target === "clients") {
+      await apiService.createClient(record as Omit<Client, "id">);
+      return;
+    }
+    // Creating an invoice takes no status, so it is set afterwards
+    const invoiceData = record as InvoiceFormData;
+    const invoice = await apiService.createInvoice(invoiceData);
+    if (invoiceData.status && invoiceData.status !== "DRAFT") {
+      await apiService.updateInvoiceStatus(invoice.id, invoiceData.status);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep("import");
+    setIsImporting(true);
+    let createdCount = 0;
+    for (let start = 0; start < ready.length; start += IMPORT_BATCH_SIZE) {
+      const batch = ready.slice(start, start + IMPORT_BATCH_SIZE);
+      const settled = await Promise.allSettled(
+        batch.map((result) => createRecord(result.record!))
+      );
+      const failed = batch.filter(
+        (_, index) => settled[index].status === "rejected"
+      );
+      createdCount += batch.length - failed.length;
+      setCreated(createdCount);
+      setProcessed(start + batch.length);
+      setFailures((prev) => [
+        ...prev,
+        ...failed.map(
+          (result) => `Row ${result.rows.join(", ")}: ${result.label}`
+        ),
+      ]);
+    }
+    setIsImporting(false);
+
+    if (createdCount > 0) {
+      onComplete();
+      toast.success(
+        `Imported ${createdCount} ${createdCount === 1 ? singular : plural}`
+      );
+    }
+  };
+
+  const steps = Object.keys(STEP_LABELS) as ImportStep[];
+  const progress =
+    ready.length > 0 ? Math.round((processed / ready.length) * 100) : 100;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">
+              Import {plural.charAt(0).toUpperCase() + plural.slice(1)}
+            </h3>
+            <div className="flex gap-4 text-xs font-semibold mt-2">
+              {steps.map((value, index) => (
+                <span
+                  key={value}
+                  className={
+                    value === step ? "text-sky-600" : "text-primary-400"
+                  }
+                >
+                  {index + 1}. {STEP_LABELS[value]}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="text-primary-400 hover:text-primary-600 disabled:opacity-50 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="px-8 pb-8 pt-6">
+          {step === "upload" && (
+            <div className="space-y-4">
+              <p className="text-sm text-primary-600">
+                Upload a CSV file with a header row.{" "}
+                {target === "invoices"
+                  ? "Each row is one line item; rows with the same invoice number are combined into one invoice. Dates use the YYYY-MM-DD format."
+                  : "Clients whose email already exists are skipped."}
+              </p>
+              <label className="flex flex-col items-center justify-center gap-3 px-6 py-12 bg-white/60 border-2 border-dashed border-primary-300 rounded-2xl cursor-pointer hover:bg-primary-50 transition-colors">
+                <Upload className="h-8 w-8 text-primary-400" />
+                <span className="text-sm font-semibold text-primary-700">
+                  Choose a CSV file
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === "map" && (
+            <div className="space-y-6">
+              <p className="text-sm text-primary-600">
+                {fileName}: {rows.length} row{rows.length === 1 ? "" : "s"}.
+                Choose the column each field is read from.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {fields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-semibold text-primary-700 mb-2">
+                      {field.label}
+                      {field.required && " *"}
+                    </label>
+                    <select
+                      value={mapping[field.key] ?? ""}
+                      onChange={(e) =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          [field.key]:
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                        }))
+                      }
+                      className="w-full px-4 py-2 bg-white/60 border border-primary-200/60 rounded-2xl focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-transparent text-sm"
+                    >
+                      <option value="">Don't import</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map the required fields:{" "}
+                  {missingFields.map((field) => field.label).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === "review" && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="bg-green-50 rounded-2xl px-4 py-3">
+                  <p className="text-2xl font-bold text-green-700">
+                    {ready.length}
+                  </p>
+                  <p className="text-xs text-green-700">Ready to import</p>
+                </div>
+                <div className="bg-yellow-50 rounded-2xl px-4 py-3">
+                  <p className="text-2xl font-bold text-yellow-700">
+                    {duplicateCount}
+                  </p>
+                  <p className="text-xs text-yellow-700">Duplicates skipped</p>
+                </div>
+                <div className="bg-red-50 rounded-2xl px-4 py-3">
+                  <p className="text-2xl font-bold text-red-700">
+                    {invalidCount}
+                  </p>
+                  <p className="text-xs text-red-700">Invalid</p>
+                </div>
+              </div>
+              <div className="max-h-80 overflow-y-auto border border-primary-200/60 rounded-2xl">
+                <table className="min-w-full divide-y divide-primary-200/60 text-sm">
+                  <thead className="bg-primary-50/80 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-primary-600 uppercase">
+                        Row
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-primary-600 uppercase">
+                        {target === "clients" ? "Client" : "Invoice"}
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-primary-600 uppercase">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-primary-100">
+                    {results.map((result) => (
+                      <tr key={result.rows[0]}>
+                        <td className="px-4 py-2 text-primary-600 align-top">
+                          {result.rows.join(", ")}
+                        </td>
+                        <td className="px-4 py-2 text-primary-900 align-top">
+                          {result.label}
+                        </td>
+                        <td className="px-4 py-2 align-top">
+                          {!result.record ? (
+                            <ul className="text-red-600 space-y-1">
+                              {result.errors.map((error, index) => (
+                                <li key={index}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : result.duplicate ? (
+                            <span className="text-yellow-700">
+                              {result.duplicate}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === "import" && (
+            <div className="space-y-6">
+              <div>
+                <div className="flex justify-between text-sm text-primary-700 mb-2">
+                  <span>
+                    {isImporting
+                      ? `Importing ${plural}...`
+                      : `Created ${created} of ${ready.length} ${plural}`}
+                  </span>
+                  <span>{progress}%</span>
+                </div>
+                <div className="w-full h-3 bg-primary-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-accent-500 to-accent-600 transition-all duration-300"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              </div>
+              {!isImporting && failures.length === 0 && (
+                <p className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4" />
+                  All {plural} were imported.
+                </p>
+              )}
+              {failures.length > 0 && (
+                <div className="text-sm text-red-600">
+                  <p className="flex items-center gap-2 font-semibold mb-2">
+                    <AlertCircle className="h-4 w-4" />
+                    {failures.length}{" "}
+                    {failures.length === 1 ? singular : plural} could not be
+                    created
+                  </p>
+                  <ul className="max-h-40 overflow-y-auto space-y-1">
+                    {failures.map((failure, index) => (
+                      <li key={index}>{failure}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            {step === "map" && (
+              <button
+                type="button"
+                onClick={() => setStep("upload")}
+                className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                Back
+              </button>
+            )}
+            {step === "review" && (
+              <button
+                type="button"
+                onClick={() => setStep("map")}
+                className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                Back
+              </button>
+            )}
+            {step !== "import" && (
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                Cancel
+              </button>
+            )}
+            {step === "map" && (
+              <button
+                type="button"
+                onClick={handleValidate}
+                disabled={isValidating || missingFields.length > 0}
+                className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+              >
+                {isValidating ? "Checking..." : "Review"}
+              </button>
+            )}
+            {step === "review" && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={ready.length === 0}
+                className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+              >
+                Import {ready.length} {ready.length === 1 ? singular : plural}
+              </button>
+            )}
+            {step === "import" && (
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isImporting}
+                className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizardModal;
@@ -5,21 +5,62 @@ import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 import { useAuth } from "../context/AuthContext.tsx";
 import { apiService } from "../utils/api.ts";
-import type { InvoiceFormData, InvoiceItem, Client } from "../types/index.ts";
+import { CURRENCIES, formatMoney, getCurrency } from "../utils/currency.ts";
+import {
+  DEFAULT_QUANTITY_PRECISION,
+  QUANTITY_PRECISION_OPTIONS,
+  roundQuantity,
+} from "../utils/helper.ts";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  DEFAULT_TAX_ROUNDING,
+  DISCOUNT_TYPE_LABELS,
+  TAX_ROUNDING_LABELS,
+} from "../utils/calculation.ts";
+import {
+  calculateDueDate,
+  getTermsForDueDate,
+  PAYMENT_TERMS_LABELS,
+} from "../utils/paymentTerms.ts";
+import type {
+  CatalogItem,
+  InvoiceFormData,
+  InvoiceItem,
+  Client,
+  DiscountType,
+  DocumentType,
+  PaymentTerms,
+  PaymentTermsType,
+  TaxRate,
+  TaxRounding,
+} from "../types/index.ts";
 
 interface InvoiceFormProps {
   data: InvoiceFormData;
   onChange: (data: InvoiceFormData) => void;
   showClientSelection?: boolean;
+  documentType?: DocumentType;
 }
 
 const InvoiceForm: React.FC<InvoiceFormProps> = ({
   data,
   onChange,
   showClientSelection = true,
+  documentType = "invoice",
 }) => {
+  const documentLabel = documentType === "quote" ? "Quote" : "Invoice";
+  // Quotes use the due date field for their validity date
+  const showPaymentTerms = documentType === "invoice";
+  const quantityPrecision =
+    data.quantity_precision ?? DEFAULT_QUANTITY_PRECISION;
+  const quantityStep = 1 / 10 ** quantityPrecision;
   const { isAuthenticated, user } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  // Index of the item row whose description suggestions are open
+  const [suggestionIndex, setSuggestionIndex] = useState<number | null>(null);
   const [selectedClientId, setSelectedClientId] = useState<number | null>(
     data.client_id || null
   );
@@ -58,6 +99,38 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
     }
   }, [isAuthenticated, showClientSelection, loadClients]);
 
+  useEffect(() => {
+    if (isAuthenticated) {
+      apiService
+        .getTaxRates()
+        .then(setTaxRates)
+        .catch(() => setTaxRates([]));
+    }
+  }, [isAuthenticated]);
+
+  // Catalogue items matching the description being typed
+  const suggestionQuery =
+    suggestionIndex === null
+      ? ""
+      : (data.items[suggestionIndex]?.description || "").trim();
+
+  useEffect(() => {
+    if (!isAuthenticated || suggestionIndex === null) return;
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      apiService
+        .getCatalogItems({ page: 1, page_size: 8, search: suggestionQuery })
+        .then((result) => !cancelled && setCatalogItems(result.data))
+        .catch(() => !cancelled && setCatalogItems([]));
+    }, 300); // Debounce search
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isAuthenticated, suggestionIndex, suggestionQuery]);
+
   const handleClientSelect = (clientId: string | null) => {
     if (!clientId) {
       setSelectedClientId(null);
@@ -82,6 +155,13 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
         client_email: client.email || "",
         client_address: client.address || "",
         client_phone: client.phone || "",
+        ...(showPaymentTerms &&
+          client.payment_terms && {
+            payment_terms: client.payment_terms,
+            due_date: data.issue_date
+              ? calculateDueDate(data.issue_date, client.payment_terms)
+              : data.due_date,
+          }),
       });
     }
   };
@@ -96,6 +176,41 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
     });
   };
 
+  // The due date follows the payment terms whenever the issue date moves
+  const handleIssueDateChange = (issueDate: string) => {
+    onChange({
+      ...data,
+      issue_date: issueDate,
+      due_date:
+        showPaymentTerms && data.payment_terms && issueDate
+          ? calculateDueDate(issueDate, data.payment_terms)
+          : data.due_date,
+    });
+  };
+
+  // Picking a due date by hand turns the terms into a custom number of days
+  const handleDueDateChange = (dueDate: string) => {
+    onChange({
+      ...data,
+      due_date: dueDate,
+      payment_terms:
+        showPaymentTerms && data.issue_date && dueDate
+          ? getTermsForDueDate(data.issue_date, dueDate, data.payment_terms)
+          : data.payment_terms,
+    });
+  };
+
+  const handlePaymentTermsChange = (terms: PaymentTerms | undefined) => {
+    onChange({
+      ...data,
+      payment_terms: terms,
+      due_date:
+        terms && data.issue_date
+          ? calculateDueDate(data.issue_date, terms)
+          : data.due_date,
+    });
+  };
+
   const handleItemChange = (
     index: number,
     field: keyof InvoiceItem,
@@ -109,8 +224,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
 
     // Calculate total for this item
     if (field === "quantity" || field === "unit_price") {
-      newItems[index].total =
-        newItems[index].quantity * newItems[index].unit_price;
+      newItems[index].total = calculateLineTotal(newItems[index], data.currency);
     }
 
     onChange({
@@ -119,6 +233,106 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
     });
   };
 
+  const handleQuantityPrecisionChange = (precision: number) => {
+    onChange({
+      ...data,
+      quantity_precision: precision,
+      items: data.items.map((item) => {
+        const newItem = {
+          ...item,
+          quantity: roundQuantity(item.quantity, precision),
+        };
+        return { ...newItem, total: calculateLineTotal(newItem, data.currency) };
+      }),
+    });
+  };
+
+  const handleItemDiscountChange = (
+    index: number,
+    discountType: DiscountType | undefined,
+    discountValue: number
+  ) => {
+    const newItems = [...data.items];
+    newItems[index] = {
+      ...newItems[index],
+      discount_type: discountType,
+      discount_value: discountType ? discountValue : undefined,
+    };
+    newItems[index].total = calculateLineTotal(newItems[index], data.currency);
+
+    onChange({
+      ...data,
+      items: newItems,
+    });
+  };
+
+  const toggleItemTax = (index: number, taxRate: TaxRate) => {
+    const newItems = [...data.items];
+    const taxes = newItems[index].taxes || [];
+    const hasTax = taxes.some((tax) => tax.tax_rate_id === taxRate.id);
+    newItems[index] = {
+      ...newItems[index],
+      taxes: hasTax
+        ? taxes.filter((tax) => tax.tax_rate_id !== taxRate.id)
+        : [
+            ...taxes,
+            {
+              tax_rate_id: taxRate.id,
+              name: taxRate.name,
+              rate: taxRate.rate,
+              is_withholding: taxRate.is_withholding,
+              is_compound: taxRate.is_compound,
+              vat_category: taxRate.vat_category,
+              exemption_reason: taxRate.exemption_reason,
+            },
+          ],
+    };
+
+    onChange({
+      ...data,
+      items: newItems,
+    });
+  };
+
+  const applyCatalogItem = (index: number, catalogItem: CatalogItem) => {
+    const newItems = [...data.items];
+    newItems[index] = {
+      ...newItems[index],
+      description: catalogItem.description || catalogItem.name,
+      unit: catalogItem.unit || newItems[index].unit,
+      unit_price: catalogItem.unit_price,
+      taxes: taxRates
+        .filter((taxRate) => catalogItem.tax_rate_ids.includes(taxRate.id))
+        .map((taxRate) => ({
+          tax_rate_id: taxRate.id,
+          name: taxRate.name,
+          rate: taxRate.rate,
+          is_withholding: taxRate.is_withholding,
+          is_compound: taxRate.is_compound,
+          vat_category: taxRate.vat_category,
+          exemption_reason: taxRate.exemption_reason,
+        })),
+    };
+    newItems[index].total = calculateLineTotal(newItems[index], data.currency);
+
+    onChange({
+      ...data,
+      items: newItems,
+    });
+    setSuggestionIndex(null);
+  };
+
+  const handleDiscountChange = (
+    discountType: DiscountType | undefined,
+    discountValue: number
+  ) => {
+    onChange({
+      ...data,
+      discount_type: discountType,
+      discount_value: discountType ? discountValue : undefined,
+    });
+  };
+
   const addItem = () => {
     onChange({
       ...data,
@@ -144,9 +358,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
     }
   };
 
-  const subtotal = data.items.reduce((sum, item) => sum + item.total, 0);
-  const taxAmount = (subtotal * data.tax_rate) / 100;
-  const total = subtotal + taxAmount + data.delivery_fee;
+  const totals = calculateInvoiceTotals(data);
 
   return (
     <form className="space-y-8">
@@ -158,7 +370,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
           }`}
           onClick={() => toggleSection("invoiceDetails")}
         >
-          <div className="flex items-center">Invoice Details</div>
+          <div className="flex items-center">{documentLabel} Details</div>
           {expandedSections.invoiceDetails ? (
             <ChevronUp className="h-5 w-5 text-gray-400" />
           ) : (
@@ -170,7 +382,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
           <div className="grid grid-cols-1 gap-6 mb-6 transition-all duration-300 ease-in-out">
             <div>
               <label className="block text-sm font-semibold text-primary-700 mb-3">
-                Invoice Number <span className="text-red-400">*</span>
+                {documentLabel} Number <span className="text-red-400">*</span>
               </label>
               <input
                 type="text"
@@ -179,10 +391,58 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                   handleInputChange("invoice_number", e.target.value)
                 }
                 className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
-                placeholder="INV-2025-001"
+                placeholder={
+                  documentType === "quote" ? "QUO-2025-001" : "INV-2025-001"
+                }
                 required
               />
             </div>
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Currency <span className="text-red-400">*</span>
+              </label>
+              <Listbox
+                value={getCurrency(data.currency).code}
+                onChange={(value) => handleInputChange("currency", value)}
+              >
+                <div className="relative">
+                  <Listbox.Button className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm text-left flex items-center justify-between">
+                    <span>
+                      {getCurrency(data.currency).code} -{" "}
+                      {getCurrency(data.currency).name}
+                    </span>
+                    <ChevronDown className="h-5 w-5 text-primary-400 transition-transform duration-200 ui-open:rotate-180" />
+                  </Listbox.Button>
+
+                  <Transition
+                    as={Fragment}
+                    leave="transition ease-in duration-100"
+                    leaveFrom="opacity-100"
+                    leaveTo="opacity-0"
+                  >
+                    <Listbox.Options className="absolute z-50 w-full mt-2 bg-white/95 backdrop-blur-sm border border-primary-200 rounded-2xl shadow-xl max-h-60 overflow-y-auto">
+                      {CURRENCIES.map((currency) => (
+                        <Listbox.Option
+                          key={currency.code}
+                          value={currency.code}
+                          className={({ active, selected }) =>
+                            `relative cursor-pointer select-none py-3 px-4 transition-colors border-b border-primary-100/50 last:border-b-0 first:rounded-t-2xl last:rounded-b-2xl ${
+                              active ? "bg-sky-50/80" : ""
+                            } ${
+                              selected
+                                ? "bg-sky-100/60 text-sky-800 font-medium"
+                                : "text-primary-700"
+                            }`
+                          }
+                        >
+                          {currency.code} - {currency.name}
+                        </Listbox.Option>
+                      ))}
+                    </Listbox.Options>
+                  </Transition>
+                </div>
+              </Listbox>
+            </div>
             <div>
               <label className="block text-sm font-semibold text-primary-700 mb-3">
                 Issue Date <span className="text-red-400">*</span>
@@ -194,7 +454,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                     const formattedDate = date
                       ? date.toISOString().split("T")[0]
                       : "";
-                    handleInputChange("issue_date", formattedDate);
+                    handleIssueDateChange(formattedDate);
                   }}
                   dateFormat="dd/MM/yyyy"
                   placeholderText="Select issue date"
@@ -208,7 +468,8 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
             </div>
             <div>
               <label className="block text-sm font-semibold text-primary-700 mb-3">
-                Due Date <span className="text-red-400">*</span>
+                {documentType === "quote" ? "Valid Until" : "Due Date"}{" "}
+                <span className="text-red-400">*</span>
               </label>
               <div className="relative">
                 <DatePicker
@@ -217,10 +478,14 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                     const formattedDate = date
                       ? date.toISOString().split("T")[0]
                       : "";
-                    handleInputChange("due_date", formattedDate);
+                    handleDueDateChange(formattedDate);
                   }}
                   dateFormat="dd/MM/yyyy"
-                  placeholderText="Select due date"
+                  placeholderText={
+                    documentType === "quote"
+                      ? "Select validity date"
+                      : "Select due date"
+                  }
                   className="w-full px-4 py-3 pl-12 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
                   wrapperClassName="w-full"
                   calendarClassName="shadow-xl border-0 rounded-2xl"
@@ -229,6 +494,85 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                 <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-primary-400 pointer-events-none z-10" />
               </div>
             </div>
+            {showPaymentTerms && (
+              <div>
+                <label className="block text-sm font-semibold text-primary-700 mb-3">
+                  Payment Terms
+                </label>
+                <div className="flex gap-3">
+                  <select
+                    value={data.payment_terms?.type ?? ""}
+                    onChange={(e) => {
+                      const type = e.target.value as PaymentTermsType | "";
+                      handlePaymentTermsChange(
+                        type
+                          ? {
+                              type,
+                              ...(type === "CUSTOM" && {
+                                custom_days:
+                                  data.payment_terms?.custom_days ?? 30,
+                              }),
+                            }
+                          : undefined
+                      );
+                    }}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                  >
+                    <option value="">None</option>
+                    {Object.entries(PAYMENT_TERMS_LABELS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  {data.payment_terms?.type === "CUSTOM" && (
+                    <div className="relative w-40 flex-shrink-0">
+                      <input
+                        type="number"
+                        min="0"
+                        max="365"
+                        value={data.payment_terms.custom_days ?? 0}
+                        onChange={(e) =>
+                          handlePaymentTermsChange({
+                            type: "CUSTOM",
+                            custom_days: Math.min(
+                              365,
+                              Math.max(0, parseInt(e.target.value) || 0)
+                            ),
+                          })
+                        }
+                        className="w-full px-4 py-3 pr-14 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                      />
+                      <span className="absolute right-4 top-1/2 transform -translate-y-1/2 text-sm text-primary-500 pointer-events-none">
+                        days
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Quantity Decimals
+              </label>
+              <select
+                value={quantityPrecision}
+                onChange={(e) =>
+                  handleQuantityPrecisionChange(parseInt(e.target.value))
+                }
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+              >
+                {QUANTITY_PRECISION_OPTIONS.map((precision) => (
+                  <option key={precision} value={precision}>
+                    {precision === 0
+                      ? "Whole numbers"
+                      : `${precision} (${(0).toFixed(precision)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         )}
       </div>
@@ -606,7 +950,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
           }
           onClick={() => toggleSection("invoiceItems")}
         >
-          <span>Invoice Items</span>
+          <span>{documentLabel} Items</span>
           {expandedSections.invoiceItems ? (
             <ChevronUp className="h-5 w-5 text-gray-400" />
           ) : (
@@ -626,36 +970,86 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                       <label className="block text-sm font-semibold text-primary-700 mb-3">
                         Description <span className="text-red-400">*</span>
                       </label>
-                      <input
-                        type="text"
-                        value={item.description}
-                        onChange={(e) =>
-                          handleItemChange(index, "description", e.target.value)
-                        }
-                        className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
-                        placeholder="Item description"
-                        required
-                      />
+                      <div className="relative">
+                        <input
+                          type="text"
+                          value={item.description}
+                          onChange={(e) => {
+                            handleItemChange(
+                              index,
+                              "description",
+                              e.target.value
+                            );
+                            setSuggestionIndex(index);
+                          }}
+                          onFocus={() => setSuggestionIndex(index)}
+                          onBlur={() => setSuggestionIndex(null)}
+                          className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                          placeholder="Item description"
+                          autoComplete="off"
+                          required
+                        />
+                        {suggestionIndex === index &&
+                          catalogItems.length > 0 && (
+                            <ul className="absolute z-50 w-full mt-2 bg-white/95 backdrop-blur-sm border border-primary-200 rounded-2xl shadow-xl max-h-60 overflow-y-auto">
+                              {catalogItems.map((catalogItem) => (
+                                <li
+                                  key={catalogItem.id}
+                                  // mousedown fires before the input blurs
+                                  onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    applyCatalogItem(index, catalogItem);
+                                  }}
+                                  className="cursor-pointer select-none py-3 px-4 hover:bg-sky-50/80 transition-colors border-b border-primary-100/50 last:border-b-0 first:rounded-t-2xl last:rounded-b-2xl text-primary-700 flex items-center justify-between"
+                                >
+                                  <span className="truncate">
+                                    {catalogItem.name}
+                                  </span>
+                                  <span className="ml-4 text-sm text-primary-500">
+                                    {formatMoney(
+                                      catalogItem.unit_price,
+                                      data.currency
+                                    )}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                      </div>
                     </div>
                     <div>
                       <label className="block text-sm font-semibold text-primary-700 mb-3">
                         Quantity <span className="text-red-400">*</span>
                       </label>
-                      <input
-                        type="number"
-                        min="1"
-                        step="1"
-                        value={item.quantity}
-                        onChange={(e) =>
-                          handleItemChange(
-                            index,
-                            "quantity",
-                            parseFloat(e.target.value) || 0
-                          )
-                        }
-                        className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
-                        required
-                      />
+                      <div className="flex gap-3">
+                        <input
+                          type="number"
+                          min={quantityStep}
+                          step={quantityStep}
+                          value={item.quantity}
+                          onChange={(e) =>
+                            handleItemChange(
+                              index,
+                              "quantity",
+                              roundQuantity(
+                                parseFloat(e.target.value) || 0,
+                                quantityPrecision
+                              )
+                            )
+                          }
+                          className="flex-1 min-w-0 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                          required
+                        />
+                        <input
+                          type="text"
+                          value={item.unit || ""}
+                          onChange={(e) =>
+                            handleItemChange(index, "unit", e.target.value)
+                          }
+                          className="w-28 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                          placeholder="Unit"
+                        />
+                      </div>
                     </div>
                     <div>
                       <label className="block text-sm font-semibold text-primary-700 mb-3">
@@ -677,13 +1071,85 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                         required
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-primary-700 mb-3">
+                        Discount
+                      </label>
+                      <div className="flex gap-3">
+                        <select
+                          value={item.discount_type || ""}
+                          onChange={(e) =>
+                            handleItemDiscountChange(
+                              index,
+                              (e.target.value as DiscountType) || undefined,
+                              item.discount_value || 0
+                            )
+                          }
+                          className="w-32 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                        >
+                          <option value="">None</option>
+                          {(
+                            Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]
+                          ).map((type) => (
+                            <option key={type} value={type}>
+                              {DISCOUNT_TYPE_LABELS[type]}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.discount_value ?? ""}
+                          disabled={!item.discount_type}
+                          onChange={(e) =>
+                            handleItemDiscountChange(
+                              index,
+                              item.discount_type,
+                              parseFloat(e.target.value) || 0
+                            )
+                          }
+                          className="flex-1 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm disabled:opacity-50"
+                          placeholder="0.00"
+                        />
+                      </div>
+                    </div>
+                    {taxRates.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-semibold text-primary-700 mb-3">
+                          Taxes
+                        </label>
+                        <div className="flex flex-wrap gap-2">
+                          {taxRates.map((taxRate) => {
+                            const isSelected = (item.taxes || []).some(
+                              (tax) => tax.tax_rate_id === taxRate.id
+                            );
+                            return (
+                              <button
+                                key={taxRate.id}
+                                type="button"
+                                onClick={() => toggleItemTax(index, taxRate)}
+                                className={`px-4 py-2 text-xs font-semibold rounded-full border transition-all duration-200 ${
+                                  isSelected
+                                    ? "bg-sky-100 text-sky-800 border-sky-300"
+                                    : "bg-white/80 text-primary-600 border-primary-200 hover:bg-primary-50"
+                                }`}
+                              >
+                                {taxRate.name} ({taxRate.is_withholding && "-"}
+                                {taxRate.rate}%)
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
                     <div>
                       <label className="block text-sm font-semibold text-primary-700 mb-3">
                         Total
                       </label>
                       <input
                         type="text"
-                        value={`IDR ${item.total.toFixed(2)}`}
+                        value={formatMoney(item.total, data.currency)}
                         readOnly
                         className="w-full px-4 py-3 bg-gray-100/60 border border-primary-200 rounded-full text-primary-700 font-medium shadow-sm"
                       />
@@ -750,6 +1216,75 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                 className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
                 placeholder="0.00"
               />
+              {taxRates.length > 0 && (
+                <p className="mt-2 text-xs text-primary-500">
+                  Applies to every item, on top of any item taxes
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Tax Rounding
+              </label>
+              <select
+                value={data.tax_rounding || DEFAULT_TAX_ROUNDING}
+                onChange={(e) =>
+                  handleInputChange("tax_rounding", e.target.value)
+                }
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+              >
+                {(Object.keys(TAX_ROUNDING_LABELS) as TaxRounding[]).map(
+                  (rounding) => (
+                    <option key={rounding} value={rounding}>
+                      {TAX_ROUNDING_LABELS[rounding]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                {documentLabel} Discount
+              </label>
+              <div className="flex gap-3">
+                <select
+                  value={data.discount_type || ""}
+                  onChange={(e) =>
+                    handleDiscountChange(
+                      (e.target.value as DiscountType) || undefined,
+                      data.discount_value || 0
+                    )
+                  }
+                  className="w-32 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                >
+                  <option value="">None</option>
+                  {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map(
+                    (type) => (
+                      <option key={type} value={type}>
+                        {DISCOUNT_TYPE_LABELS[type]}
+                      </option>
+                    )
+                  )}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={data.discount_value ?? ""}
+                  disabled={!data.discount_type}
+                  onChange={(e) =>
+                    handleDiscountChange(
+                      data.discount_type,
+                      parseFloat(e.target.value) || 0
+                    )
+                  }
+                  className="flex-1 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm disabled:opacity-50"
+                  placeholder="0.00"
+                />
+              </div>
+              <p className="mt-2 text-xs text-primary-500">
+                Applied after line discounts and before tax
+              </p>
             </div>
             <div>
               <label className="block text-sm font-semibold text-primary-700 mb-3">
@@ -794,7 +1329,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
           }
           onClick={() => toggleSection("summary")}
         >
-          <span>Invoice Summary</span>
+          <span>{documentLabel} Summary</span>
           {expandedSections.summary ? (
             <ChevronUp className="h-5 w-5 text-gray-400" />
           ) : (
@@ -806,27 +1341,67 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
             <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
               <span className="text-gray-600 font-medium">Subtotal:</span>
               <span className="text-lg font-medium text-gray-900">
-                IDR {subtotal.toLocaleString()}
-              </span>
-            </div>
-            <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
-              <span className="text-gray-600 font-medium">
-                Tax ({data.tax_rate}%):
-              </span>
-              <span className="text-lg font-medium text-gray-900">
-                IDR {taxAmount.toLocaleString()}
+                {formatMoney(totals.subtotal, data.currency)}
               </span>
             </div>
+            {totals.lineDiscount > 0 && (
+              <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
+                <span className="text-gray-600 font-medium">
+                  Line Discounts:
+                </span>
+                <span className="text-lg font-medium text-gray-900">
+                  -{formatMoney(totals.lineDiscount, data.currency)}
+                </span>
+              </div>
+            )}
+            {totals.invoiceDiscount > 0 && (
+              <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
+                <span className="text-gray-600 font-medium">
+                  Discount
+                  {data.discount_type === "PERCENTAGE" &&
+                    ` (${data.discount_value}%)`}
+                  :
+                </span>
+                <span className="text-lg font-medium text-gray-900">
+                  -{formatMoney(totals.invoiceDiscount, data.currency)}
+                </span>
+              </div>
+            )}
+            {totals.taxes.length === 0 ? (
+              <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
+                <span className="text-gray-600 font-medium">
+                  Tax ({data.tax_rate}%):
+                </span>
+                <span className="text-lg font-medium text-gray-900">
+                  {formatMoney(0, data.currency)}
+                </span>
+              </div>
+            ) : (
+              totals.taxes.map((tax) => (
+                <div
+                  key={`${tax.name}-${tax.rate}-${tax.is_withholding}`}
+                  className="flex justify-between items-center py-3 border-b border-blue-200/50"
+                >
+                  <span className="text-gray-600 font-medium">
+                    {tax.name} ({tax.rate}%):
+                  </span>
+                  <span className="text-lg font-medium text-gray-900">
+                    {tax.amount < 0 && "-"}
+                    {formatMoney(Math.abs(tax.amount), data.currency)}
+                  </span>
+                </div>
+              ))
+            )}
             <div className="flex justify-between items-center py-3 border-b border-blue-200/50">
               <span className="text-gray-600 font-medium">Delivery Fee:</span>
               <span className="text-lg font-medium text-gray-900">
-                IDR {data.delivery_fee.toLocaleString()}
+                {formatMoney(data.delivery_fee, data.currency)}
               </span>
             </div>
             <div className="flex justify-between items-center py-4 bg-white rounded-2xl px-6">
               <span className="text-xl font-medium text-gray-900">Total:</span>
               <span className="text-2xl font-medium text-accent-600">
-                IDR {total.toLocaleString()}
+                {formatMoney(totals.total, data.currency)}
               </span>
             </div>
           </div>
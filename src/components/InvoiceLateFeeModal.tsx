@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { LateFeePolicy } from "../types/index.ts";
+import { lateFeePolicySchema } from "../utils/lateFees.ts";
+import LateFeeFields from "./LateFeeFields.tsx";
+
+interface InvoiceLateFeeModalProps {
+  override?: LateFeePolicy | null;
+  policy: LateFeePolicy;
+  currency?: string;
+  onClose: () => void;
+  // Null goes back to the account rule
+  onSubmit: (override: LateFeePolicy | null) => Promise<void>;
+}
+
+const InvoiceLateFeeModal: React.FC<InvoiceLateFeeModalProps> = ({
+  override,
+  policy,
+  currency,
+  onClose,
+  onSubmit,
+}) => {
+  const [useDefaults, setUseDefaults] = useState(!override);
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<LateFeePolicy>({
+    resolver: zodResolver(lateFeePolicySchema),
+    defaultValues: override ?? policy,
+  });
+
+  const onSubmitLateFee = async (data: LateFeePolicy) => {
+    await onSubmit(useDefaults ? null : data);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <h3 className="text-xl font-bold text-primary-900">
+            Invoice Late Fees
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit(onSubmitLateFee)}
+          className="px-8 pb-8 pt-6"
+        >
+          <div className="space-y-6">
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                checked={useDefaults}
+                onChange={(e) => setUseDefaults(e.target.checked)}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Use the late fee rule from settings
+            </label>
+
+            {!useDefaults && (
+              <>
+                <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+                  <input
+                    type="checkbox"
+                    {...register("enabled")}
+                    className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  Charge late fees on this invoice
+                </label>
+                <LateFeeFields
+                  register={register}
+                  errors={errors}
+                  type={watch("type")}
+                  currency={currency}
+                />
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isSubmitting ? "Saving..." : "Save Late Fees"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceLateFeeModal;
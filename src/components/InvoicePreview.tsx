@@ -1,57 +1,188 @@
 import React from "react";
 import { useAuth } from "../context/AuthContext.tsx";
-import type { InvoiceFormData } from "../types/index.ts";
-import { formatDate } from "../utils/helper.ts";
+import type {
+  DocumentType,
+  InvoiceBranding,
+  InvoiceFormData,
+  User,
+} from "../types/index.ts";
+import { formatDate, formatItemRate } from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+import { BRAND_FONTS, tintColor } from "../utils/branding.ts";
+import { getPaymentQr } from "../utils/paymentQr.ts";
+import { describePaymentTerms } from "../utils/paymentTerms.ts";
+import PaymentQrCode from "./PaymentQrCode.tsx";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  sumMoney,
+} from "../utils/calculation.ts";
 
 interface InvoicePreviewProps {
   data: InvoiceFormData;
   className?: string;
+  // Sum of payments recorded against the invoice, shown with the balance due
+  amountPaid?: number;
+  // Sum of credit notes issued against the invoice, as a positive amount
+  amountCredited?: number;
+  // Late fees charged since the due date, added to the balance due
+  lateFee?: number;
+  documentType?: DocumentType;
+  // Number of the invoice a credit note corrects
+  referenceNumber?: string;
+  // Overrides the signed-in user's branding, e.g. while editing it
+  branding?: InvoiceBranding;
+  // Overrides the signed-in user as sender, e.g. on a client's share link
+  sender?: User | null;
 }
 
-const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
-  const { user } = useAuth();
+const DOCUMENT_TITLES: Record<DocumentType, string> = {
+  invoice: "INVOICE",
+  quote: "QUOTE",
+  credit_note: "CREDIT NOTE",
+};
+
+const InvoicePreview: React.FC<InvoicePreviewProps> = ({
+  data,
+  className,
+  amountPaid = 0,
+  amountCredited = 0,
+  lateFee = 0,
+  documentType = "invoice",
+  referenceNumber,
+  branding: brandingOverride,
+  sender,
+}) => {
+  const { user: authUser, branding: userBranding } = useAuth();
+  const user = sender !== undefined ? sender : authUser;
+  const branding = brandingOverride || userBranding;
+  const isModern = branding.layout === "modern";
+  const isCompact = branding.layout === "compact";
+  const showBankDetails =
+    branding.show_bank_details && !!(user?.bank_name || data.sender_bank_name);
+  const headerCellStyle = {
+    backgroundColor: tintColor(branding.accent_color, 0.9),
+    borderColor: branding.accent_color,
+  };
 
-  const total = data.items.reduce(
-    (sum: number, item) => sum + item.quantity * item.unit_price,
-    0
+  const {
+    subtotal,
+    lineDiscount,
+    invoiceDiscount,
+    taxes,
+    total: finalTotal,
+  } = calculateInvoiceTotals(data);
+  const balanceDue = sumMoney(
+    [finalTotal, lateFee, -amountCredited, -amountPaid],
+    data.currency
   );
-  const subtotal = total;
-  const taxAmount = total * (data.tax_rate / 100);
-  const finalTotal = subtotal + taxAmount + data.delivery_fee;
+  const paymentQr =
+    branding.show_bank_details && documentType === "invoice"
+      ? getPaymentQr({
+          currency: data.currency,
+          amount: balanceDue,
+          reference: data.invoice_number || "",
+          bankName: user?.bank_name || data.sender_bank_name,
+          accountName:
+            user?.bank_account_name || data.sender_bank_account_name,
+          accountNumber:
+            user?.bank_account_number || data.sender_bank_account_number,
+          bic: user?.bank_bic,
+          qrisPayload: user?.qris_payload,
+        })
+      : null;
 
   return (
-    <div className={`bg-white p-8 ${className || ""}`}>
+    <div
+      className={`bg-white ${isCompact ? "p-6" : "p-8"} ${className || ""}`}
+      style={{ fontFamily: BRAND_FONTS[branding.font].css }}
+    >
       {/* Header */}
-      <div className="mb-12">
+      <div
+        className={
+          isModern ? "-mx-8 -mt-8 mb-12 px-8 py-8" : isCompact ? "mb-6" : "mb-12"
+        }
+        style={
+          isModern ? { backgroundColor: branding.primary_color } : undefined
+        }
+      >
         <div className="flex justify-between items-start">
           <div>
-            <h1 className="text-4xl font-bold text-gray-900 mb-2">INVOICE</h1>
+            {branding.logo && (
+              <img
+                src={branding.logo}
+                alt="Logo"
+                className={`${isCompact ? "h-10" : "h-14"} mb-4 object-contain`}
+              />
+            )}
+            <h1
+              className={`${
+                isCompact ? "text-2xl" : "text-4xl"
+              } font-bold mb-2`}
+              style={{ color: isModern ? "#ffffff" : branding.primary_color }}
+            >
+              {DOCUMENT_TITLES[documentType]}
+            </h1>
             {data.invoice_number && (
-              <div className="text-sm text-gray-500">{data.invoice_number}</div>
+              <div
+                className={`text-sm ${
+                  isModern ? "text-white/80" : "text-gray-500"
+                }`}
+              >
+                {data.invoice_number}
+              </div>
             )}
           </div>
-          <div className="text-right text-sm text-gray-600">
+          <div
+            className={`text-right text-sm ${
+              isModern ? "text-white/90" : "text-gray-600"
+            }`}
+          >
             <div className="mb-1">
               Issue Date:{" "}
               {data.issue_date
                 ? formatDate(data.issue_date)
                 : ""}
             </div>
-            <div className="mb-3">
-              Due Date:{" "}
-              {data.due_date
-                ? formatDate(data.due_date)
-                : ""}
-            </div>
+            {documentType === "credit_note" ? (
+              <div className="mb-3">Original Invoice: {referenceNumber}</div>
+            ) : (
+              <div
+                className={
+                  documentType === "invoice" && data.payment_terms
+                    ? "mb-1"
+                    : "mb-3"
+                }
+              >
+                {documentType === "quote" ? "Valid Until" : "Due Date"}:{" "}
+                {data.due_date
+                  ? formatDate(data.due_date)
+                  : ""}
+              </div>
+            )}
+            {documentType === "invoice" && data.payment_terms && (
+              <div className="mb-3">
+                Payment Terms: {describePaymentTerms(data.payment_terms)}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Company and Client Info */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-12 mb-12">
+      <div
+        className={`grid grid-cols-1 sm:grid-cols-2 ${
+          isCompact ? "gap-6 mb-6" : "gap-12 mb-12"
+        }`}
+      >
         {/* From Section */}
         <div>
-          <h3 className="text-sm font-semibold text-gray-600 mb-4 uppercase tracking-wide">
+          <h3
+            className={`text-sm font-semibold ${
+              isCompact ? "mb-2" : "mb-4"
+            } uppercase tracking-wide`}
+            style={{ color: branding.accent_color }}
+          >
             FROM
           </h3>
           <div className="text-sm text-gray-800 space-y-1">
@@ -79,7 +210,12 @@ const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
 
         {/* To Section */}
         <div>
-          <h3 className="text-sm font-semibold text-gray-600 mb-4 uppercase tracking-wide">
+          <h3
+            className={`text-sm font-semibold ${
+              isCompact ? "mb-2" : "mb-4"
+            } uppercase tracking-wide`}
+            style={{ color: branding.accent_color }}
+          >
             TO
           </h3>
           <div className="text-sm text-gray-800 space-y-1">
@@ -106,16 +242,22 @@ const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
         <table className="w-full">
           <thead>
             <tr>
-              <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b-2 border-gray-200">
+              <th
+                className="py-3 px-2 text-left font-semibold text-sm border-b-2"
+                style={headerCellStyle}
+              >
                 Description
               </th>
-              <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b-2 border-gray-200">
-                Quantity
-              </th>
-              <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b-2 border-gray-200">
-                Unit Price
+              <th
+                className="py-3 px-2 text-left font-semibold text-sm border-b-2"
+                style={headerCellStyle}
+              >
+                Quantity × Price
               </th>
-              <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b-2 border-gray-200">
+              <th
+                className="py-3 px-2 text-left font-semibold text-sm border-b-2"
+                style={headerCellStyle}
+              >
                 Total
               </th>
             </tr>
@@ -123,17 +265,28 @@ const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
           <tbody>
             {data.items.map((item, index: number) => (
               <tr key={index} className="border-b border-gray-100">
-                <td className="py-4 text-sm text-gray-800">
+                <td
+                  className={`${isCompact ? "py-2" : "py-4"} text-sm text-gray-800`}
+                >
                   {item.description}
+                  {item.discount_type && item.discount_value ? (
+                    <div className="text-xs text-gray-500">
+                      Discount{" "}
+                      {item.discount_type === "PERCENTAGE"
+                        ? `${item.discount_value}%`
+                        : formatMoney(item.discount_value, data.currency)}
+                    </div>
+                  ) : null}
                 </td>
-                <td className="py-4 text-sm text-gray-800">
-                  {item.quantity}
-                </td>
-                <td className="py-4 text-sm text-gray-800">
-                  IDR {item.unit_price.toLocaleString()}
+                <td
+                  className={`${isCompact ? "py-2" : "py-4"} text-sm text-gray-800`}
+                >
+                  {formatItemRate(item, data.currency, data.quantity_precision)}
                 </td>
-                <td className="py-4 text-sm text-gray-800">
-                  IDR {(item.quantity * item.unit_price).toLocaleString()}
+                <td
+                  className={`${isCompact ? "py-2" : "py-4"} text-sm text-gray-800`}
+                >
+                  {formatMoney(calculateLineTotal(item, data.currency), data.currency)}
                 </td>
               </tr>
             ))}
@@ -147,45 +300,111 @@ const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
           <div className="flex justify-between py-2">
             <span className="text-sm text-gray-600">Subtotal:</span>
             <span className="text-sm text-gray-800">
-              IDR {subtotal.toLocaleString()}
+              {formatMoney(subtotal, data.currency)}
             </span>
           </div>
-          {data.tax_rate > 0 && (
+          {lineDiscount > 0 && (
+            <div className="flex justify-between py-2">
+              <span className="text-sm text-gray-600">Line Discounts:</span>
+              <span className="text-sm text-gray-800">
+                -{formatMoney(lineDiscount, data.currency)}
+              </span>
+            </div>
+          )}
+          {invoiceDiscount > 0 && (
             <div className="flex justify-between py-2">
               <span className="text-sm text-gray-600">
-                Tax ({data.tax_rate}%):
+                Discount
+                {data.discount_type === "PERCENTAGE" &&
+                  ` (${data.discount_value}%)`}
+                :
               </span>
               <span className="text-sm text-gray-800">
-                IDR {taxAmount.toLocaleString()}
+                -{formatMoney(invoiceDiscount, data.currency)}
               </span>
             </div>
           )}
+          {taxes.map((tax) => (
+            <div
+              key={`${tax.name}-${tax.rate}-${tax.is_withholding}`}
+              className="flex justify-between py-2"
+            >
+              <span className="text-sm text-gray-600">
+                {tax.name} ({tax.rate}%):
+              </span>
+              <span className="text-sm text-gray-800">
+                {tax.amount < 0 && "-"}
+                {formatMoney(Math.abs(tax.amount), data.currency)}
+              </span>
+            </div>
+          ))}
           {data.delivery_fee > 0 && (
             <div className="flex justify-between py-2">
               <span className="text-sm text-gray-600">
                 Delivery Fee:
               </span>
               <span className="text-sm text-gray-800">
-                IDR {data.delivery_fee.toLocaleString()}
+                {formatMoney(data.delivery_fee, data.currency)}
               </span>
             </div>
           )}
           <div className="flex justify-between py-3 border-t border-gray-300">
             <span className="text-base font-semibold text-gray-900">
-              Total:
+              {documentType === "credit_note" ? "Total Credit:" : "Total:"}
             </span>
-            <span className="text-base font-bold text-gray-900">
-              IDR {finalTotal.toLocaleString()}
+            <span
+              className="text-base font-bold"
+              style={{ color: branding.primary_color }}
+            >
+              {formatMoney(finalTotal, data.currency)}
             </span>
           </div>
+          {(amountPaid > 0 || amountCredited > 0 || lateFee > 0) && (
+            <>
+              {lateFee > 0 && (
+                <div className="flex justify-between py-2">
+                  <span className="text-sm text-gray-600">Late Fee:</span>
+                  <span className="text-sm text-gray-800">
+                    {formatMoney(lateFee, data.currency)}
+                  </span>
+                </div>
+              )}
+              {amountCredited > 0 && (
+                <div className="flex justify-between py-2">
+                  <span className="text-sm text-gray-600">Credit Notes:</span>
+                  <span className="text-sm text-gray-800">
+                    -{formatMoney(amountCredited, data.currency)}
+                  </span>
+                </div>
+              )}
+              {amountPaid > 0 && (
+                <div className="flex justify-between py-2">
+                  <span className="text-sm text-gray-600">Amount Paid:</span>
+                  <span className="text-sm text-gray-800">
+                    -{formatMoney(amountPaid, data.currency)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between py-3 border-t border-gray-300">
+                <span className="text-base font-semibold text-gray-900">
+                  Balance Due:
+                </span>
+                <span className="text-base font-bold text-gray-900">
+                  {formatMoney(balanceDue, data.currency)}
+                </span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
       {/* Terms and Notes */}
       <div className="mb-8 space-y-4">
-        {data.notes && (
+        {branding.show_notes && data.notes && (
           <div>
-            <span className="text-sm font-medium text-gray-700">Terms: </span>
+            <span className="text-sm font-medium text-gray-700">
+              {documentType === "credit_note" ? "Reason: " : "Terms: "}
+            </span>
             <span className="text-sm text-gray-700">{data.notes}</span>
           </div>
         )}
@@ -195,36 +414,56 @@ const InvoicePreview: React.FC<InvoicePreviewProps> = ({ data, className }) => {
       </div>
 
       {/* Bank Account Details */}
-      {(user?.bank_name || data.sender_bank_name) && (
-        <div className="bg-gray-100 p-6 rounded">
-          <h3 className="text-sm font-semibold text-gray-600 mb-4 uppercase tracking-wide">
-            BANK ACCOUNT DETAILS
-          </h3>
-          <div className="text-sm text-gray-700 space-y-2">
-            {(user?.bank_name || data.sender_bank_name) && (
-              <div>
-                <span className="font-medium">Bank Name:</span>
-                <span className="ml-8">
-                  {user?.bank_name || data.sender_bank_name}
-                </span>
-              </div>
-            )}
-            {(user?.bank_account_name || data.sender_bank_account_name) && (
-              <div>
-                <span className="font-medium">Account Name:</span>
-                <span className="ml-4">
-                  {user?.bank_account_name || data.sender_bank_account_name}
-                </span>
+      {(showBankDetails || paymentQr) && (
+        <div className="bg-gray-100 p-6 rounded flex items-start justify-between gap-6">
+          {showBankDetails && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-600 mb-4 uppercase tracking-wide">
+                BANK ACCOUNT DETAILS
+              </h3>
+              <div className="text-sm text-gray-700 space-y-2">
+                {(user?.bank_name || data.sender_bank_name) && (
+                  <div>
+                    <span className="font-medium">Bank Name:</span>
+                    <span className="ml-8">
+                      {user?.bank_name || data.sender_bank_name}
+                    </span>
+                  </div>
+                )}
+                {(user?.bank_account_name || data.sender_bank_account_name) && (
+                  <div>
+                    <span className="font-medium">Account Name:</span>
+                    <span className="ml-4">
+                      {user?.bank_account_name || data.sender_bank_account_name}
+                    </span>
+                  </div>
+                )}
+                {(user?.bank_account_number || data.sender_bank_account_number) && (
+                  <div>
+                    <span className="font-medium">Account Number:</span>
+                    <span className="ml-2">
+                      {user?.bank_account_number || data.sender_bank_account_number}
+                    </span>
+                  </div>
+                )}
               </div>
-            )}
-            {(user?.bank_account_number || data.sender_bank_account_number) && (
-              <div>
-                <span className="font-medium">Account Number:</span>
-                <span className="ml-2">
-                  {user?.bank_account_number || data.sender_bank_account_number}
-                </span>
-              </div>
-            )}
+            </div>
+          )}
+          {paymentQr && (
+            <div className="ml-auto">
+              <PaymentQrCode qr={paymentQr} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Signature */}
+      {branding.show_signature && (
+        <div className="flex justify-end mt-12">
+          <div className="w-56 text-center">
+            <div className="border-t border-gray-400 pt-2 text-sm text-gray-700">
+              {branding.signature_name || user?.name || data.sender_name}
+            </div>
           </div>
         </div>
       )}
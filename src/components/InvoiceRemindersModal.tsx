@@ -0,0 +1,139 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type {
+  InvoiceReminderOverride,
+  ReminderPolicy,
+} from "../types/index.ts";
+import { reminderRulesSchema } from "../utils/reminders.ts";
+import ReminderRulesEditor from "./ReminderRulesEditor.tsx";
+
+const invoiceRemindersSchema = z.object({
+  use_defaults: z.boolean(),
+  enabled: z.boolean(),
+  rules: reminderRulesSchema,
+});
+
+type InvoiceRemindersValues = z.infer<typeof invoiceRemindersSchema>;
+
+interface InvoiceRemindersModalProps {
+  override?: InvoiceReminderOverride | null;
+  policy: ReminderPolicy;
+  onClose: () => void;
+  // Null goes back to the account rules
+  onSubmit: (override: InvoiceReminderOverride | null) => Promise<void>;
+}
+
+const InvoiceRemindersModal: React.FC<InvoiceRemindersModalProps> = ({
+  override,
+  policy,
+  onClose,
+  onSubmit,
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<InvoiceRemindersValues>({
+    resolver: zodResolver(invoiceRemindersSchema),
+    defaultValues: {
+      use_defaults: !override,
+      enabled: override?.enabled ?? policy.enabled,
+      rules: override?.rules ?? policy.rules,
+    },
+  });
+
+  const useDefaults = watch("use_defaults");
+
+  const onSubmitReminders = async (data: InvoiceRemindersValues) => {
+    await onSubmit(
+      data.use_defaults ? null : { enabled: data.enabled, rules: data.rules }
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <h3 className="text-xl font-bold text-primary-900">
+            Invoice Reminders
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit(onSubmitReminders)}
+          className="px-8 pb-8 pt-6"
+        >
+          <div className="space-y-6">
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...register("use_defaults")}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Use the reminder rules from settings
+            </label>
+
+            {!useDefaults && (
+              <>
+                <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+                  <input
+                    type="checkbox"
+                    {...register("enabled")}
+                    className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  Send reminders for this invoice
+                </label>
+                <Controller
+                  name="rules"
+                  control={control}
+                  render={({ field }) => (
+                    <ReminderRulesEditor
+                      rules={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+                {errors.rules && (
+                  <p className="text-sm text-red-600 font-medium">
+                    {errors.rules.message ||
+                      "Each rule needs between 1 and 365 days"}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isSubmitting ? "Saving..." : "Save Reminders"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceRemindersModal;
@@ -0,0 +1,97 @@
+import React, { Fragment } from "react";
+import { ChevronDown } from "lucide-react";
+import { Listbox, Transition } from "@headlessui/react";
+import type { InvoiceStatus } from "../types/index.ts";
+import { INVOICE_STATUS_LABELS } from "../utils/helper.ts";
+
+interface InvoiceStatusSelectProps {
+  value: InvoiceStatus;
+  onChange: (status: InvoiceStatus) => void;
+  disabled?: boolean;
+}
+
+const buttonStyles: Record<InvoiceStatus, string> = {
+  DRAFT:
+    "bg-primary-100 text-primary-800 border-primary-200 hover:bg-primary-200",
+  SENT: "bg-sky-100 text-sky-800 border-sky-200 hover:bg-sky-200",
+  PARTIALLY_PAID:
+    "bg-amber-100 text-amber-800 border-amber-200 hover:bg-amber-200",
+  PAID: "bg-emerald-100 text-emerald-800 border-emerald-200 hover:bg-emerald-200",
+};
+
+const optionStyles: Record<
+  InvoiceStatus,
+  { active: string; selected: string; idle: string }
+> = {
+  DRAFT: {
+    active: "bg-primary-50/80",
+    selected: "bg-primary-100/60 text-primary-800",
+    idle: "text-primary-700",
+  },
+  SENT: {
+    active: "bg-sky-50/80",
+    selected: "bg-sky-100/60 text-sky-800",
+    idle: "text-sky-700",
+  },
+  PARTIALLY_PAID: {
+    active: "bg-amber-50/80",
+    selected: "bg-amber-100/60 text-amber-800",
+    idle: "text-amber-700",
+  },
+  PAID: {
+    active: "bg-emerald-50/80",
+    selected: "bg-emerald-100/60 text-emerald-800",
+    idle: "text-emerald-700",
+  },
+};
+
+const InvoiceStatusSelect: React.FC<InvoiceStatusSelectProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  return (
+    <Listbox value={value} onChange={onChange} disabled={disabled}>
+      <div className="relative">
+        <Listbox.Button
+          className={`inline-flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-full border cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed min-w-20 justify-between ${buttonStyles[value]}`}
+          disabled={disabled}
+        >
+          <span>{INVOICE_STATUS_LABELS[value]}</span>
+          <ChevronDown className="h-3 w-3 text-current transition-transform duration-200 ui-open:rotate-180" />
+        </Listbox.Button>
+
+        <Transition
+          as={Fragment}
+          leave="transition ease-in duration-100"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <Listbox.Options className="absolute z-[9999] w-32 mt-1 bg-white/95 backdrop-blur-sm border border-primary-200 rounded-xl shadow-2xl overflow-hidden right-0">
+            {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(
+              (status) => (
+                <Listbox.Option
+                  key={status}
+                  value={status}
+                  className={({ active, selected }) =>
+                    `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold first:rounded-t-xl last:rounded-b-xl ${
+                      active ? optionStyles[status].active : ""
+                    } ${
+                      selected
+                        ? optionStyles[status].selected
+                        : optionStyles[status].idle
+                    }`
+                  }
+                >
+                  {INVOICE_STATUS_LABELS[status]}
+                </Listbox.Option>
+              )
+            )}
+          </Listbox.Options>
+        </Transition>
+      </div>
+    </Listbox>
+  );
+};
+
+export default InvoiceStatusSelect;
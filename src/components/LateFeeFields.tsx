@@ -0,0 +1,119 @@
+import React from "react";
+import type { FieldErrors, UseFormRegister } from "react-hook-form";
+import type { LateFeePolicy, LateFeeType } from "../types/index.ts";
+import {
+  LATE_FEE_FREQUENCY_LABELS,
+  LATE_FEE_TYPE_LABELS,
+} from "../utils/lateFees.ts";
+
+interface LateFeeFieldsProps {
+  register: UseFormRegister<LateFeePolicy>;
+  errors: FieldErrors<LateFeePolicy>;
+  // Watched fee type, which decides the amount's unit
+  type: LateFeeType;
+  currency?: string;
+  disabled?: boolean;
+}
+
+const LateFeeFields: React.FC<LateFeeFieldsProps> = ({
+  register,
+  errors,
+  type,
+  currency,
+  disabled,
+}) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label
+          htmlFor="late_fee_type"
+          className="block text-sm font-semibold text-primary-700 mb-3"
+        >
+          Fee Type
+        </label>
+        <select
+          id="late_fee_type"
+          {...register("type")}
+          disabled={disabled}
+          className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+        >
+          {Object.entries(LATE_FEE_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label
+          htmlFor="late_fee_value"
+          className="block text-sm font-semibold text-primary-700 mb-3"
+        >
+          {type === "PERCENTAGE"
+            ? "Percentage (%)"
+            : `Amount${currency ? ` (${currency})` : ""}`}
+        </label>
+        <input
+          id="late_fee_value"
+          type="number"
+          min="0"
+          step="any"
+          {...register("value", { valueAsNumber: true })}
+          disabled={disabled}
+          className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+        />
+        {errors.value && (
+          <p className="mt-2 text-sm text-red-600 font-medium">
+            {errors.value.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="late_fee_grace_days"
+          className="block text-sm font-semibold text-primary-700 mb-3"
+        >
+          Grace Period (days)
+        </label>
+        <input
+          id="late_fee_grace_days"
+          type="number"
+          min="0"
+          {...register("grace_days", { valueAsNumber: true })}
+          disabled={disabled}
+          className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+        />
+        {errors.grace_days && (
+          <p className="mt-2 text-sm text-red-600 font-medium">
+            {errors.grace_days.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="late_fee_frequency"
+          className="block text-sm font-semibold text-primary-700 mb-3"
+        >
+          Charge
+        </label>
+        <select
+          id="late_fee_frequency"
+          {...register("frequency")}
+          disabled={disabled}
+          className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+        >
+          {Object.entries(LATE_FEE_FREQUENCY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default LateFeeFields;
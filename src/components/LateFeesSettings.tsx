@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import {
+  DEFAULT_LATE_FEE_POLICY,
+  describeLateFeeRule,
+  lateFeePolicySchema,
+} from "../utils/lateFees.ts";
+import type { LateFeePolicy } from "../types/index.ts";
+import LateFeeFields from "./LateFeeFields.tsx";
+
+const LateFeesSettings: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+
+  const lateFeeForm = useForm<LateFeePolicy>({
+    resolver: zodResolver(lateFeePolicySchema),
+    defaultValues: DEFAULT_LATE_FEE_POLICY,
+  });
+  const { reset } = lateFeeForm;
+
+  useEffect(() => {
+    const loadLateFees = async () => {
+      try {
+        reset(await apiService.getLateFeeSettings());
+      } catch {
+        toast.error("Failed to load late fee settings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLateFees();
+  }, [reset]);
+
+  const onSubmitLateFees = async (data: LateFeePolicy) => {
+    try {
+      reset(await apiService.updateLateFeeSettings(data));
+      toast.success("Late fee settings updated successfully");
+    } catch {
+      toast.error("Failed to update late fee settings");
+    }
+  };
+
+  const preview = lateFeeForm.watch();
+  const errors = lateFeeForm.formState.errors;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30">
+        <h3 className="text-xl font-bold text-primary-900">Late Fees</h3>
+        <p className="text-sm text-primary-600 mt-2">
+          Charged automatically on overdue invoices and added to the balance
+          due. Each invoice can override this rule.
+        </p>
+      </div>
+      <form
+        onSubmit={lateFeeForm.handleSubmit(onSubmitLateFees)}
+        className="p-8 space-y-8"
+      >
+        <label className="inline-flex items-center gap-3 text-sm font-semibold text-primary-700">
+          <input
+            type="checkbox"
+            {...lateFeeForm.register("enabled")}
+            disabled={loading}
+            className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+          />
+          Charge late fees on overdue invoices
+        </label>
+
+        <LateFeeFields
+          register={lateFeeForm.register}
+          errors={errors}
+          type={preview.type}
+          disabled={loading}
+        />
+
+        {preview.enabled && preview.value > 0 && (
+          <p className="text-sm text-primary-600">
+            {describeLateFeeRule(preview)}
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={loading || lateFeeForm.formState.isSubmitting}
+            className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+          >
+            {lateFeeForm.formState.isSubmitting ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LateFeesSettings;
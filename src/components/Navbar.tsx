@@ -44,12 +44,30 @@ const Navbar: React.FC = () => {
                 >
                   Invoices
                 </Link>
+                <Link
+                  to="/quotes"
+                  className="px-4 py-2.5 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                >
+                  Quotes
+                </Link>
+                <Link
+                  to="/recurring"
+                  className="px-4 py-2.5 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                >
+                  Recurring
+                </Link>
                 <Link
                   to="/clients"
                   className="px-4 py-2.5 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
                 >
                   Clients
                 </Link>
+                <Link
+                  to="/items"
+                  className="px-4 py-2.5 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                >
+                  Items
+                </Link>
                 <Link
                   to="/settings"
                   className="px-4 py-2.5 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
@@ -123,6 +141,20 @@ const Navbar: React.FC = () => {
                   >
                     Invoices
                   </Link>
+                  <Link
+                    to="/quotes"
+                    className="block px-3 py-2 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    Quotes
+                  </Link>
+                  <Link
+                    to="/recurring"
+                    className="block px-3 py-2 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    Recurring
+                  </Link>
                   <Link
                     to="/clients"
                     className="block px-3 py-2 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
@@ -130,6 +162,13 @@ const Navbar: React.FC = () => {
                   >
                     Clients
                   </Link>
+                  <Link
+                    to="/items"
+                    className="block px-3 py-2 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    Items
+                  </Link>
                   <Link
                     to="/settings"
                     className="block px-3 py-2 text-sm font-medium text-primary-700 hover:text-primary-900 hover:bg-primary-100 rounded-full transition-all"
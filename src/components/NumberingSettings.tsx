@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from "react";
+import { Hash } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import {
+  DEFAULT_NUMBERING_SCHEMES,
+  formatDocumentNumber,
+  hasSequenceToken,
+  NUMBERING_TOKENS,
+} from "../utils/numbering.ts";
+import type { NumberedDocument } from "../types/index.ts";
+
+const numberingSchema = z.object({
+  prefix: z.string().max(10, "Prefix must be at most 10 characters"),
+  pattern: z
+    .string()
+    .min(1, "Pattern is required")
+    .refine(hasSequenceToken, "Pattern must include a {SEQ} token"),
+  reset_yearly: z.boolean(),
+  next_sequence: z
+    .number("Next number is required")
+    .int("Next number must be a whole number")
+    .positive("Next number must be greater than zero"),
+});
+
+type NumberingFormData = z.infer<typeof numberingSchema>;
+
+const DOCUMENT_LABELS: Record<NumberedDocument, string> = {
+  invoice: "invoice",
+  quote: "quote",
+  credit_note: "credit note",
+};
+
+const DOCUMENT_TITLES: Record<NumberedDocument, string> = {
+  invoice: "Invoice Numbering",
+  quote: "Quote Numbering",
+  credit_note: "Credit Note Numbering",
+};
+
+interface NumberingSettingsProps {
+  document?: NumberedDocument;
+}
+
+const NumberingSettings: React.FC<NumberingSettingsProps> = ({
+  document = "invoice",
+}) => {
+  const [loading, setLoading] = useState(true);
+  const label = DOCUMENT_LABELS[document];
+
+  const numberingForm = useForm<NumberingFormData>({
+    resolver: zodResolver(numberingSchema),
+    defaultValues: DEFAULT_NUMBERING_SCHEMES[document],
+  });
+  const { reset } = numberingForm;
+
+  useEffect(() => {
+    const loadNumbering = async () => {
+      try {
+        reset(await apiService.getNumberingSettings(document));
+      } catch {
+        toast.error("Failed to load numbering settings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNumbering();
+  }, [document, reset]);
+
+  const onSubmitNumbering = async (data: NumberingFormData) => {
+    try {
+      reset(await apiService.updateNumberingSettings(data, document));
+      toast.success("Numbering settings updated successfully");
+    } catch {
+      toast.error("Failed to update numbering settings");
+    }
+  };
+
+  const preview = numberingForm.watch();
+  const errors = numberingForm.formState.errors;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30">
+        <h3 className="text-xl font-bold text-primary-900">
+          {DOCUMENT_TITLES[document]}
+        </h3>
+        <p className="text-sm text-primary-600 mt-2">
+          Choose how new {label} numbers are generated.
+        </p>
+      </div>
+      <form
+        onSubmit={numberingForm.handleSubmit(onSubmitNumbering)}
+        className="p-8"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div>
+            <label
+              htmlFor="prefix"
+              className="block text-sm font-semibold text-primary-700 mb-3"
+            >
+              Prefix
+            </label>
+            <input
+              type="text"
+              {...numberingForm.register("prefix")}
+              disabled={loading}
+              className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+              placeholder={DEFAULT_NUMBERING_SCHEMES[document].prefix}
+            />
+            {errors.prefix && (
+              <p className="mt-2 text-sm text-red-600 font-medium">
+                {errors.prefix.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="next_sequence"
+              className="block text-sm font-semibold text-primary-700 mb-3"
+            >
+              Next Number
+            </label>
+            <input
+              type="number"
+              min="1"
+              {...numberingForm.register("next_sequence", {
+                valueAsNumber: true,
+              })}
+              disabled={loading}
+              className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+            />
+            {errors.next_sequence && (
+              <p className="mt-2 text-sm text-red-600 font-medium">
+                {errors.next_sequence.message}
+              </p>
+            )}
+          </div>
+
+          <div className="md:col-span-2">
+            <label
+              htmlFor="pattern"
+              className="block text-sm font-semibold text-primary-700 mb-3"
+            >
+              Pattern
+            </label>
+            <input
+              type="text"
+              {...numberingForm.register("pattern")}
+              disabled={loading}
+              className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm font-mono"
+              placeholder="{PREFIX}-{YYYY}-{SEQ:4}"
+            />
+            {errors.pattern && (
+              <p className="mt-2 text-sm text-red-600 font-medium">
+                {errors.pattern.message}
+              </p>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              {NUMBERING_TOKENS.map(({ token, description }) => (
+                <span
+                  key={token}
+                  title={description}
+                  className="px-3 py-1 text-xs font-mono text-primary-700 bg-primary-100 border border-primary-200 rounded-full"
+                >
+                  {token}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="inline-flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...numberingForm.register("reset_yearly")}
+                disabled={loading}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Restart the sequence at 1 every January
+            </label>
+          </div>
+        </div>
+
+        <div className="bg-accent-50/60 border border-accent-200/60 rounded-2xl p-6 mt-8">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <Hash className="h-6 w-6 text-accent-500" />
+            </div>
+            <div className="ml-4">
+              <h3 className="text-sm font-bold text-accent-800">
+                Next {label} number
+              </h3>
+              <div className="mt-2 text-sm text-accent-700 font-mono">
+                {hasSequenceToken(preview.pattern || "")
+                  ? formatDocumentNumber({
+                      ...preview,
+                      next_sequence: preview.next_sequence || 1,
+                    })
+                  : "-"}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-8">
+          <button
+            type="submit"
+            disabled={loading || numberingForm.formState.isSubmitting}
+            className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+          >
+            {numberingForm.formState.isSubmitting ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default NumberingSettings;
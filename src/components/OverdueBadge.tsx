@@ -0,0 +1,20 @@
+import React from "react";
+import type { Invoice } from "../types/index.ts";
+import { getDaysOverdue } from "../utils/helper.ts";
+
+interface OverdueBadgeProps {
+  invoice: Pick<Invoice, "status" | "due_date">;
+}
+
+const OverdueBadge: React.FC<OverdueBadgeProps> = ({ invoice }) => {
+  const daysOverdue = getDaysOverdue(invoice);
+  if (daysOverdue === 0) return null;
+
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 text-xs font-bold rounded-full border bg-red-100 text-red-800 border-red-200">
+      {daysOverdue} {daysOverdue === 1 ? "day" : "days"} overdue
+    </span>
+  );
+};
+
+export default OverdueBadge;
@@ -0,0 +1,40 @@
+import React from "react";
+import type { PaymentQr } from "../utils/paymentQr.ts";
+import { getQrModules } from "../utils/paymentQr.ts";
+
+interface PaymentQrCodeProps {
+  qr: PaymentQr;
+  size?: number;
+}
+
+// Quiet zone around the symbol, in modules
+const MARGIN = 2;
+
+const PaymentQrCode: React.FC<PaymentQrCodeProps> = ({ qr, size = 120 }) => {
+  const modules = getQrModules(qr.payload);
+  const path = modules
+    .flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + MARGIN} ${y + MARGIN}h1v1h-1z` : ""))
+    )
+    .join("");
+  const viewBox = modules.length + MARGIN * 2;
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg
+        width={size}
+        height={size}
+        viewBox={`0 0 ${viewBox} ${viewBox}`}
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={qr.label}
+      >
+        <rect width={viewBox} height={viewBox} fill="#ffffff" />
+        <path d={path} fill="#000000" />
+      </svg>
+      <span className="mt-2 text-xs text-gray-600 text-center">{qr.label}</span>
+    </div>
+  );
+};
+
+export default PaymentQrCode;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import {
+  DEFAULT_PAYMENT_TERMS,
+  PAYMENT_TERMS_LABELS,
+  paymentTermsSchema,
+} from "../utils/paymentTerms.ts";
+
+type PaymentTermsFormData = z.infer<typeof paymentTermsSchema>;
+
+const PaymentTermsSettings: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+
+  const termsForm = useForm<PaymentTermsFormData>({
+    resolver: zodResolver(paymentTermsSchema),
+    defaultValues: DEFAULT_PAYMENT_TERMS,
+  });
+  const { reset } = termsForm;
+
+  useEffect(() => {
+    const loadPaymentTerms = async () => {
+      try {
+        reset(await apiService.getPaymentTermsSettings());
+      } catch {
+        toast.error("Failed to load payment terms");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPaymentTerms();
+  }, [reset]);
+
+  const onSubmitPaymentTerms = async (data: PaymentTermsFormData) => {
+    try {
+      reset(
+        await apiService.updatePaymentTermsSettings({
+          type: data.type,
+          ...(data.type === "CUSTOM" && { custom_days: data.custom_days }),
+        })
+      );
+      toast.success("Payment terms updated successfully");
+    } catch {
+      toast.error("Failed to update payment terms");
+    }
+  };
+
+  const termsType = termsForm.watch("type");
+  const errors = termsForm.formState.errors;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30">
+        <h3 className="text-xl font-bold text-primary-900">Payment Terms</h3>
+        <p className="text-sm text-primary-600 mt-2">
+          Used to set the due date of new invoices. Clients can have their own
+          terms.
+        </p>
+      </div>
+      <form
+        onSubmit={termsForm.handleSubmit(onSubmitPaymentTerms)}
+        className="p-8"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div>
+            <label
+              htmlFor="payment_terms_type"
+              className="block text-sm font-semibold text-primary-700 mb-3"
+            >
+              Default Terms
+            </label>
+            <select
+              id="payment_terms_type"
+              {...termsForm.register("type")}
+              disabled={loading}
+              className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+            >
+              {Object.entries(PAYMENT_TERMS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {termsType === "CUSTOM" && (
+            <div>
+              <label
+                htmlFor="payment_terms_days"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Days After Issue Date
+              </label>
+              <input
+                id="payment_terms_days"
+                type="number"
+                min="0"
+                max="365"
+                {...termsForm.register("custom_days", {
+                  setValueAs: (value) =>
+                    value === "" ? undefined : Number(value),
+                })}
+                disabled={loading}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="45"
+              />
+              {errors.custom_days && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.custom_days.message}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-8">
+          <button
+            type="submit"
+            disabled={loading || termsForm.formState.isSubmitting}
+            className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+          >
+            {termsForm.formState.isSubmitting ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PaymentTermsSettings;
@@ -0,0 +1,22 @@
+import React from "react";
+import type { QuoteStatus } from "../types/index.ts";
+import { QUOTE_STATUS_LABELS } from "../utils/helper.ts";
+
+const badgeStyles: Record<QuoteStatus, string> = {
+  DRAFT: "bg-primary-100 text-primary-800 border-primary-200",
+  SENT: "bg-sky-100 text-sky-800 border-sky-200",
+  ACCEPTED: "bg-emerald-100 text-emerald-800 border-emerald-200",
+  DECLINED: "bg-red-100 text-red-800 border-red-200",
+};
+
+const QuoteStatusBadge: React.FC<{ status: QuoteStatus }> = ({ status }) => {
+  return (
+    <span
+      className={`inline-flex px-3 py-1 text-xs font-bold rounded-full border ${badgeStyles[status]}`}
+    >
+      {QUOTE_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default QuoteStatusBadge;
@@ -0,0 +1,83 @@
+import React from "react";
+import type { Invoice } from "../types/index.ts";
+import { AGING_BUCKETS, calculateAging } from "../utils/aging.ts";
+import { formatMoney } from "../utils/currency.ts";
+
+interface ReceivablesAgingProps {
+  invoices: Invoice[];
+}
+
+const ReceivablesAging: React.FC<ReceivablesAgingProps> = ({ invoices }) => {
+  const aging = calculateAging(invoices);
+  const currencies = Object.keys(aging).sort();
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm border border-primary-200/50 rounded-3xl shadow-xl overflow-hidden">
+      <div className="px-8 py-6 border-b border-primary-200/50">
+        <h2 className="text-2xl font-bold text-primary-900 tracking-tight">
+          Receivables Aging
+        </h2>
+        <p className="text-sm text-primary-600 mt-1">
+          Outstanding amounts by days past due date
+        </p>
+      </div>
+      {currencies.length === 0 ? (
+        <p className="px-8 py-6 text-sm text-primary-600">
+          No outstanding invoices.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-primary-200/50">
+            <thead className="bg-gradient-to-r from-primary-50 to-sky-50/30">
+              <tr>
+                <th className="px-8 py-4 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                  Currency
+                </th>
+                {AGING_BUCKETS.map((bucket) => (
+                  <th
+                    key={bucket.key}
+                    className="px-8 py-4 text-right text-xs font-bold text-primary-700 uppercase tracking-wider"
+                  >
+                    {bucket.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-primary-200/30">
+              {currencies.map((currency) => (
+                <tr key={currency}>
+                  <td className="px-8 py-4 text-sm font-semibold text-primary-900">
+                    {currency}
+                  </td>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <td
+                      key={bucket.key}
+                      className={`px-8 py-4 text-right whitespace-nowrap ${
+                        bucket.key !== "CURRENT" &&
+                        aging[currency][bucket.key].count > 0
+                          ? "text-red-700"
+                          : "text-primary-800"
+                      }`}
+                    >
+                      <div className="text-sm font-bold">
+                        {formatMoney(
+                          aging[currency][bucket.key].amount,
+                          currency
+                        )}
+                      </div>
+                      <div className="text-xs text-primary-500">
+                        {aging[currency][bucket.key].count} invoices
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceivablesAging;
@@ -0,0 +1,197 @@
+import React from "react";
+import { X, Calendar } from "lucide-react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import type { PaymentFormData, PaymentMethod } from "../types/index.ts";
+import { PAYMENT_METHOD_LABELS, toDateInputValue } from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+
+const paymentSchema = z.object({
+  amount: z.number().positive("Amount must be greater than zero"),
+  payment_date: z.string().min(1, "Payment date is required"),
+  method: z.enum(["BANK_TRANSFER", "CASH", "CARD", "E_WALLET", "OTHER"]),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+interface RecordPaymentModalProps {
+  balanceDue: number;
+  currency?: string;
+  onClose: () => void;
+  onSubmit: (data: PaymentFormData) => Promise<void>;
+}
+
+const RecordPaymentModal: React.FC<RecordPaymentModalProps> = ({
+  balanceDue,
+  currency,
+  onClose,
+  onSubmit,
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<PaymentFormData>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      amount: balanceDue > 0 ? balanceDue : 0,
+      payment_date: toDateInputValue(new Date()),
+      method: "BANK_TRANSFER",
+      reference: "",
+      notes: "",
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">
+              Record Payment
+            </h3>
+            <p className="text-sm text-primary-600 mt-1">
+              Balance due: {formatMoney(balanceDue, currency)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label
+                htmlFor="amount"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Amount
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                {...register("amount", { valueAsNumber: true })}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+              />
+              {errors.amount && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.amount.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Payment Date
+              </label>
+              <div className="relative">
+                <Controller
+                  control={control}
+                  name="payment_date"
+                  render={({ field }) => (
+                    <DatePicker
+                      selected={field.value ? new Date(field.value) : null}
+                      onChange={(date) =>
+                        field.onChange(date ? toDateInputValue(date) : "")
+                      }
+                      dateFormat="dd/MM/yyyy"
+                      placeholderText="Select payment date"
+                      className="w-full px-4 py-3 pl-12 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                      wrapperClassName="w-full"
+                      calendarClassName="shadow-xl border-0 rounded-2xl"
+                    />
+                  )}
+                />
+                <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-primary-400 pointer-events-none z-10" />
+              </div>
+              {errors.payment_date && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.payment_date.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="method"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Method
+              </label>
+              <select
+                {...register("method")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+              >
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(
+                  (method) => (
+                    <option key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="reference"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Reference
+              </label>
+              <input
+                type="text"
+                {...register("reference")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="Transfer ID, receipt number, etc."
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="notes"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Notes
+              </label>
+              <textarea
+                {...register("notes")}
+                rows={2}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none"
+                placeholder="Deposit, first instalment, etc."
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isSubmitting ? "Saving..." : "Record Payment"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecordPaymentModal;
@@ -0,0 +1,219 @@
+import React from "react";
+import { X, Calendar } from "lucide-react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+import type { RecurringFrequency } from "../types/index.ts";
+import {
+  RECURRING_FREQUENCY_LABELS,
+  toDateInputValue,
+} from "../utils/helper.ts";
+
+const scheduleSchema = z
+  .object({
+    frequency: z.enum(["WEEKLY", "MONTHLY", "QUARTERLY", "YEARLY"]),
+    start_date: z.string().min(1, "Start date is required"),
+    end_date: z.string().optional(),
+    auto_send: z.boolean(),
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: "End date must be after the start date",
+    path: ["end_date"],
+  });
+
+export type RecurringScheduleValues = z.infer<typeof scheduleSchema>;
+
+interface RecurringScheduleModalProps {
+  title: string;
+  submitLabel: string;
+  initialValues?: Partial<RecurringScheduleValues>;
+  onClose: () => void;
+  onSubmit: (values: RecurringScheduleValues) => Promise<void>;
+}
+
+const RecurringScheduleModal: React.FC<RecurringScheduleModalProps> = ({
+  title,
+  submitLabel,
+  initialValues,
+  onClose,
+  onSubmit,
+}) => {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<RecurringScheduleValues>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      frequency: "MONTHLY",
+      start_date: toDateInputValue(new Date()),
+      end_date: "",
+      auto_send: false,
+      ...initialValues,
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <h3 className="text-xl font-bold text-primary-900">{title}</h3>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label
+                htmlFor="frequency"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Frequency
+              </label>
+              <select
+                {...register("frequency")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+              >
+                {(
+                  Object.keys(
+                    RECURRING_FREQUENCY_LABELS
+                  ) as RecurringFrequency[]
+                ).map((frequency) => (
+                  <option key={frequency} value={frequency}>
+                    {RECURRING_FREQUENCY_LABELS[frequency]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                Start Date
+              </label>
+              <div className="relative">
+                <Controller
+                  control={control}
+                  name="start_date"
+                  render={({ field }) => (
+                    <DatePicker
+                      selected={field.value ? new Date(field.value) : null}
+                      onChange={(date) =>
+                        field.onChange(date ? toDateInputValue(date) : "")
+                      }
+                      dateFormat="dd/MM/yyyy"
+                      placeholderText="Select start date"
+                      className="w-full px-4 py-3 pl-12 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                      wrapperClassName="w-full"
+                      calendarClassName="shadow-xl border-0 rounded-2xl"
+                    />
+                  )}
+                />
+                <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-primary-400 pointer-events-none z-10" />
+              </div>
+              {errors.start_date && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.start_date.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                End Date (optional)
+              </label>
+              <div className="relative">
+                <Controller
+                  control={control}
+                  name="end_date"
+                  render={({ field }) => (
+                    <DatePicker
+                      selected={field.value ? new Date(field.value) : null}
+                      onChange={(date) =>
+                        field.onChange(date ? toDateInputValue(date) : "")
+                      }
+                      dateFormat="dd/MM/yyyy"
+                      placeholderText="Runs until stopped"
+                      isClearable
+                      className="w-full px-4 py-3 pl-12 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                      wrapperClassName="w-full"
+                      calendarClassName="shadow-xl border-0 rounded-2xl"
+                    />
+                  )}
+                />
+                <Calendar className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-primary-400 pointer-events-none z-10" />
+              </div>
+              {errors.end_date && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.end_date.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-primary-700 mb-3">
+                When an invoice is generated
+              </label>
+              <Controller
+                control={control}
+                name="auto_send"
+                render={({ field }) => (
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => field.onChange(false)}
+                      className={`px-4 py-3 text-sm font-semibold rounded-full border transition-all duration-200 ${
+                        !field.value
+                          ? "bg-sky-100 text-sky-800 border-sky-300"
+                          : "bg-white/80 text-primary-600 border-primary-200 hover:bg-primary-50"
+                      }`}
+                    >
+                      Save as draft
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => field.onChange(true)}
+                      className={`px-4 py-3 text-sm font-semibold rounded-full border transition-all duration-200 ${
+                        field.value
+                          ? "bg-sky-100 text-sky-800 border-sky-300"
+                          : "bg-white/80 text-primary-600 border-primary-200 hover:bg-primary-50"
+                      }`}
+                    >
+                      Send automatically
+                    </button>
+                  </div>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              {isSubmitting ? "Saving..." : submitLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringScheduleModal;
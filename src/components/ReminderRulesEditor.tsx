@@ -0,0 +1,117 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { ReminderRule, ReminderTiming } from "../types/index.ts";
+import { REMINDER_TIMING_LABELS } from "../utils/reminders.ts";
+
+interface ReminderRulesEditorProps {
+  rules: ReminderRule[];
+  onChange: (rules: ReminderRule[]) => void;
+  disabled?: boolean;
+}
+
+const ReminderRulesEditor: React.FC<ReminderRulesEditorProps> = ({
+  rules,
+  onChange,
+  disabled,
+}) => {
+  const updateRule = (index: number, changes: Partial<ReminderRule>) => {
+    onChange(
+      rules.map((rule, i) => {
+        if (i !== index) return rule;
+        const updated = { ...rule, ...changes };
+        // Only overdue reminders repeat, and the due date itself has no offset
+        if (updated.timing !== "AFTER_DUE") {
+          delete updated.repeat_every_days;
+        }
+        if (updated.timing === "ON_DUE") {
+          updated.days = 0;
+        } else if (rule.timing === "ON_DUE") {
+          updated.days = 1;
+        }
+        return updated;
+      })
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => (
+        <div
+          key={index}
+          className="flex flex-wrap items-center gap-3 bg-white/60 border border-primary-200/60 rounded-2xl px-4 py-3"
+        >
+          <select
+            value={rule.timing}
+            onChange={(e) =>
+              updateRule(index, { timing: e.target.value as ReminderTiming })
+            }
+            disabled={disabled}
+            className="px-4 py-2 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-sm text-primary-900 shadow-sm"
+          >
+            {(Object.keys(REMINDER_TIMING_LABELS) as ReminderTiming[]).map(
+              (timing) => (
+                <option key={timing} value={timing}>
+                  {REMINDER_TIMING_LABELS[timing]}
+                </option>
+              )
+            )}
+          </select>
+          {rule.timing !== "ON_DUE" && (
+            <label className="flex items-center gap-2 text-sm text-primary-700">
+              <input
+                type="number"
+                min="1"
+                value={rule.days}
+                onChange={(e) =>
+                  updateRule(index, { days: e.target.valueAsNumber || 0 })
+                }
+                disabled={disabled}
+                className="w-20 px-3 py-2 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+              />
+              days
+            </label>
+          )}
+          {rule.timing === "AFTER_DUE" && (
+            <label className="flex items-center gap-2 text-sm text-primary-700">
+              repeat every
+              <input
+                type="number"
+                min="1"
+                value={rule.repeat_every_days ?? ""}
+                onChange={(e) =>
+                  updateRule(index, {
+                    repeat_every_days: e.target.valueAsNumber || undefined,
+                  })
+                }
+                disabled={disabled}
+                className="w-20 px-3 py-2 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="-"
+              />
+              days
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(rules.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="ml-auto text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+            title="Remove Rule"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rules, { timing: "AFTER_DUE", days: 7 }])}
+        disabled={disabled}
+        className="inline-flex items-center px-4 py-2 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Rule
+      </button>
+    </div>
+  );
+};
+
+export default ReminderRulesEditor;
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import { EMAIL_PLACEHOLDERS } from "../utils/email.ts";
+import {
+  DEFAULT_REMINDER_POLICY,
+  reminderRulesSchema,
+} from "../utils/reminders.ts";
+import ReminderRulesEditor from "./ReminderRulesEditor.tsx";
+
+const reminderSchema = z.object({
+  enabled: z.boolean(),
+  rules: reminderRulesSchema,
+  subject: z.string().min(1, "Subject is required"),
+  body: z.string().min(1, "Message is required"),
+});
+
+type ReminderFormData = z.infer<typeof reminderSchema>;
+
+const RemindersSettings: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+
+  const reminderForm = useForm<ReminderFormData>({
+    resolver: zodResolver(reminderSchema),
+    defaultValues: DEFAULT_REMINDER_POLICY,
+  });
+  const { reset } = reminderForm;
+
+  useEffect(() => {
+    const loadReminders = async () => {
+      try {
+        reset(await apiService.getReminderSettings());
+      } catch {
+        toast.error("Failed to load reminder settings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReminders();
+  }, [reset]);
+
+  const onSubmitReminders = async (data: ReminderFormData) => {
+    try {
+      reset(await apiService.updateReminderSettings(data));
+      toast.success("Reminder settings updated successfully");
+    } catch {
+      toast.error("Failed to update reminder settings");
+    }
+  };
+
+  const errors = reminderForm.formState.errors;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30">
+        <h3 className="text-xl font-bold text-primary-900">
+          Payment Reminders
+        </h3>
+        <p className="text-sm text-primary-600 mt-2">
+          Emails sent automatically to clients with unpaid invoices. Each
+          invoice can override these rules.
+        </p>
+      </div>
+      <form
+        onSubmit={reminderForm.handleSubmit(onSubmitReminders)}
+        className="p-8 space-y-8"
+      >
+        <label className="inline-flex items-center gap-3 text-sm font-semibold text-primary-700">
+          <input
+            type="checkbox"
+            {...reminderForm.register("enabled")}
+            disabled={loading}
+            className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+          />
+          Send reminders automatically
+        </label>
+
+        <div>
+          <label className="block text-sm font-semibold text-primary-700 mb-3">
+            Rules
+          </label>
+          <Controller
+            name="rules"
+            control={reminderForm.control}
+            render={({ field }) => (
+              <ReminderRulesEditor
+                rules={field.value}
+                onChange={field.onChange}
+                disabled={loading}
+              />
+            )}
+          />
+          {errors.rules && (
+            <p className="mt-2 text-sm text-red-600 font-medium">
+              {errors.rules.message || "Each rule needs between 1 and 365 days"}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="reminder_subject"
+            className="block text-sm font-semibold text-primary-700 mb-3"
+          >
+            Subject
+          </label>
+          <input
+            id="reminder_subject"
+            type="text"
+            {...reminderForm.register("subject")}
+            disabled={loading}
+            className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+          />
+          {errors.subject && (
+            <p className="mt-2 text-sm text-red-600 font-medium">
+              {errors.subject.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="reminder_body"
+            className="block text-sm font-semibold text-primary-700 mb-3"
+          >
+            Message
+          </label>
+          <textarea
+            id="reminder_body"
+            {...reminderForm.register("body")}
+            disabled={loading}
+            rows={8}
+            className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none"
+          />
+          {errors.body && (
+            <p className="mt-2 text-sm text-red-600 font-medium">
+              {errors.body.message}
+            </p>
+          )}
+          <div className="mt-3 flex flex-wrap gap-2">
+            {EMAIL_PLACEHOLDERS.map(({ token, description }) => (
+              <span
+                key={token}
+                title={description}
+                className="px-3 py-1 text-xs font-mono text-primary-700 bg-primary-100 border border-primary-200 rounded-full"
+              >
+                {token}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={loading || reminderForm.formState.isSubmitting}
+            className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+          >
+            {reminderForm.formState.isSubmitting ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RemindersSettings;
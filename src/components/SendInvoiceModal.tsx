@@ -0,0 +1,222 @@
+import React from "react";
+import { X, Send } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useAuth } from "../context/AuthContext.tsx";
+import {
+  DEFAULT_EMAIL_BODY,
+  DEFAULT_EMAIL_SUBJECT,
+  EMAIL_PLACEHOLDERS,
+  fillEmailTemplate,
+  getEmailTemplateValues,
+  parseEmailList,
+} from "../utils/email.ts";
+import type { Invoice, SendInvoiceEmailData } from "../types/index.ts";
+
+const isEmailList = (value: string) =>
+  parseEmailList(value).every((email) => z.email().safeParse(email).success);
+
+const sendInvoiceSchema = z.object({
+  to: z
+    .string()
+    .refine((value) => parseEmailList(value).length > 0, {
+      message: "At least one recipient is required",
+    })
+    .refine(isEmailList, { message: "Enter valid email addresses" }),
+  cc: z
+    .string()
+    .refine(isEmailList, { message: "Enter valid email addresses" }),
+  subject: z.string().min(1, "Subject is required"),
+  body: z.string().min(1, "Message is required"),
+  attach_pdf: z.boolean(),
+});
+
+type SendInvoiceValues = z.infer<typeof sendInvoiceSchema>;
+
+interface SendInvoiceModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+  onSubmit: (data: SendInvoiceEmailData) => Promise<void>;
+}
+
+const SendInvoiceModal: React.FC<SendInvoiceModalProps> = ({
+  invoice,
+  onClose,
+  onSubmit,
+}) => {
+  const { user, branding } = useAuth();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<SendInvoiceValues>({
+    resolver: zodResolver(sendInvoiceSchema),
+    defaultValues: {
+      to: invoice.client_email || "",
+      cc: "",
+      subject: DEFAULT_EMAIL_SUBJECT,
+      body: DEFAULT_EMAIL_BODY,
+      attach_pdf: true,
+    },
+  });
+
+  const onSubmitEmail = async (data: SendInvoiceValues) => {
+    const values = getEmailTemplateValues(invoice, user);
+    await onSubmit({
+      to: parseEmailList(data.to),
+      cc: parseEmailList(data.cc),
+      subject: fillEmailTemplate(data.subject, values),
+      body: fillEmailTemplate(data.body, values),
+      attach_pdf: data.attach_pdf,
+      branding,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-white/20">
+        <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+          <div>
+            <h3 className="text-xl font-bold text-primary-900">Send Invoice</h3>
+            <p className="text-sm text-primary-600 mt-1">
+              {invoice.invoice_number} to {invoice.client_name}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-primary-400 hover:text-primary-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmitEmail)} className="px-8 pb-8 pt-6">
+          <div className="space-y-6">
+            <div>
+              <label
+                htmlFor="to"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                To
+              </label>
+              <input
+                id="to"
+                type="text"
+                {...register("to")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="billing@client.com"
+              />
+              {errors.to && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.to.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="cc"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                CC
+              </label>
+              <input
+                id="cc"
+                type="text"
+                {...register("cc")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                placeholder="Separate addresses with commas"
+              />
+              {errors.cc && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.cc.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="subject"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Subject
+              </label>
+              <input
+                id="subject"
+                type="text"
+                {...register("subject")}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+              />
+              {errors.subject && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.subject.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="body"
+                className="block text-sm font-semibold text-primary-700 mb-3"
+              >
+                Message
+              </label>
+              <textarea
+                id="body"
+                {...register("body")}
+                rows={8}
+                className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none"
+              />
+              {errors.body && (
+                <p className="mt-2 text-sm text-red-600 font-medium">
+                  {errors.body.message}
+                </p>
+              )}
+              <div className="mt-3 flex flex-wrap gap-2">
+                {EMAIL_PLACEHOLDERS.map(({ token, description }) => (
+                  <span
+                    key={token}
+                    title={description}
+                    className="px-2 py-0.5 text-xs font-mono rounded-full border bg-primary-50 text-primary-700 border-primary-200"
+                  >
+                    {token}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+              <input
+                type="checkbox"
+                {...register("attach_pdf")}
+                className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+              />
+              Attach the invoice PDF
+            </label>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 mt-8">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {isSubmitting ? "Sending..." : "Send Invoice"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SendInvoiceModal;
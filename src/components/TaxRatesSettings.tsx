@@ -0,0 +1,419 @@
+import React, { useEffect, useState } from "react";
+import { Edit, Plus, Trash2, X } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import { VAT_CATEGORY_LABELS, getVatCategory } from "../utils/eInvoice.ts";
+import type { TaxRate, VatCategory } from "../types/index.ts";
+
+const taxRateSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    rate: z
+      .number("Rate is required")
+      .min(0, "Rate cannot be negative")
+      .max(100, "Rate cannot exceed 100%"),
+    is_withholding: z.boolean(),
+    is_compound: z.boolean(),
+    vat_category: z.enum(["S", "Z", "E"]),
+    exemption_reason: z.string(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.vat_category === "S" && data.rate === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["vat_category"],
+        message: "Standard rated taxes need a rate above 0%",
+      });
+    }
+    if (data.vat_category !== "S" && data.rate > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["vat_category"],
+        message: "Zero rated and exempt taxes must have a 0% rate",
+      });
+    }
+    if (data.vat_category === "E" && !data.exemption_reason.trim()) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["exemption_reason"],
+        message: "Exempt taxes need the reason for the exemption",
+      });
+    }
+  });
+
+type TaxRateValues = z.infer<typeof taxRateSchema>;
+
+const TaxRatesSettings: React.FC = () => {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingTaxRate, setEditingTaxRate] = useState<TaxRate | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<TaxRate | null>(null);
+
+  const taxRateForm = useForm<TaxRateValues>({
+    resolver: zodResolver(taxRateSchema),
+  });
+
+  useEffect(() => {
+    const loadTaxRates = async () => {
+      try {
+        setTaxRates(await apiService.getTaxRates());
+      } catch {
+        toast.error("Failed to load tax rates");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTaxRates();
+  }, []);
+
+  const openModal = (taxRate?: TaxRate) => {
+    setEditingTaxRate(taxRate || null);
+    taxRateForm.reset(
+      taxRate
+        ? {
+            ...taxRate,
+            vat_category: taxRate.vat_category || getVatCategory(taxRate.rate),
+            exemption_reason: taxRate.exemption_reason || "",
+          }
+        : {
+            name: "",
+            rate: 0,
+            is_withholding: false,
+            is_compound: false,
+            vat_category: "S",
+            exemption_reason: "",
+          }
+    );
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingTaxRate(null);
+  };
+
+  const onSubmitTaxRate = async (values: TaxRateValues) => {
+    const data = {
+      ...values,
+      // Only exempt supplies carry a reason
+      exemption_reason:
+        values.vat_category === "E" ? values.exemption_reason.trim() : "",
+    };
+    try {
+      if (editingTaxRate) {
+        const updated = await apiService.updateTaxRate(editingTaxRate.id, data);
+        setTaxRates((prev) =>
+          prev.map((taxRate) => (taxRate.id === updated.id ? updated : taxRate))
+        );
+        toast.success("Tax rate updated successfully");
+      } else {
+        const created = await apiService.createTaxRate(data);
+        setTaxRates((prev) => [...prev, created]);
+        toast.success("Tax rate created successfully");
+      }
+      closeModal();
+    } catch {
+      toast.error("Failed to save tax rate");
+    }
+  };
+
+  const handleDeleteTaxRate = async (taxRate: TaxRate) => {
+    try {
+      await apiService.deleteTaxRate(taxRate.id);
+      setTaxRates((prev) => prev.filter((t) => t.id !== taxRate.id));
+      setDeleteConfirm(null);
+      toast.success("Tax rate deleted successfully");
+    } catch {
+      toast.error("Failed to delete tax rate");
+    }
+  };
+
+  const errors = taxRateForm.formState.errors;
+  const vatCategory = taxRateForm.watch("vat_category");
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
+      <div className="px-8 py-6 border-b border-primary-200/30 flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-primary-900">Tax Rates</h3>
+          <p className="text-sm text-primary-600 mt-2">
+            Taxes you can apply to individual invoice items.
+          </p>
+        </div>
+        <button
+          onClick={() => openModal()}
+          className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Tax
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-sky-500"></div>
+        </div>
+      ) : taxRates.length === 0 ? (
+        <p className="px-8 py-6 text-sm text-primary-600">
+          No tax rates yet. Add PPN, VAT or withholding taxes to reuse them on
+          your invoices.
+        </p>
+      ) : (
+        <ul className="divide-y divide-primary-200/30">
+          {taxRates.map((taxRate) => (
+            <li
+              key={taxRate.id}
+              className="px-8 py-4 flex items-center justify-between"
+            >
+              <div>
+                <div className="text-sm font-semibold text-primary-900">
+                  {taxRate.name} ({taxRate.rate}%)
+                </div>
+                <div className="flex gap-2 mt-1">
+                  {taxRate.is_withholding && (
+                    <span className="px-2 py-0.5 text-xs font-bold rounded-full border bg-amber-100 text-amber-800 border-amber-200">
+                      Withholding
+                    </span>
+                  )}
+                  {taxRate.is_compound && (
+                    <span className="px-2 py-0.5 text-xs font-bold rounded-full border bg-sky-100 text-sky-800 border-sky-200">
+                      Compound
+                    </span>
+                  )}
+                  {taxRate.vat_category === "E" && (
+                    <span
+                      className="px-2 py-0.5 text-xs font-bold rounded-full border bg-primary-100 text-primary-800 border-primary-200"
+                      title={taxRate.exemption_reason}
+                    >
+                      Exempt
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => openModal(taxRate)}
+                  className="text-primary-600 hover:text-primary-800 p-2 rounded-full hover:bg-primary-50 transition-colors duration-200"
+                  title="Edit Tax Rate"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setDeleteConfirm(taxRate)}
+                  className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                  title="Delete Tax Rate"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add/Edit Tax Rate Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+              <h3 className="text-xl font-bold text-primary-900">
+                {editingTaxRate ? "Edit Tax Rate" : "Add Tax Rate"}
+              </h3>
+              <button
+                onClick={closeModal}
+                className="text-primary-400 hover:text-primary-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form
+              onSubmit={taxRateForm.handleSubmit(onSubmitTaxRate)}
+              className="px-8 pb-8 pt-6"
+            >
+              <div className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="name"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    {...taxRateForm.register("name")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    placeholder="PPN"
+                  />
+                  {errors.name && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {errors.name.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="rate"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Rate (%)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    {...taxRateForm.register("rate", { valueAsNumber: true })}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    placeholder="11"
+                  />
+                  {errors.rate && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {errors.rate.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="vat_category"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    VAT Category
+                  </label>
+                  <select
+                    id="vat_category"
+                    {...taxRateForm.register("vat_category")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                  >
+                    {(Object.keys(VAT_CATEGORY_LABELS) as VatCategory[]).map(
+                      (category) => (
+                        <option key={category} value={category}>
+                          {VAT_CATEGORY_LABELS[category]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <p className="mt-2 text-xs text-primary-500">
+                    Used on e-invoices to tell zero rated and exempt supplies
+                    apart.
+                  </p>
+                  {errors.vat_category && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {errors.vat_category.message}
+                    </p>
+                  )}
+                </div>
+
+                {vatCategory === "E" && (
+                  <div>
+                    <label
+                      htmlFor="exemption_reason"
+                      className="block text-sm font-semibold text-primary-700 mb-3"
+                    >
+                      Exemption Reason
+                    </label>
+                    <input
+                      id="exemption_reason"
+                      type="text"
+                      {...taxRateForm.register("exemption_reason")}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                      placeholder="Exempt under Article 132 of Directive 2006/112/EC"
+                    />
+                    {errors.exemption_reason && (
+                      <p className="mt-2 text-sm text-red-600 font-medium">
+                        {errors.exemption_reason.message}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+                    <input
+                      type="checkbox"
+                      {...taxRateForm.register("is_withholding")}
+                      className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    Withholding tax (deducted from the total)
+                  </label>
+                  <label className="flex items-center gap-3 text-sm font-semibold text-primary-700">
+                    <input
+                      type="checkbox"
+                      {...taxRateForm.register("is_compound")}
+                      className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                    />
+                    Compound tax (charged on top of other taxes)
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-end space-x-4 mt-8">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={taxRateForm.formState.isSubmitting}
+                  className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  {taxRateForm.formState.isSubmitting
+                    ? "Saving..."
+                    : editingTaxRate
+                    ? "Update Tax Rate"
+                    : "Add Tax Rate"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="p-8">
+              <h3 className="text-xl font-bold text-primary-900 mb-4">
+                Delete Tax Rate
+              </h3>
+              <p className="text-primary-600 mb-8 leading-relaxed">
+                Delete{" "}
+                <strong className="text-primary-900">
+                  {deleteConfirm.name}
+                </strong>
+                ? Invoices that already use it keep their tax lines.
+              </p>
+              <div className="flex items-center justify-end space-x-4">
+                <button
+                  onClick={() => setDeleteConfirm(null)}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDeleteTaxRate(deleteConfirm)}
+                  className="px-6 py-3 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-full transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxRatesSettings;
@@ -1,10 +1,13 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
-import type { User } from '../types/index.ts';
+import type { InvoiceBranding, User } from '../types/index.ts';
 import { apiService } from '../utils/api.ts';
+import { DEFAULT_BRANDING } from '../utils/branding.ts';
 
 interface AuthContextType {
   user: User | null;
+  // Invoice template of the signed-in user, defaults when signed out
+  branding: InvoiceBranding;
   isAuthenticated: boolean;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
@@ -19,10 +22,11 @@ interface AuthContextType {
     bank_account_number: string;
   }) => Promise<void>;
   logout: () => void;
-  updateUserProfile: (data: { name: string; email: string; address: string; phone: string }) => Promise<void>;
-  updateUserBanking: (data: { bank_name: string; bank_account_name: string; bank_account_number: string }) => Promise<void>;
+  updateUserProfile: (data: { name: string; email: string; address: string; phone: string; country_code?: string; tax_id?: string }) => Promise<void>;
+  updateUserBanking: (data: { bank_name: string; bank_account_name: string; bank_account_number: string; bank_bic?: string; qris_payload?: string }) => Promise<void>;
   changeUserPassword: (data: { old_password: string; new_password: string }) => Promise<void>;
   deactivateAccount: () => Promise<void>;
+  updateBranding: (data: InvoiceBranding) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -41,6 +45,7 @@ interface AuthProviderProps {
 
 const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [branding, setBranding] = useState<InvoiceBranding>(DEFAULT_BRANDING);
   const [isLoading, setIsLoading] = useState(true);
 
   const isAuthenticated = !!user && apiService.isAuthenticated();
@@ -61,6 +66,20 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setBranding(DEFAULT_BRANDING);
+      return;
+    }
+
+    apiService
+      .getBrandingSettings()
+      .then((data) => setBranding({ ...DEFAULT_BRANDING, ...data }))
+      .catch(() => setBranding(DEFAULT_BRANDING));
+  }, [userId]);
+
   const login = async (email: string, password: string) => {
     try {
       const tokens = await apiService.login({ email, password });
@@ -107,14 +126,14 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
 
-  const updateUserProfile = async (data: { name: string; email: string; address: string; phone: string }) => {
+  const updateUserProfile = async (data: { name: string; email: string; address: string; phone: string; country_code?: string; tax_id?: string }) => {
     await apiService.updateUserProfile(data);
     // Fetch updated user data since the API doesn't return it
     const updatedUser = await apiService.getCurrentUser();
     setUser(updatedUser);
   };
 
-  const updateUserBanking = async (data: { bank_name: string; bank_account_name: string; bank_account_number: string }) => {
+  const updateUserBanking = async (data: { bank_name: string; bank_account_name: string; bank_account_number: string; bank_bic?: string; qris_payload?: string }) => {
     await apiService.updateUserBanking(data);
     // Fetch updated user data since the API doesn't return it
     const updatedUser = await apiService.getCurrentUser();
@@ -126,6 +145,11 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     // Password change doesn't affect user data, so no need to refetch
   };
 
+  const updateBranding = async (data: InvoiceBranding) => {
+    const updatedBranding = await apiService.updateBrandingSettings(data);
+    setBranding({ ...DEFAULT_BRANDING, ...updatedBranding });
+  };
+
   const deactivateAccount = async () => {
     await apiService.deactivateUserAccount();
     // After deactivation, logout the user
@@ -134,6 +158,7 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const value = {
     user,
+    branding,
     isAuthenticated,
     isLoading,
     login,
@@ -143,6 +168,7 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     updateUserBanking,
     changeUserPassword,
     deactivateAccount,
+    updateBranding,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from "react";
 import {
+  FileSpreadsheet,
+  Upload,
   Plus,
   Search,
   Edit,
@@ -14,16 +16,36 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "react-toastify";
 import { apiService } from "../utils/api.ts";
-import type { Client } from "../types/index.ts";
+import { PAYMENT_TERMS_LABELS } from "../utils/paymentTerms.ts";
+import { clientDetailsSchema } from "../utils/clients.ts";
+import { COUNTRY_OPTIONS } from "../utils/countries.ts";
+import type { Client, PaymentTermsType } from "../types/index.ts";
 import Navbar from "../components/Navbar.tsx";
 import Pagination from "../components/Pagination.tsx";
-
-const clientSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email address").optional().or(z.literal("")),
-  phone: z.string().optional(),
-  address: z.string().optional(),
-});
+import ExportModal from "../components/ExportModal.tsx";
+import ImportWizardModal from "../components/ImportWizardModal.tsx";
+import { CLIENT_EXPORT_COLUMNS, exportRows } from "../utils/export.ts";
+import type { ExportOptions } from "../utils/export.ts";
+
+const clientSchema = clientDetailsSchema
+  .extend({
+    country_code: z.string(),
+    tax_id: z.string(),
+    // Empty means the client follows the default terms from settings
+    payment_terms_type: z.string(),
+    payment_terms_days: z
+      .number()
+      .int("Days must be a whole number")
+      .min(0, "Days cannot be negative")
+      .max(365, "Days cannot exceed 365")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.payment_terms_type !== "CUSTOM" ||
+      data.payment_terms_days !== undefined,
+    { message: "Days are required", path: ["payment_terms_days"] }
+  );
 
 type ClientFormData = z.infer<typeof clientSchema>;
 
@@ -34,6 +56,8 @@ const ClientsPage: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Client | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -45,11 +69,14 @@ const ClientsPage: React.FC = () => {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<ClientFormData>({
     resolver: zodResolver(clientSchema),
   });
 
+  const paymentTermsType = watch("payment_terms_type");
+
   const loadClients = React.useCallback(async () => {
     try {
       setIsLoading(true);
@@ -93,7 +120,15 @@ const ClientsPage: React.FC = () => {
 
   const openCreateModal = () => {
     setEditingClient(null);
-    reset({ name: "", email: "", phone: "", address: "" });
+    reset({
+      name: "",
+      email: "",
+      phone: "",
+      address: "",
+      country_code: "",
+      tax_id: "",
+      payment_terms_type: "",
+    });
     setIsModalOpen(true);
   };
 
@@ -104,6 +139,10 @@ const ClientsPage: React.FC = () => {
       email: client.email || "",
       phone: client.phone || "",
       address: client.address || "",
+      country_code: client.country_code || "",
+      tax_id: client.tax_id || "",
+      payment_terms_type: client.payment_terms?.type || "",
+      payment_terms_days: client.payment_terms?.custom_days,
     });
     setIsModalOpen(true);
   };
@@ -121,6 +160,16 @@ const ClientsPage: React.FC = () => {
         email: data.email || undefined,
         phone: data.phone || undefined,
         address: data.address || undefined,
+        country_code: data.country_code || undefined,
+        tax_id: data.tax_id || undefined,
+        payment_terms: data.payment_terms_type
+          ? {
+              type: data.payment_terms_type as PaymentTermsType,
+              ...(data.payment_terms_type === "CUSTOM" && {
+                custom_days: data.payment_terms_days,
+              }),
+            }
+          : null,
       };
 
       if (editingClient) {
@@ -150,6 +199,37 @@ const ClientsPage: React.FC = () => {
     }
   };
 
+  const handleExport = async (options: ExportOptions) => {
+    try {
+      // Every client matching the search, not just this page
+      const matching: Client[] = [];
+      for (let page = 1; ; page++) {
+        const result = await apiService.getClients({
+          page,
+          page_size: 100,
+          ...(searchTerm && { search: searchTerm }),
+        });
+        matching.push(...result.data);
+        if (page >= result.pagination.total_pages) break;
+      }
+
+      await exportRows(
+        matching,
+        CLIENT_EXPORT_COLUMNS.filter((column) =>
+          options.columns.includes(column.key)
+        ),
+        options.format,
+        "clients"
+      );
+      setShowExportModal(false);
+      toast.success(
+        `Exported ${matching.length} client${matching.length === 1 ? "" : "s"}`
+      );
+    } catch {
+      toast.error("Failed to export clients");
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
@@ -177,13 +257,30 @@ const ClientsPage: React.FC = () => {
                 Manage your client relationships
               </p>
             </div>
-            <button
-              onClick={openCreateModal}
-              className="inline-flex items-center text-sm px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
-            >
-              <Plus className="h-4 w-4 mr-3" />
-              Create Client
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <Upload className="h-4 w-4 mr-3" />
+                Import
+              </button>
+              <button
+                onClick={() => setShowExportModal(true)}
+                disabled={totalItems === 0}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-3" />
+                Export
+              </button>
+              <button
+                onClick={openCreateModal}
+                className="inline-flex items-center text-sm px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+              >
+                <Plus className="h-4 w-4 mr-3" />
+                Create Client
+              </button>
+            </div>
           </div>
         </div>
 
@@ -298,6 +395,26 @@ const ClientsPage: React.FC = () => {
         )}
       </div>
 
+      {showExportModal && (
+        <ExportModal
+          title="Export Clients"
+          description={`${totalItems} client${
+            totalItems === 1 ? "" : "s"
+          } matching the current search.`}
+          columns={CLIENT_EXPORT_COLUMNS}
+          onClose={() => setShowExportModal(false)}
+          onSubmit={handleExport}
+        />
+      )}
+
+      {showImportModal && (
+        <ImportWizardModal
+          target="clients"
+          onClose={() => setShowImportModal(false)}
+          onComplete={loadClients}
+        />
+      )}
+
       {/* Client Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -385,6 +502,86 @@ const ClientsPage: React.FC = () => {
                     placeholder="123 Main St, City, State 12345"
                   />
                 </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label
+                      htmlFor="country_code"
+                      className="block text-sm font-semibold text-primary-700 mb-3"
+                    >
+                      Country
+                    </label>
+                    <select
+                      id="country_code"
+                      {...register("country_code")}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                    >
+                      <option value="">Not set</option>
+                      {COUNTRY_OPTIONS.map((country) => (
+                        <option key={country.code} value={country.code}>
+                          {country.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="tax_id"
+                      className="block text-sm font-semibold text-primary-700 mb-3"
+                    >
+                      VAT / Tax ID
+                    </label>
+                    <input
+                      id="tax_id"
+                      {...register("tax_id")}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="payment_terms_type"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Payment Terms
+                  </label>
+                  <div className="flex gap-3">
+                    <select
+                      id="payment_terms_type"
+                      {...register("payment_terms_type")}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                    >
+                      <option value="">Default from settings</option>
+                      {Object.entries(PAYMENT_TERMS_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    {paymentTermsType === "CUSTOM" && (
+                      <input
+                        type="number"
+                        min="0"
+                        max="365"
+                        {...register("payment_terms_days", {
+                          setValueAs: (value) =>
+                            value === "" ? undefined : Number(value),
+                        })}
+                        className="w-32 flex-shrink-0 px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                        placeholder="Days"
+                      />
+                    )}
+                  </div>
+                  {errors.payment_terms_days && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {errors.payment_terms_days.message}
+                    </p>
+                  )}
+                </div>
               </div>
 
               <div className="flex items-center justify-end space-x-4 mt-8">
@@ -1,24 +1,46 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { Link, useNavigate, useParams } from "react-router-dom";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
 import { ArrowLeft, Save } from "lucide-react";
 import { toast } from "react-toastify";
 import InvoiceForm from "../components/InvoiceForm.tsx";
 import InvoicePreview from "../components/InvoicePreview.tsx";
 import { apiService } from "../utils/api.ts";
+import { DEFAULT_CURRENCY } from "../utils/currency.ts";
+import {
+  convertInvoiceToFormData,
+  getDuplicateDueDate,
+} from "../utils/helper.ts";
+import {
+  calculateDueDate,
+  DEFAULT_PAYMENT_TERMS,
+} from "../utils/paymentTerms.ts";
 import type { InvoiceFormData, Invoice } from "../types/index.ts";
 import Navbar from "../components/Navbar.tsx";
 
+interface CreateInvoiceLocationState {
+  prefill?: InvoiceFormData;
+  quoteId?: number;
+  // Number of the invoice being duplicated
+  duplicateOf?: string;
+}
+
 const CreateInvoicePage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { id } = useParams<{ id: string }>();
   const isEditMode = Boolean(id);
+  const { prefill, quoteId, duplicateOf } =
+    (location.state as CreateInvoiceLocationState | null) ?? {};
   const [loading, setLoading] = useState(isEditMode);
+  const today = new Date().toISOString().split("T")[0];
   const [invoiceData, setInvoiceData] = useState<InvoiceFormData>({
-    invoice_number: `INV-${Date.now()}`,
-    issue_date: new Date().toISOString().split("T")[0],
-    due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split("T")[0],
+    // Filled in from the numbering sequence once loaded
+    invoice_number: "",
+    issue_date: today,
+    // Replaced by the account or client terms once loaded
+    payment_terms: DEFAULT_PAYMENT_TERMS,
+    due_date: calculateDueDate(today, DEFAULT_PAYMENT_TERMS),
+    currency: DEFAULT_CURRENCY,
     client_id: undefined,
     client_name: "",
     client_email: "",
@@ -36,6 +58,33 @@ const CreateInvoicePage: React.FC = () => {
     delivery_fee: 0,
     notes: "",
     status: "DRAFT",
+    // Billable details copied from another document keep this page's number and dates
+    ...(!isEditMode &&
+      prefill && {
+        client_id: prefill.client_id,
+        client_name: prefill.client_name,
+        client_email: prefill.client_email,
+        client_address: prefill.client_address,
+        client_phone: prefill.client_phone,
+        currency: prefill.currency,
+        items: prefill.items.map((item) => ({ ...item, id: undefined })),
+        tax_rate: prefill.tax_rate,
+        discount_type: prefill.discount_type,
+        discount_value: prefill.discount_value,
+        quantity_precision: prefill.quantity_precision,
+        tax_rounding: prefill.tax_rounding,
+        delivery_fee: prefill.delivery_fee,
+        notes: prefill.notes,
+        quote_id: quoteId,
+      }),
+    ...(!isEditMode &&
+      prefill &&
+      duplicateOf && {
+        payment_terms: prefill.payment_terms,
+        due_date: prefill.payment_terms
+          ? calculateDueDate(today, prefill.payment_terms)
+          : getDuplicateDueDate(prefill),
+      }),
   });
   const [isSaving, setIsSaving] = useState(false);
 
@@ -46,32 +95,7 @@ const CreateInvoicePage: React.FC = () => {
         setLoading(true);
         const invoice: Invoice = await apiService.getInvoice(invoiceId);
 
-        // Convert Invoice to InvoiceFormData
-        setInvoiceData({
-          client_id: invoice.client_id,
-          client_name: invoice.client_name,
-          client_email: invoice.client_email || "",
-          client_address: invoice.client_address || "",
-          client_phone: invoice.client_phone || "",
-          invoice_number: invoice.invoice_number,
-          issue_date: invoice.issue_date
-            ? new Date(invoice.issue_date).toISOString().split("T")[0]
-            : "",
-          due_date: invoice.due_date
-            ? new Date(invoice.due_date).toISOString().split("T")[0]
-            : "",
-          tax_rate: invoice.tax_rate,
-          delivery_fee: invoice.delivery_fee,
-          notes: invoice.notes || "",
-          status: invoice.status,
-          items: invoice.items.map((item) => ({
-            id: item.id,
-            description: item.description,
-            quantity: item.quantity,
-            unit_price: item.unit_price,
-            total: item.total,
-          })),
-        });
+        setInvoiceData(convertInvoiceToFormData(invoice));
       } catch {
         toast.error("Failed to load invoice");
         navigate("/invoices");
@@ -82,11 +106,60 @@ const CreateInvoicePage: React.FC = () => {
     [navigate]
   );
 
+  const loadNextInvoiceNumber = useCallback(async () => {
+    try {
+      const nextNumber = await apiService.getNextInvoiceNumber();
+      // Keep any number the user already typed in
+      setInvoiceData((prev) => ({
+        ...prev,
+        invoice_number: prev.invoice_number || nextNumber,
+      }));
+    } catch {
+      toast.error("Failed to load the next invoice number");
+    }
+  }, []);
+
+  // Client terms win over the account default, as in the form's client picker
+  const prefillClientId = prefill?.client_id;
+  const loadPaymentTerms = useCallback(async () => {
+    try {
+      const [defaultTerms, client] = await Promise.all([
+        apiService.getPaymentTermsSettings(),
+        prefillClientId ? apiService.getClient(prefillClientId) : null,
+      ]);
+      const terms = client?.payment_terms || defaultTerms;
+      // Keep terms the user or the client picker already changed
+      setInvoiceData((prev) =>
+        prev.payment_terms === DEFAULT_PAYMENT_TERMS
+          ? {
+              ...prev,
+              payment_terms: terms,
+              due_date: calculateDueDate(prev.issue_date, terms),
+            }
+          : prev
+      );
+    } catch {
+      toast.error("Failed to load the default payment terms");
+    }
+  }, [prefillClientId]);
+
   useEffect(() => {
     if (isEditMode && id) {
       loadInvoiceForEdit(parseInt(id));
+    } else {
+      loadNextInvoiceNumber();
+      if (!duplicateOf) {
+        loadPaymentTerms();
+      }
     }
-  }, [isEditMode, id, loadInvoiceForEdit]);
+  }, [
+    isEditMode,
+    id,
+    duplicateOf,
+    loadInvoiceForEdit,
+    loadNextInvoiceNumber,
+    loadPaymentTerms,
+  ]);
 
   const handleFormChange = (data: InvoiceFormData) => {
     setInvoiceData(data);
@@ -134,6 +207,17 @@ const CreateInvoicePage: React.FC = () => {
     try {
       setIsSaving(true);
 
+      const isTaken = await apiService.isInvoiceNumberTaken(
+        invoiceData.invoice_number,
+        id ? parseInt(id) : undefined
+      );
+      if (isTaken) {
+        toast.error(
+          `Invoice number ${invoiceData.invoice_number} is already in use`
+        );
+        return;
+      }
+
       if (isEditMode && id) {
         // Update existing invoice
         await apiService.updateInvoice(parseInt(id), {
@@ -206,7 +290,9 @@ const CreateInvoicePage: React.FC = () => {
               {isEditMode ? "Edit Invoice" : "Create Invoice"}
             </h1>
             <p className="text-sm text-primary-600 font-light">
-              Fill in the details below and see the live preview on the right
+              {!isEditMode && duplicateOf
+                ? `Copied from invoice ${duplicateOf}, with a new number and dates`
+                : "Fill in the details below and see the live preview on the right"}
             </p>
           </div>
         </div>
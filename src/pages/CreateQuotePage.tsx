@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Save } from "lucide-react";
+import { toast } from "react-toastify";
+import InvoiceForm from "../components/InvoiceForm.tsx";
+import InvoicePreview from "../components/InvoicePreview.tsx";
+import { apiService } from "../utils/api.ts";
+import { DEFAULT_CURRENCY } from "../utils/currency.ts";
+import { convertQuoteToFormData } from "../utils/helper.ts";
+import type { InvoiceFormData } from "../types/index.ts";
+import Navbar from "../components/Navbar.tsx";
+
+const CreateQuotePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const isEditMode = Boolean(id);
+  const [loading, setLoading] = useState(isEditMode);
+  const [quoteData, setQuoteData] = useState<InvoiceFormData>({
+    // Filled in from the quote numbering sequence once loaded
+    invoice_number: "",
+    issue_date: new Date().toISOString().split("T")[0],
+    due_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split("T")[0],
+    currency: DEFAULT_CURRENCY,
+    client_id: undefined,
+    client_name: "",
+    client_email: "",
+    client_address: "",
+    client_phone: "",
+    items: [
+      {
+        description: "",
+        quantity: 1,
+        unit_price: 0,
+        total: 0,
+      },
+    ],
+    tax_rate: 0,
+    delivery_fee: 0,
+    notes: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadQuoteForEdit = useCallback(
+    async (quoteId: number) => {
+      try {
+        setLoading(true);
+        const quote = await apiService.getQuote(quoteId);
+        setQuoteData(convertQuoteToFormData(quote));
+      } catch {
+        toast.error("Failed to load quote");
+        navigate("/quotes");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [navigate]
+  );
+
+  const loadNextQuoteNumber = useCallback(async () => {
+    try {
+      const nextNumber = await apiService.getNextQuoteNumber();
+      // Keep any number the user already typed in
+      setQuoteData((prev) => ({
+        ...prev,
+        invoice_number: prev.invoice_number || nextNumber,
+      }));
+    } catch {
+      toast.error("Failed to load the next quote number");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isEditMode && id) {
+      loadQuoteForEdit(parseInt(id));
+    } else {
+      loadNextQuoteNumber();
+    }
+  }, [isEditMode, id, loadQuoteForEdit, loadNextQuoteNumber]);
+
+  const isFormValid = () => {
+    const basicValidation =
+      quoteData.invoice_number &&
+      quoteData.issue_date &&
+      quoteData.due_date &&
+      quoteData.items.length > 0 &&
+      quoteData.items.every(
+        (item) => item.description && item.quantity > 0 && item.unit_price >= 0
+      );
+
+    if (quoteData.client_id) {
+      return basicValidation;
+    }
+
+    const manualClientValidation =
+      quoteData.client_name &&
+      quoteData.client_email &&
+      quoteData.client_address &&
+      quoteData.client_phone;
+
+    return basicValidation && manualClientValidation;
+  };
+
+  const handleSave = async () => {
+    if (!isFormValid()) {
+      toast.error(
+        "Please fill in all required fields (quote number, dates, client details, and items)"
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const isTaken = await apiService.isQuoteNumberTaken(
+        quoteData.invoice_number,
+        id ? parseInt(id) : undefined
+      );
+      if (isTaken) {
+        toast.error(
+          `Quote number ${quoteData.invoice_number} is already in use`
+        );
+        return;
+      }
+
+      if (isEditMode && id) {
+        await apiService.updateQuote(parseInt(id), quoteData);
+        toast.success("Quote updated successfully!");
+      } else {
+        await apiService.createQuote(quoteData);
+        toast.success("Quote created successfully!");
+      }
+
+      navigate("/quotes");
+    } catch {
+      toast.error("Failed to save quote");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-12 py-12">
+        {/* Header */}
+        <div className="mb-12">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link
+                to="/quotes"
+                className="inline-flex items-center text-sm text-primary-500 hover:text-accent-600 font-medium transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to Quotes
+              </Link>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !isFormValid()}
+                className="inline-flex items-center px-8 py-3 text-sm font-semibold rounded-full shadow-lg text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+              >
+                <Save className="h-5 w-5 mr-2" />
+                {isSaving
+                  ? "Saving..."
+                  : isEditMode
+                  ? "Update Quote"
+                  : "Save Quote"}
+              </button>
+            </div>
+          </div>
+          <div className="mt-6">
+            <h1 className="text-3xl font-bold text-primary-900 mb-2 tracking-tight">
+              {isEditMode ? "Edit Quote" : "Create Quote"}
+            </h1>
+            <p className="text-sm text-primary-600 font-light">
+              Fill in the details below and see the live preview on the right
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-16">
+          {/* Form Section */}
+          <div>
+            <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-primary-200/50 overflow-hidden">
+              <div className="bg-gray-50 px-10 py-6 border-b border-primary-200">
+                <h2 className="text-2xl font-bold text-primary-800 flex items-center">
+                  Quote Details
+                </h2>
+              </div>
+              <div className="p-10">
+                <InvoiceForm
+                  data={quoteData}
+                  onChange={setQuoteData}
+                  showClientSelection={true}
+                  documentType="quote"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Preview Section */}
+          <div>
+            <div className="bg-white/70 backdrop-blur-sm rounded-3xl shadow-xl border border-primary-200/50 overflow-hidden">
+              <div className="bg-gray-50 border-b border-primary-200 px-10 py-6">
+                <h2 className="text-2xl font-bold text-primary-800 flex items-center">
+                  Preview
+                </h2>
+              </div>
+              <div className="p-10">
+                <div className="bg-gradient-to-br from-primary-50/80 to-sky-50/60 rounded-2xl p-8 border border-primary-200/40">
+                  <div
+                    className="transform scale-75 origin-top-left overflow-hidden"
+                    style={{ width: "133%" }}
+                  >
+                    <InvoicePreview data={quoteData} documentType="quote" />
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateQuotePage;
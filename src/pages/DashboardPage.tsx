@@ -1,4 +1,4 @@
-import React, { useState, useEffect, Fragment } from "react";
+import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
 import {
   FileText,
@@ -6,16 +6,21 @@ import {
   Plus,
   Eye,
   Download,
-  ChevronDown,
 } from "lucide-react";
-import { Listbox, Transition } from "@headlessui/react";
 import { toast } from "react-toastify";
+import { useAuth } from "../context/AuthContext.tsx";
 import { apiService } from "../utils/api.ts";
-import type { Invoice, Client, InvoiceSummary } from "../types/index.ts";
-import { formatDate } from "../utils/helper.ts";
+import type { Invoice, Client, InvoiceStatus } from "../types/index.ts";
+import { formatDate, INVOICE_STATUS_LABELS } from "../utils/helper.ts";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency.ts";
+import { sumMoney } from "../utils/calculation.ts";
 import Navbar from "../components/Navbar.tsx";
+import InvoiceStatusSelect from "../components/InvoiceStatusSelect.tsx";
+import OverdueBadge from "../components/OverdueBadge.tsx";
+import ReceivablesAging from "../components/ReceivablesAging.tsx";
 
 const DashboardPage: React.FC = () => {
+  const { branding } = useAuth();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [clients, setClients] = useState<{ data: Client[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }>({
     data: [],
@@ -26,10 +31,7 @@ const DashboardPage: React.FC = () => {
       total_pages: 0,
     },
   });
-  const [invoiceSummary, setInvoiceSummary] = useState<InvoiceSummary>({
-    paid: 0,
-    total_revenue: 0,
-  });
+  const [allInvoices, setAllInvoices] = useState<Invoice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [updatingStatusIds, setUpdatingStatusIds] = useState<Set<number>>(
     new Set()
@@ -42,29 +44,35 @@ const DashboardPage: React.FC = () => {
 
   const loadDashboardData = async () => {
     try {
-      const [invoicesResponse, clientsData, summaryData] = await Promise.all([
-        apiService.getInvoices({ page: 1, page_size: 10 }), // Get only 10 invoices for dashboard
-        apiService.getClients(), // Get all clients for dashboard stats
-        apiService.getInvoiceSummary(),
-      ]);
+      const [invoicesResponse, clientsData, allInvoicesData] =
+        await Promise.all([
+          apiService.getInvoices({ page: 1, page_size: 10 }), // Get only 10 invoices for dashboard
+          apiService.getClients(), // Get all clients for dashboard stats
+          apiService.getAllInvoices(), // Totals are grouped per currency client-side
+        ]);
       setInvoices(invoicesResponse.data);
       setClients({
         data: clientsData.data,
         pagination: clientsData.pagination,
       });
-      setInvoiceSummary(summaryData);
+      setAllInvoices(allInvoicesData);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleUpdateStatus = async (invoice: Invoice, newStatus: string) => {
+  const handleUpdateStatus = async (
+    invoice: Invoice,
+    newStatus: InvoiceStatus
+  ) => {
     if (newStatus === invoice.status) return; // No change needed
 
     try {
       setUpdatingStatusIds((prev) => new Set(prev).add(invoice.id));
       await apiService.updateInvoiceStatus(invoice.id, newStatus);
-      toast.success(`Invoice status updated to ${newStatus}`);
+      toast.success(
+        `Invoice status updated to ${INVOICE_STATUS_LABELS[newStatus]}`
+      );
       // Reload dashboard data to reflect the change
       await loadDashboardData();
     } catch {
@@ -81,7 +89,7 @@ const DashboardPage: React.FC = () => {
   const handleDownloadInvoice = async (invoice: Invoice) => {
     try {
       setDownloadingIds((prev) => new Set(prev).add(invoice.id));
-      const blob = await apiService.downloadInvoice(invoice.id);
+      const blob = await apiService.downloadInvoice(invoice.id, branding);
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -105,13 +113,38 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  // Amounts in different currencies are never summed together
+  const totalsByCurrency = allInvoices.reduce<
+    Record<string, { total: number; paid: number; outstanding: number }>
+  >((acc, invoice) => {
+    const currency = invoice.currency || DEFAULT_CURRENCY;
+    const totals = acc[currency] || { total: 0, paid: 0, outstanding: 0 };
+    totals.total = sumMoney([totals.total, invoice.total || 0], currency);
+    if (invoice.status === "PAID") {
+      totals.paid = sumMoney([totals.paid, invoice.total || 0], currency);
+    }
+    if (invoice.status === "SENT" || invoice.status === "PARTIALLY_PAID") {
+      totals.outstanding = sumMoney(
+        [
+          totals.outstanding,
+          invoice.balance_due ??
+            sumMoney(
+              [invoice.total || 0, -(invoice.amount_paid || 0)],
+              currency
+            ),
+        ],
+        currency
+      );
+    }
+    acc[currency] = totals;
+    return acc;
+  }, {});
+  const currencies = Object.keys(totalsByCurrency).sort();
+
   const stats = {
-    totalInvoices: invoices.length,
-    totalAmount: invoiceSummary.total_revenue,
-    paidInvoices: invoices.filter((invoice) => invoice.status === "PAID")
+    totalInvoices: allInvoices.length,
+    paidInvoices: allInvoices.filter((invoice) => invoice.status === "PAID")
       .length,
-    paidAmount: invoiceSummary.paid,
-    pendingAmount: invoiceSummary.total_revenue - invoiceSummary.paid,
     totalClients: clients.pagination.total_items,
   };
 
@@ -137,7 +170,7 @@ const DashboardPage: React.FC = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-12 py-12">
         {/* Stats Grid */}
 
-        <div className="grid grid-cols-1 bg-white sm:grid-cols-2 lg:grid-cols-4 mb-8">
+        <div className="grid grid-cols-1 bg-white sm:grid-cols-2 lg:grid-cols-5 mb-8">
           <div className="border border-gray-200/50 px-4 py-6 sm:px-6 lg:px-8 lg:rounded-l-2xl sm:rounded-t-2xl lg:rounded-tr-none hover:shadow-2xl hover:shadow-sky-500/10 transition-all duration-300 hover:border-sky-300/50">
             <p className="text-sm/6 font-medium text-gray-500">Total Invoice</p>
             <p className="mt-2 flex items-baseline gap-x-2">
@@ -149,20 +182,59 @@ const DashboardPage: React.FC = () => {
 
           <div className="border border-gray-200/50 px-4 py-6 sm:px-6 lg:px-8 hover:shadow-2xl hover:shadow-sky-500/10 transition-all duration-300 hover:border-sky-300/50">
             <p className="text-sm/6 font-medium text-gray-500">Total Revenue</p>
-            <p className="mt-2 flex items-baseline gap-x-2">
-              <span className="text-2xl font-bold tracking-tight text-gray-900">
-                IDR {stats.totalAmount.toLocaleString()}
-              </span>
-            </p>
+            {currencies.length > 0 ? (
+              currencies.map((currency) => (
+                <p key={currency} className="mt-2 flex items-baseline gap-x-2">
+                  <span className="text-2xl font-bold tracking-tight text-gray-900">
+                    {formatMoney(totalsByCurrency[currency].total, currency)}
+                  </span>
+                </p>
+              ))
+            ) : (
+              <p className="mt-2 flex items-baseline gap-x-2">
+                <span className="text-2xl font-bold tracking-tight text-gray-900">
+                  {formatMoney(0)}
+                </span>
+              </p>
+            )}
           </div>
 
           <div className="border border-gray-200/50 px-4 py-6 sm:px-6 lg:px-8 hover:shadow-2xl hover:shadow-sky-500/10 transition-all duration-300 hover:border-sky-300/50">
             <p className="text-sm/6 font-medium text-gray-500">Paid Amount</p>
-            <p className="mt-2 flex items-baseline gap-x-2">
-              <span className="text-2xl font-bold tracking-tight text-gray-900">
-                IDR {stats.paidAmount.toLocaleString()}
-              </span>
-            </p>
+            {currencies.length > 0 ? (
+              currencies.map((currency) => (
+                <p key={currency} className="mt-2 flex items-baseline gap-x-2">
+                  <span className="text-2xl font-bold tracking-tight text-gray-900">
+                    {formatMoney(totalsByCurrency[currency].paid, currency)}
+                  </span>
+                </p>
+              ))
+            ) : (
+              <p className="mt-2 flex items-baseline gap-x-2">
+                <span className="text-2xl font-bold tracking-tight text-gray-900">
+                  {formatMoney(0)}
+                </span>
+              </p>
+            )}
+          </div>
+
+          <div className="border border-gray-200/50 px-4 py-6 sm:px-6 lg:px-8 hover:shadow-2xl hover:shadow-sky-500/10 transition-all duration-300 hover:border-sky-300/50">
+            <p className="text-sm/6 font-medium text-gray-500">Outstanding</p>
+            {currencies.length > 0 ? (
+              currencies.map((currency) => (
+                <p key={currency} className="mt-2 flex items-baseline gap-x-2">
+                  <span className="text-2xl font-bold tracking-tight text-gray-900">
+                    {formatMoney(totalsByCurrency[currency].outstanding, currency)}
+                  </span>
+                </p>
+              ))
+            ) : (
+              <p className="mt-2 flex items-baseline gap-x-2">
+                <span className="text-2xl font-bold tracking-tight text-gray-900">
+                  {formatMoney(0)}
+                </span>
+              </p>
+            )}
           </div>
 
           <div className="border border-gray-200/50 px-4 py-6 sm:px-6 lg:px-8 lg:rounded-r-2xl sm:rounded-b-2xl lg:rounded-bl-none hover:shadow-2xl hover:shadow-sky-500/10 transition-all duration-300 hover:border-sky-300/50">
@@ -175,6 +247,11 @@ const DashboardPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Receivables Aging */}
+        <div className="mb-8">
+          <ReceivablesAging invoices={allInvoices} />
+        </div>
+
         {/* Quick Actions */}
         <div className="mb-8">
           <h2 className="text-2xl font-bold text-primary-900 mb-8 tracking-tight">
@@ -309,90 +386,19 @@ const DashboardPage: React.FC = () => {
                         <td className="px-8 py-5 whitespace-nowrap">
                           <div className="flex items-center">
                             <div className="text-sm font-bold text-primary-900">
-                              IDR {(invoice.total || 0).toLocaleString()}
+                              {formatMoney(invoice.total || 0, invoice.currency)}
                             </div>
                           </div>
                         </td>
                         <td className="px-8 py-5 whitespace-nowrap">
                           <div className="relative">
-                            <Listbox
+                            <InvoiceStatusSelect
                               value={invoice.status}
                               onChange={(value) =>
                                 handleUpdateStatus(invoice, value)
                               }
                               disabled={updatingStatusIds.has(invoice.id)}
-                            >
-                              <div className="relative">
-                                <Listbox.Button
-                                  className={`inline-flex items-center px-3 py-2 text-xs font-bold rounded-full border cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed w-20 justify-between ${
-                                    invoice.status === "PAID"
-                                      ? "bg-emerald-100 text-emerald-800 border-emerald-200 hover:bg-emerald-200"
-                                      : invoice.status === "SENT"
-                                      ? "bg-sky-100 text-sky-800 border-sky-200 hover:bg-sky-200"
-                                      : "bg-primary-100 text-primary-800 border-primary-200 hover:bg-primary-200"
-                                  }`}
-                                  disabled={updatingStatusIds.has(invoice.id)}
-                                >
-                                  <span>
-                                    {invoice.status.charAt(0).toUpperCase() +
-                                      invoice.status.slice(1)}
-                                  </span>
-                                  <ChevronDown className="h-3 w-3 text-current transition-transform duration-200 ui-open:rotate-180" />
-                                </Listbox.Button>
-
-                                <Transition
-                                  as={Fragment}
-                                  leave="transition ease-in duration-100"
-                                  leaveFrom="opacity-100"
-                                  leaveTo="opacity-0"
-                                >
-                                  <Listbox.Options className="absolute z-[9999] w-24 mt-1 bg-white/95 backdrop-blur-sm border border-primary-200 rounded-xl shadow-2xl overflow-hidden right-0">
-                                    <Listbox.Option
-                                      value="DRAFT"
-                                      className={({ active, selected }) =>
-                                        `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold first:rounded-t-xl ${
-                                          active ? "bg-primary-50/80" : ""
-                                        } ${
-                                          selected
-                                            ? "bg-primary-100/60 text-primary-800"
-                                            : "text-primary-700"
-                                        }`
-                                      }
-                                    >
-                                      Draft
-                                    </Listbox.Option>
-                                    <Listbox.Option
-                                      value="SENT"
-                                      className={({ active, selected }) =>
-                                        `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold ${
-                                          active ? "bg-sky-50/80" : ""
-                                        } ${
-                                          selected
-                                            ? "bg-sky-100/60 text-sky-800"
-                                            : "text-sky-700"
-                                        }`
-                                      }
-                                    >
-                                      Sent
-                                    </Listbox.Option>
-                                    <Listbox.Option
-                                      value="PAID"
-                                      className={({ active, selected }) =>
-                                        `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold last:rounded-b-xl ${
-                                          active ? "bg-emerald-50/80" : ""
-                                        } ${
-                                          selected
-                                            ? "bg-emerald-100/60 text-emerald-800"
-                                            : "text-emerald-700"
-                                        }`
-                                      }
-                                    >
-                                      Paid
-                                    </Listbox.Option>
-                                  </Listbox.Options>
-                                </Transition>
-                              </div>
-                            </Listbox>
+                            />
                           </div>
                         </td>
                         <td className="px-8 py-5 whitespace-nowrap">
@@ -403,10 +409,11 @@ const DashboardPage: React.FC = () => {
                           </div>
                         </td>
                         <td className="px-8 py-5 whitespace-nowrap">
-                          <div className="flex items-center">
+                          <div className="flex flex-col items-start gap-1">
                             <div className="text-sm text-primary-700 font-medium">
                               {formatDate(invoice.due_date ?? "")}
                             </div>
+                            <OverdueBadge invoice={invoice} />
                           </div>
                         </td>
                         <td className="px-8 py-5 whitespace-nowrap text-right text-sm font-medium">
@@ -4,22 +4,36 @@ import { toast } from "react-toastify";
 import InvoiceForm from "../components/InvoiceForm.tsx";
 import InvoicePreview from "../components/InvoicePreview.tsx";
 import Navbar from "../components/Navbar.tsx";
+import { useAuth } from "../context/AuthContext.tsx";
 import { apiService } from "../utils/api.ts";
-import type { InvoiceFormData } from "../types/index.ts";
+import { DEFAULT_CURRENCY } from "../utils/currency.ts";
+import { renderInvoicePdf, shouldRenderLocally } from "../utils/pdf.ts";
+import { getFailureReason } from "../utils/bulk.ts";
+import {
+  DEFAULT_NUMBERING_SCHEME,
+  formatDocumentNumber,
+} from "../utils/numbering.ts";
+import {
+  calculateDueDate,
+  DEFAULT_PAYMENT_TERMS,
+} from "../utils/paymentTerms.ts";
+import type { InvoiceFormData, PdfRenderer } from "../types/index.ts";
 
 const HomePage: React.FC = () => {
+  const { branding } = useAuth();
   const [formData, setFormData] = useState<InvoiceFormData>({
     client_name: "",
     client_email: "",
     client_address: "",
     client_phone: "",
-    invoice_number: `INV-${new Date().getFullYear()}-${String(Date.now()).slice(
-      -6
-    )}`,
+    invoice_number: formatDocumentNumber(DEFAULT_NUMBERING_SCHEME),
     issue_date: new Date().toISOString().split("T")[0],
-    due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split("T")[0],
+    payment_terms: DEFAULT_PAYMENT_TERMS,
+    due_date: calculateDueDate(
+      new Date().toISOString().split("T")[0],
+      DEFAULT_PAYMENT_TERMS
+    ),
+    currency: DEFAULT_CURRENCY,
     tax_rate: 0,
     delivery_fee: 0,
     notes: "",
@@ -42,6 +56,7 @@ const HomePage: React.FC = () => {
   });
 
   const [isGenerating, setIsGenerating] = useState(false);
+  const [pdfRenderer, setPdfRenderer] = useState<PdfRenderer>("server");
 
   const handleFormChange = (data: InvoiceFormData) => {
     setFormData(data);
@@ -86,7 +101,20 @@ const HomePage: React.FC = () => {
         return;
       }
 
-      const blob = await apiService.generatePublicInvoice(formData);
+      let blob: Blob;
+      if (pdfRenderer === "browser") {
+        blob = renderInvoicePdf(formData, { branding });
+      } else {
+        try {
+          blob = await apiService.generatePublicInvoice(formData, branding);
+        } catch (error) {
+          if (!shouldRenderLocally(error)) throw error;
+          blob = renderInvoicePdf(formData, { branding });
+          toast.info(
+            "Server unavailable, the PDF was generated in your browser"
+          );
+        }
+      }
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -101,8 +129,8 @@ const HomePage: React.FC = () => {
       window.URL.revokeObjectURL(url);
 
       toast.success("Invoice generated successfully!");
-    } catch {
-      toast.error("Failed to generate invoice. Please try again.");
+    } catch (error) {
+      toast.error(`Failed to generate invoice: ${getFailureReason(error)}`);
     } finally {
       setIsGenerating(false);
     }
@@ -156,15 +184,16 @@ const HomePage: React.FC = () => {
                         client_email: "hello@acme.com",
                         client_address: "123 Business St",
                         client_phone: "+1 555-0123",
-                        invoice_number: `INV-${new Date().getFullYear()}-${String(
-                          Date.now()
-                        ).slice(-6)}`,
+                        invoice_number: formatDocumentNumber(
+                          DEFAULT_NUMBERING_SCHEME
+                        ),
                         issue_date: new Date().toISOString().split("T")[0],
                         due_date: new Date(
                           Date.now() + 30 * 24 * 60 * 60 * 1000
                         )
                           .toISOString()
                           .split("T")[0],
+                        currency: DEFAULT_CURRENCY,
                         tax_rate: 10,
                         delivery_fee: 0,
                         notes: "Thank you for your business!",
@@ -227,6 +256,25 @@ const HomePage: React.FC = () => {
 
                   {/* Generate PDF Button */}
                   <div className="mt-10 pt-10 border-t border-primary-200">
+                    <div className="flex items-center justify-between mb-6">
+                      <label
+                        htmlFor="pdf_renderer"
+                        className="text-sm font-semibold text-primary-700"
+                      >
+                        Generate PDF
+                      </label>
+                      <select
+                        id="pdf_renderer"
+                        value={pdfRenderer}
+                        onChange={(e) =>
+                          setPdfRenderer(e.target.value as PdfRenderer)
+                        }
+                        className="px-4 py-2 text-sm bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                      >
+                        <option value="server">On our server</option>
+                        <option value="browser">In your browser</option>
+                      </select>
+                    </div>
                     <button
                       onClick={handleGenerateInvoice}
                       disabled={isGenerating}
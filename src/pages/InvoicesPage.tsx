@@ -1,24 +1,107 @@
-import React, { useState, useEffect, Fragment } from "react";
-import { Link } from "react-router-dom";
+import React, { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import {
+  Bell,
+  CopyPlus,
   Search,
   Plus,
   Eye,
   Edit,
   Trash2,
   Download,
+  FileArchive,
+  FileSpreadsheet,
+  Upload,
   Filter,
-  ChevronDown,
+  Send,
 } from "lucide-react";
-import { Listbox, Transition } from "@headlessui/react";
 import { toast } from "react-toastify";
+import { format } from "date-fns";
+import JSZip from "jszip";
+import { useAuth } from "../context/AuthContext.tsx";
 import { apiService } from "../utils/api.ts";
-import type { Invoice } from "../types/index.ts";
-import { formatDate } from "../utils/helper.ts";
+import type {
+  Invoice,
+  InvoiceStatus,
+  SendInvoiceEmailData,
+} from "../types/index.ts";
+import {
+  convertInvoiceToFormData,
+  formatDate,
+  INVOICE_STATUS_LABELS,
+  isOverdue,
+} from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+import {
+  DEFAULT_EMAIL_BODY,
+  DEFAULT_EMAIL_SUBJECT,
+  fillEmailTemplate,
+  getEmailTemplateValues,
+} from "../utils/email.ts";
+import { canSendReminder } from "../utils/reminders.ts";
+import { runBulkAction } from "../utils/bulk.ts";
+import type { BulkFailure, BulkResult } from "../utils/bulk.ts";
 import Navbar from "../components/Navbar.tsx";
+import InvoiceStatusSelect from "../components/InvoiceStatusSelect.tsx";
+import OverdueBadge from "../components/OverdueBadge.tsx";
 import Pagination from "../components/Pagination.tsx";
+import SendInvoiceModal from "../components/SendInvoiceModal.tsx";
+import ExportModal from "../components/ExportModal.tsx";
+import ImportWizardModal from "../components/ImportWizardModal.tsx";
+import BulkResultModal from "../components/BulkResultModal.tsx";
+import {
+  downloadFile,
+  exportRows,
+  INVOICE_EXPORT_COLUMNS,
+  toInvoiceExportRows,
+} from "../utils/export.ts";
+import type { ExportOptions } from "../utils/export.ts";
+
+// Overdue is derived from due_date, so it is filtered client-side
+const filterOverdue = (invoices: Invoice[], searchTerm: string) => {
+  const term = searchTerm.toLowerCase();
+  return invoices.filter(
+    (invoice) =>
+      isOverdue(invoice) &&
+      (!term ||
+        invoice.invoice_number.toLowerCase().includes(term) ||
+        invoice.client_name.toLowerCase().includes(term))
+  );
+};
+
+const pluralizeInvoices = (count: number) =>
+  `${count} invoice${count === 1 ? "" : "s"}`;
+
+// Bulk actions that go through the confirmation dialog first
+type BulkConfirmAction = "delete" | "send" | "remind";
+
+const BULK_CONFIRM_DETAILS: Record<
+  BulkConfirmAction,
+  { title: string; button: string; message: (count: string) => string }
+> = {
+  delete: {
+    title: "Delete Invoices",
+    button: "Delete",
+    message: (count) =>
+      `Are you sure you want to delete ${count}? This action cannot be undone.`,
+  },
+  send: {
+    title: "Send Invoices",
+    button: "Send",
+    message: (count) =>
+      `Email ${count} to their clients with the default message and the PDF attached? Drafts will be marked as sent.`,
+  },
+  remind: {
+    title: "Send Reminders",
+    button: "Send",
+    message: (count) =>
+      `Send a payment reminder for ${count}? Only sent and partially paid invoices get reminders.`,
+  },
+};
 
 const InvoicesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, branding } = useAuth();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [downloadingIds, setDownloadingIds] = useState<Set<number>>(new Set());
@@ -27,7 +110,7 @@ const InvoicesPage: React.FC = () => {
   );
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<
-    "ALL" | "DRAFT" | "SENT" | "PAID" 
+    "ALL" | InvoiceStatus | "OVERDUE"
   >("ALL");
   const [deleteConfirm, setDeleteConfirm] = useState<{
     show: boolean;
@@ -36,6 +119,25 @@ const InvoicesPage: React.FC = () => {
     show: false,
     invoice: null,
   });
+  const [sendingInvoice, setSendingInvoice] = useState<Invoice | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  // Rows picked across pages, or every invoice matching the search and filter
+  const [selected, setSelected] = useState<Map<number, Invoice>>(new Map());
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [exportSelection, setExportSelection] = useState(false);
+  const [bulkConfirm, setBulkConfirm] = useState<BulkConfirmAction | null>(
+    null
+  );
+  const [bulkProgress, setBulkProgress] = useState<{
+    label: string;
+    done: number;
+    total: number;
+  } | null>(null);
+  const [bulkSummary, setBulkSummary] = useState<{
+    title: string;
+    failures: { label: string; reason: string }[];
+  } | null>(null);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -46,6 +148,19 @@ const InvoicesPage: React.FC = () => {
   const loadInvoices = React.useCallback(async () => {
     try {
       setLoading(true);
+
+      if (statusFilter === "OVERDUE") {
+        const matching = filterOverdue(
+          await apiService.getAllInvoices(),
+          searchTerm
+        );
+        const start = (currentPage - 1) * pageSize;
+        setInvoices(matching.slice(start, start + pageSize));
+        setTotalPages(Math.max(1, Math.ceil(matching.length / pageSize)));
+        setTotalItems(matching.length);
+        return;
+      }
+
       const params = {
         page: currentPage,
         page_size: pageSize,
@@ -80,11 +195,13 @@ const InvoicesPage: React.FC = () => {
   const handleSearchChange = (value: string) => {
     setSearchTerm(value);
     setCurrentPage(1); // Reset to first page when searching
+    clearSelection();
   };
 
   const handleStatusFilterChange = (status: string) => {
-    setStatusFilter(status as "ALL" | "DRAFT" | "SENT" | "PAID" );
+    setStatusFilter(status as "ALL" | InvoiceStatus | "OVERDUE");
     setCurrentPage(1); // Reset to first page when filtering
+    clearSelection();
   };
 
   const handleDeleteInvoice = async (invoice: Invoice) => {
@@ -99,10 +216,154 @@ const InvoicesPage: React.FC = () => {
     }
   };
 
+  const handleDuplicateInvoice = async (invoice: Invoice) => {
+    try {
+      // List rows may not carry every field, so copy from the full invoice
+      const source = await apiService.getInvoice(invoice.id);
+      navigate("/invoices/create", {
+        state: {
+          prefill: convertInvoiceToFormData(source),
+          duplicateOf: source.invoice_number,
+        },
+      });
+    } catch {
+      toast.error("Failed to duplicate invoice");
+    }
+  };
+
+  // Every invoice matching the current search and filter, not just this page
+  const fetchMatchingInvoices = async () => {
+    if (statusFilter === "OVERDUE") {
+      return filterOverdue(await apiService.getAllInvoices(), searchTerm);
+    }
+
+    const matching: Invoice[] = [];
+    for (let page = 1; ; page++) {
+      const result = await apiService.getInvoices({
+        page,
+        page_size: 100,
+        ...(searchTerm && { search: searchTerm }),
+        ...(statusFilter !== "ALL" && { status: statusFilter }),
+      });
+      matching.push(...result.data);
+      if (page >= result.pagination.total_pages) return matching;
+    }
+  };
+
+  const selectedCount = allMatchingSelected ? totalItems : selected.size;
+  const pageSelected =
+    invoices.length > 0 &&
+    invoices.every(
+      (invoice) => allMatchingSelected || selected.has(invoice.id)
+    );
+
+  const clearSelection = () => {
+    setSelected(new Map());
+    setAllMatchingSelected(false);
+  };
+
+  const handleToggleInvoice = (invoice: Invoice) => {
+    // Unticking a row narrows "all matching" down to the loaded page
+    const next = allMatchingSelected
+      ? new Map(invoices.map((row) => [row.id, row]))
+      : new Map(selected);
+    if (next.has(invoice.id)) {
+      next.delete(invoice.id);
+    } else {
+      next.set(invoice.id, invoice);
+    }
+    setAllMatchingSelected(false);
+    setSelected(next);
+  };
+
+  const handleTogglePage = () => {
+    const next = new Map(selected);
+    invoices.forEach((invoice) =>
+      pageSelected ? next.delete(invoice.id) : next.set(invoice.id, invoice)
+    );
+    setAllMatchingSelected(false);
+    setSelected(next);
+  };
+
+  const getSelectedInvoices = async () => {
+    return allMatchingSelected
+      ? await fetchMatchingInvoices()
+      : Array.from(selected.values());
+  };
+
+  const openExportModal = (selection: boolean) => {
+    setExportSelection(selection);
+    setShowExportModal(true);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    try {
+      let matching = exportSelection
+        ? await getSelectedInvoices()
+        : await fetchMatchingInvoices();
+      // List rows may not carry line items, so fetch those a few at a time
+      if (options.level === "item") {
+        const full: Invoice[] = [];
+        for (let i = 0; i < matching.length; i += 5) {
+          full.push(
+            ...(await Promise.all(
+              matching
+                .slice(i, i + 5)
+                .map((invoice) =>
+                  invoice.items?.length
+                    ? invoice
+                    : apiService.getInvoice(invoice.id)
+                )
+            ))
+          );
+        }
+        matching = full;
+      }
+
+      await exportRows(
+        toInvoiceExportRows(matching, options.level),
+        INVOICE_EXPORT_COLUMNS.filter((column) =>
+          options.columns.includes(column.key)
+        ),
+        options.format,
+        "invoices"
+      );
+      setShowExportModal(false);
+      toast.success(
+        `Exported ${matching.length} invoice${matching.length === 1 ? "" : "s"}`
+      );
+    } catch {
+      toast.error("Failed to export invoices");
+    }
+  };
+
+  const handleSendInvoice = async (data: SendInvoiceEmailData) => {
+    if (!sendingInvoice) return;
+
+    try {
+      await apiService.sendInvoiceEmail(sendingInvoice.id, data);
+      // A draft counts as sent once it has reached the client
+      if (sendingInvoice.status === "DRAFT") {
+        await apiService.updateInvoiceStatus(sendingInvoice.id, "SENT");
+        setInvoices((prev) =>
+          prev.map((invoice) =>
+            invoice.id === sendingInvoice.id
+              ? { ...invoice, status: "SENT" }
+              : invoice
+          )
+        );
+      }
+      setSendingInvoice(null);
+      toast.success("Invoice sent successfully");
+    } catch {
+      toast.error("Failed to send invoice");
+    }
+  };
+
   const handleDownloadInvoice = async (invoice: Invoice) => {
     try {
       setDownloadingIds((prev) => new Set(prev).add(invoice.id));
-      const blob = await apiService.downloadInvoice(invoice.id);
+      const blob = await apiService.downloadInvoice(invoice.id, branding);
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -126,13 +387,18 @@ const InvoicesPage: React.FC = () => {
     }
   };
 
-  const handleUpdateStatus = async (invoice: Invoice, newStatus: string) => {
+  const handleUpdateStatus = async (
+    invoice: Invoice,
+    newStatus: InvoiceStatus
+  ) => {
     if (newStatus === invoice.status) return; // No change needed
 
     try {
       setUpdatingStatusIds((prev) => new Set(prev).add(invoice.id));
       await apiService.updateInvoiceStatus(invoice.id, newStatus);
-      toast.success(`Invoice status updated to ${newStatus}`);
+      toast.success(
+        `Invoice status updated to ${INVOICE_STATUS_LABELS[newStatus]}`
+      );
       // Reload invoices to reflect the change
       await loadInvoices();
     } catch {
@@ -146,6 +412,148 @@ const InvoicesPage: React.FC = () => {
     }
   };
 
+  // Runs the action on every selected invoice and lists the ones that failed.
+  // `skip` returns why an invoice is left out, or null to include it
+  const runBulk = async (
+    label: string,
+    verb: string,
+    action: (invoice: Invoice) => Promise<unknown>,
+    skip: (invoice: Invoice) => string | null = () => null
+  ): Promise<BulkResult<Invoice> | null> => {
+    setBulkProgress({ label, done: 0, total: selectedCount });
+    try {
+      const targets = await getSelectedInvoices();
+      const skipped: BulkFailure<Invoice>[] = [];
+      const eligible = targets.filter((invoice) => {
+        const reason = skip(invoice);
+        if (reason) skipped.push({ item: invoice, reason });
+        return !reason;
+      });
+
+      setBulkProgress({ label, done: 0, total: eligible.length });
+      const result = await runBulkAction(eligible, action, (done) =>
+        setBulkProgress({ label, done, total: eligible.length })
+      );
+      const failures = [...skipped, ...result.failures];
+
+      if (failures.length === 0) {
+        toast.success(`${verb} ${pluralizeInvoices(result.succeeded.length)}`);
+      } else {
+        setBulkSummary({
+          title: `${verb} ${result.succeeded.length} of ${pluralizeInvoices(
+            targets.length
+          )}`,
+          failures: failures.map((failure) => ({
+            label: failure.item.invoice_number,
+            reason: failure.reason,
+          })),
+        });
+      }
+      return result;
+    } catch {
+      toast.error("Failed to load the selected invoices");
+      return null;
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleBulkStatus = async (status: InvoiceStatus) => {
+    await runBulk("Updating status", "Updated", async (invoice) => {
+      if (invoice.status !== status) {
+        await apiService.updateInvoiceStatus(invoice.id, status);
+      }
+    });
+    clearSelection();
+    await loadInvoices();
+  };
+
+  const handleBulkDownload = async () => {
+    const zip = new JSZip();
+    const result = await runBulk(
+      "Downloading",
+      "Downloaded",
+      async (invoice) => {
+        const blob = await apiService.downloadInvoice(invoice.id, branding);
+        // Slashes in invoice numbers would become folders inside the archive
+        zip.file(
+          `invoice-${invoice.invoice_number.replace(/[\\/]/g, "-")}.pdf`,
+          blob
+        );
+      }
+    );
+    if (!result?.succeeded.length) return;
+
+    try {
+      downloadFile(
+        await zip.generateAsync({ type: "blob" }),
+        `invoices-${format(new Date(), "yyyy-MM-dd")}.zip`
+      );
+    } catch {
+      toast.error("Failed to create ZIP file");
+    }
+  };
+
+  const handleBulkSend = async () => {
+    await runBulk(
+      "Sending",
+      "Sent",
+      async (invoice) => {
+        const values = getEmailTemplateValues(invoice, user);
+        await apiService.sendInvoiceEmail(invoice.id, {
+          to: [invoice.client_email!],
+          cc: [],
+          subject: fillEmailTemplate(DEFAULT_EMAIL_SUBJECT, values),
+          body: fillEmailTemplate(DEFAULT_EMAIL_BODY, values),
+          attach_pdf: true,
+          branding,
+        });
+        // A draft counts as sent once it has reached the client
+        if (invoice.status === "DRAFT") {
+          await apiService.updateInvoiceStatus(invoice.id, "SENT");
+        }
+      },
+      (invoice) => (invoice.client_email ? null : "Client has no email address")
+    );
+    clearSelection();
+    await loadInvoices();
+  };
+
+  const handleBulkRemind = async () => {
+    await runBulk(
+      "Sending reminders",
+      "Reminded",
+      async (invoice) => {
+        const log = await apiService.sendInvoiceReminder(invoice.id);
+        if (log.status === "FAILED") {
+          throw new Error(log.error || "Reminder could not be sent");
+        }
+      },
+      (invoice) =>
+        canSendReminder(invoice)
+          ? null
+          : `${
+              INVOICE_STATUS_LABELS[invoice.status]
+            } invoices do not get reminders`
+    );
+  };
+
+  const handleBulkDelete = async () => {
+    await runBulk("Deleting", "Deleted", (invoice) =>
+      apiService.deleteInvoice(invoice.id)
+    );
+    clearSelection();
+    await loadInvoices();
+  };
+
+  const handleBulkConfirm = async () => {
+    const action = bulkConfirm;
+    setBulkConfirm(null);
+    if (action === "delete") await handleBulkDelete();
+    if (action === "send") await handleBulkSend();
+    if (action === "remind") await handleBulkRemind();
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
@@ -173,13 +581,30 @@ const InvoicesPage: React.FC = () => {
                 Manage and track your invoices
               </p>
             </div>
-            <Link
-              to="/invoices/create"
-              className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
-            >
-              <Plus className="h-4 w-4 mr-3" />
-              Create Invoice
-            </Link>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <Upload className="h-4 w-4 mr-3" />
+                Import
+              </button>
+              <button
+                onClick={() => openExportModal(false)}
+                disabled={totalItems === 0}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-3" />
+                Export
+              </button>
+              <Link
+                to="/invoices/create"
+                className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+              >
+                <Plus className="h-4 w-4 mr-3" />
+                Create Invoice
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -210,14 +635,108 @@ const InvoicesPage: React.FC = () => {
                 className="block w-full pl-12 pr-4 text-sm py-4 bg-white/70 backdrop-blur-sm border border-primary-200/60 rounded-full focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500/50 transition-all duration-300 text-primary-900 appearance-none"
               >
                 <option value="ALL">All Status</option>
-                <option value="DRAFT">Draft</option>
-                <option value="SENT">Sent</option>
-                <option value="PAID">Paid</option>
+                {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(
+                  (status) => (
+                    <option key={status} value={status}>
+                      {INVOICE_STATUS_LABELS[status]}
+                    </option>
+                  )
+                )}
+                <option value="OVERDUE">Overdue</option>
               </select>
             </div>
           </div>
         </div>
 
+        {/* Bulk Actions */}
+        {selectedCount > 0 && invoices.length > 0 && (
+          <div className="mb-6 flex flex-wrap items-center gap-3 bg-white/70 backdrop-blur-sm border border-primary-200/50 rounded-3xl px-6 py-4 shadow-xl">
+            <span className="text-sm font-semibold text-primary-900">
+              {pluralizeInvoices(selectedCount)} selected
+            </span>
+            {pageSelected &&
+              !allMatchingSelected &&
+              totalItems > selected.size && (
+                <button
+                  onClick={() => setAllMatchingSelected(true)}
+                  disabled={bulkProgress !== null}
+                  className="text-sm font-semibold text-sky-600 hover:text-sky-800 disabled:opacity-50"
+                >
+                  Select all {totalItems} matching
+                </button>
+              )}
+            <button
+              onClick={clearSelection}
+              disabled={bulkProgress !== null}
+              className="text-sm font-semibold text-primary-500 hover:text-primary-700 disabled:opacity-50"
+            >
+              Clear
+            </button>
+            <div className="flex-1" />
+            {bulkProgress ? (
+              <span className="text-sm text-primary-600">
+                {bulkProgress.label}... {bulkProgress.done}/{bulkProgress.total}
+              </span>
+            ) : (
+              <>
+                <select
+                  value=""
+                  onChange={(e) =>
+                    handleBulkStatus(e.target.value as InvoiceStatus)
+                  }
+                  className="px-4 py-2 text-sm bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500/50"
+                >
+                  <option value="" disabled>
+                    Change status
+                  </option>
+                  {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(
+                    (status) => (
+                      <option key={status} value={status}>
+                        {INVOICE_STATUS_LABELS[status]}
+                      </option>
+                    )
+                  )}
+                </select>
+                <button
+                  onClick={handleBulkDownload}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <FileArchive className="h-4 w-4 mr-2" />
+                  Download ZIP
+                </button>
+                <button
+                  onClick={() => openExportModal(true)}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export
+                </button>
+                <button
+                  onClick={() => setBulkConfirm("send")}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  Send
+                </button>
+                <button
+                  onClick={() => setBulkConfirm("remind")}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <Bell className="h-4 w-4 mr-2" />
+                  Remind
+                </button>
+                <button
+                  onClick={() => setBulkConfirm("delete")}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-red-300 text-red-600 font-semibold rounded-full hover:bg-red-50 transition-all duration-300"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Invoices Grid */}
         {invoices.length === 0 ? (
           <div className="text-center py-20 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
@@ -247,6 +766,16 @@ const InvoicesPage: React.FC = () => {
               <table className="w-full min-w-full divide-y divide-primary-200/50">
                 <thead className="bg-gradient-to-r from-primary-50 to-sky-50/30">
                   <tr>
+                    <th className="pl-8 py-5 text-left">
+                      <input
+                        type="checkbox"
+                        checked={pageSelected}
+                        onChange={handleTogglePage}
+                        disabled={bulkProgress !== null}
+                        className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                        aria-label="Select all invoices on this page"
+                      />
+                    </th>
                     <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
                       Invoice
                     </th>
@@ -276,6 +805,18 @@ const InvoicesPage: React.FC = () => {
                       key={invoice.id}
                       className="hover:bg-sky-50/50 transition-colors duration-200"
                     >
+                      <td className="pl-8 py-5">
+                        <input
+                          type="checkbox"
+                          checked={
+                            allMatchingSelected || selected.has(invoice.id)
+                          }
+                          onChange={() => handleToggleInvoice(invoice)}
+                          disabled={bulkProgress !== null}
+                          className="h-4 w-4 rounded border-primary-300 text-sky-600 focus:ring-sky-500"
+                          aria-label={`Select invoice ${invoice.invoice_number}`}
+                        />
+                      </td>
                       <td className="px-8 py-5 whitespace-nowrap">
                         <div className="flex items-center">
                           <div>
@@ -295,90 +836,19 @@ const InvoicesPage: React.FC = () => {
                       <td className="px-8 py-5 whitespace-nowrap">
                         <div className="flex items-center">
                           <div className="text-sm font-bold text-primary-900">
-                            IDR {(invoice.total || 0).toLocaleString()}
+                            {formatMoney(invoice.total || 0, invoice.currency)}
                           </div>
                         </div>
                       </td>
                       <td className="px-8 py-5 whitespace-nowrap">
                         <div className="relative">
-                          <Listbox
+                          <InvoiceStatusSelect
                             value={invoice.status}
                             onChange={(value) =>
                               handleUpdateStatus(invoice, value)
                             }
                             disabled={updatingStatusIds.has(invoice.id)}
-                          >
-                            <div className="relative">
-                              <Listbox.Button
-                                className={`inline-flex items-center px-3 py-2 text-xs font-bold rounded-full border cursor-pointer transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed w-20 justify-between ${
-                                  invoice.status === "PAID"
-                                    ? "bg-emerald-100 text-emerald-800 border-emerald-200 hover:bg-emerald-200"
-                                    : invoice.status === "SENT"
-                                    ? "bg-sky-100 text-sky-800 border-sky-200 hover:bg-sky-200"
-                                    : "bg-primary-100 text-primary-800 border-primary-200 hover:bg-primary-200"
-                                }`}
-                                disabled={updatingStatusIds.has(invoice.id)}
-                              >
-                                <span>
-                                  {invoice.status.charAt(0).toUpperCase() +
-                                    invoice.status.slice(1)}
-                                </span>
-                                <ChevronDown className="h-3 w-3 text-current transition-transform duration-200 ui-open:rotate-180" />
-                              </Listbox.Button>
-
-                              <Transition
-                                as={Fragment}
-                                leave="transition ease-in duration-100"
-                                leaveFrom="opacity-100"
-                                leaveTo="opacity-0"
-                              >
-                                <Listbox.Options className="absolute z-50 w-24 mt-1 bg-white/95 backdrop-blur-sm border border-primary-200 rounded-xl shadow-xl overflow-hidden right-0">
-                                  <Listbox.Option
-                                    value="DRAFT"
-                                    className={({ active, selected }) =>
-                                      `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold first:rounded-t-xl ${
-                                        active ? "bg-primary-50/80" : ""
-                                      } ${
-                                        selected
-                                          ? "bg-primary-100/60 text-primary-800"
-                                          : "text-primary-700"
-                                      }`
-                                    }
-                                  >
-                                    Draft
-                                  </Listbox.Option>
-                                  <Listbox.Option
-                                    value="SENT"
-                                    className={({ active, selected }) =>
-                                      `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold ${
-                                        active ? "bg-sky-50/80" : ""
-                                      } ${
-                                        selected
-                                          ? "bg-sky-100/60 text-sky-800"
-                                          : "text-sky-700"
-                                      }`
-                                    }
-                                  >
-                                    Sent
-                                  </Listbox.Option>
-                                  <Listbox.Option
-                                    value="PAID"
-                                    className={({ active, selected }) =>
-                                      `relative cursor-pointer select-none py-2 px-3 transition-colors text-xs font-bold last:rounded-b-xl ${
-                                        active ? "bg-emerald-50/80" : ""
-                                      } ${
-                                        selected
-                                          ? "bg-emerald-100/60 text-emerald-800"
-                                          : "text-emerald-700"
-                                      }`
-                                    }
-                                  >
-                                    Paid
-                                  </Listbox.Option>
-                                </Listbox.Options>
-                              </Transition>
-                            </div>
-                          </Listbox>
+                          />
                         </div>
                       </td>
                       <td className="px-8 py-5 whitespace-nowrap">
@@ -389,10 +859,11 @@ const InvoicesPage: React.FC = () => {
                         </div>
                       </td>
                       <td className="px-8 py-5 whitespace-nowrap">
-                        <div className="flex items-center">
+                        <div className="flex flex-col items-start gap-1">
                           <div className="text-sm text-primary-700 font-medium">
                             {formatDate(invoice.due_date ?? "")}
                           </div>
+                          <OverdueBadge invoice={invoice} />
                         </div>
                       </td>
                       <td className="px-8 py-5 whitespace-nowrap text-right text-sm font-medium">
@@ -411,6 +882,20 @@ const InvoicesPage: React.FC = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Link>
+                          <button
+                            onClick={() => handleDuplicateInvoice(invoice)}
+                            className="text-amber-600 hover:text-amber-800 p-2 rounded-full hover:bg-amber-50 transition-colors duration-200"
+                            title="Duplicate Invoice"
+                          >
+                            <CopyPlus className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setSendingInvoice(invoice)}
+                            className="text-violet-600 hover:text-violet-800 p-2 rounded-full hover:bg-violet-50 transition-colors duration-200"
+                            title="Send Invoice"
+                          >
+                            <Send className="h-4 w-4" />
+                          </button>
                           <button
                             onClick={() => handleDownloadInvoice(invoice)}
                             disabled={downloadingIds.has(invoice.id)}
@@ -457,6 +942,100 @@ const InvoicesPage: React.FC = () => {
         )}
       </div>
 
+      {showExportModal && (
+        <ExportModal
+          title="Export Invoices"
+          description={
+            exportSelection
+              ? `${pluralizeInvoices(selectedCount)} selected.`
+              : `${pluralizeInvoices(
+                  totalItems
+                )} matching the current search and filter.`
+          }
+          columns={INVOICE_EXPORT_COLUMNS}
+          allowItemLevel
+          onClose={() => setShowExportModal(false)}
+          onSubmit={handleExport}
+        />
+      )}
+
+      {showImportModal && (
+        <ImportWizardModal
+          target="invoices"
+          onClose={() => setShowImportModal(false)}
+          onComplete={loadInvoices}
+        />
+      )}
+
+      {bulkSummary && (
+        <BulkResultModal
+          title={bulkSummary.title}
+          failures={bulkSummary.failures}
+          onClose={() => setBulkSummary(null)}
+        />
+      )}
+
+      {sendingInvoice && (
+        <SendInvoiceModal
+          invoice={sendingInvoice}
+          onClose={() => setSendingInvoice(null)}
+          onSubmit={handleSendInvoice}
+        />
+      )}
+
+      {/* Bulk Confirmation Modal */}
+      {bulkConfirm && (
+        <div className="fixed inset-0 bg-primary-600/50 backdrop-blur-sm overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-6 border-0 w-96 shadow-2xl rounded-3xl bg-white/95 backdrop-blur-sm">
+            <div className="mt-3 text-center">
+              <div
+                className={`mx-auto flex items-center justify-center h-16 w-16 rounded-2xl bg-gradient-to-br border ${
+                  bulkConfirm === "delete"
+                    ? "from-red-100 to-red-200 border-red-200/50"
+                    : "from-sky-100 to-sky-200 border-sky-200/50"
+                }`}
+              >
+                {bulkConfirm === "delete" ? (
+                  <Trash2 className="h-8 w-8 text-red-600" />
+                ) : bulkConfirm === "send" ? (
+                  <Send className="h-8 w-8 text-sky-600" />
+                ) : (
+                  <Bell className="h-8 w-8 text-sky-600" />
+                )}
+              </div>
+              <h3 className="text-xl font-bold text-primary-900 mt-6 mb-4">
+                {BULK_CONFIRM_DETAILS[bulkConfirm].title}
+              </h3>
+              <div className="mt-2 px-4 py-3">
+                <p className="text-primary-600 font-light leading-relaxed">
+                  {BULK_CONFIRM_DETAILS[bulkConfirm].message(
+                    pluralizeInvoices(selectedCount)
+                  )}
+                </p>
+              </div>
+              <div className="flex gap-4 px-4 py-6 mt-6">
+                <button
+                  onClick={() => setBulkConfirm(null)}
+                  className="flex-1 px-6 py-3 bg-white/70 backdrop-blur-sm text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300 border border-primary-200/50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleBulkConfirm}
+                  className={`flex-1 px-6 py-3 bg-gradient-to-r text-white font-semibold rounded-full transition-all duration-300 shadow-xl ${
+                    bulkConfirm === "delete"
+                      ? "from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 shadow-red-500/25"
+                      : "from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 shadow-sky-500/25"
+                  }`}
+                >
+                  {BULK_CONFIRM_DETAILS[bulkConfirm].button}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirm.show && deleteConfirm.invoice && (
         <div className="fixed inset-0 bg-primary-600/50 backdrop-blur-sm overflow-y-auto h-full w-full z-50">
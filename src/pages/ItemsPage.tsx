@@ -0,0 +1,498 @@
+import React, { useState, useEffect } from "react";
+import { Plus, Search, Edit, Trash2, X } from "lucide-react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import { formatMoney } from "../utils/currency.ts";
+import type { CatalogItem, TaxRate } from "../types/index.ts";
+import Navbar from "../components/Navbar.tsx";
+import Pagination from "../components/Pagination.tsx";
+
+const catalogItemSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+  unit_price: z
+    .number("Price is required")
+    .min(0, "Price cannot be negative"),
+  unit: z.string().optional(),
+  tax_rate_ids: z.array(z.number()),
+});
+
+type CatalogItemFormData = z.infer<typeof catalogItemSchema>;
+
+const ItemsPage: React.FC = () => {
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<CatalogItem | null>(null);
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [pageSize, setPageSize] = useState(10);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CatalogItemFormData>({
+    resolver: zodResolver(catalogItemSchema),
+  });
+
+  const loadItems = React.useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await apiService.getCatalogItems({
+        page: currentPage,
+        page_size: pageSize,
+        ...(searchTerm && { search: searchTerm }),
+      });
+      setItems(result.data);
+      setTotalPages(result.pagination.total_pages);
+      setTotalItems(result.pagination.total_items);
+      setPageSize(result.pagination.page_size);
+    } catch {
+      toast.error("Failed to load items");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, pageSize, searchTerm]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      loadItems();
+    }, 300); // Debounce search
+
+    return () => clearTimeout(timeoutId);
+  }, [loadItems]);
+
+  useEffect(() => {
+    apiService
+      .getTaxRates()
+      .then(setTaxRates)
+      .catch(() => setTaxRates([]));
+  }, []);
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1); // Reset to first page when searching
+  };
+
+  const openCreateModal = () => {
+    setEditingItem(null);
+    reset({
+      name: "",
+      description: "",
+      unit_price: 0,
+      unit: "",
+      tax_rate_ids: [],
+    });
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (item: CatalogItem) => {
+    setEditingItem(item);
+    reset({
+      name: item.name,
+      description: item.description || "",
+      unit_price: item.unit_price,
+      unit: item.unit || "",
+      tax_rate_ids: item.tax_rate_ids || [],
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    reset();
+  };
+
+  const onSubmit = async (data: CatalogItemFormData) => {
+    try {
+      const itemData = {
+        name: data.name,
+        description: data.description || undefined,
+        unit_price: data.unit_price,
+        unit: data.unit || undefined,
+        tax_rate_ids: data.tax_rate_ids,
+      };
+
+      if (editingItem) {
+        await apiService.updateCatalogItem(editingItem.id, itemData);
+        toast.success("Item updated successfully");
+      } else {
+        await apiService.createCatalogItem(itemData);
+        toast.success("Item created successfully");
+      }
+
+      await loadItems();
+      closeModal();
+    } catch {
+      toast.error("Failed to save item");
+    }
+  };
+
+  const handleDelete = async (item: CatalogItem) => {
+    try {
+      await apiService.deleteCatalogItem(item.id);
+      toast.success("Item deleted successfully");
+      setDeleteConfirm(null);
+      await loadItems();
+    } catch {
+      toast.error("Failed to delete item");
+    }
+  };
+
+  const getTaxNames = (item: CatalogItem) =>
+    taxRates
+      .filter((taxRate) => (item.tax_rate_ids || []).includes(taxRate.id))
+      .map((taxRate) => taxRate.name)
+      .join(", ");
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="mb-12">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-primary-900 mb-2 tracking-tight">
+                Items
+              </h1>
+              <p className="text-sm text-primary-600 font-light">
+                Products and services you bill regularly
+              </p>
+            </div>
+            <button
+              onClick={openCreateModal}
+              className="inline-flex items-center text-sm px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+            >
+              <Plus className="h-4 w-4 mr-3" />
+              Create Item
+            </button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-6 mb-10">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-primary-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-8 text-sm pr-4 py-4 bg-white/70 backdrop-blur-sm border border-primary-200/60 rounded-full focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500/50 transition-all duration-300 placeholder-primary-400 text-primary-900"
+              placeholder="Search items"
+              value={searchTerm}
+              onChange={(e) => handleSearchChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="text-center py-20 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
+            <h3 className="text-xl font-bold text-primary-900 mb-3">
+              {searchTerm ? "No items found" : "No items"}
+            </h3>
+            <p className="text-sm text-primary-600 font-light mb-8">
+              {searchTerm
+                ? "Try adjusting your search criteria."
+                : "Save the products and services you bill to reuse them on invoices."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white/70 backdrop-blur-sm border border-primary-200/50 rounded-3xl shadow-xl">
+            <div className="overflow-x-auto max-w-full">
+              <table className="w-full min-w-full divide-y divide-primary-200/50">
+                <thead className="bg-gradient-to-r from-primary-50 to-sky-50/30">
+                  <tr>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Price
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Unit
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Taxes
+                    </th>
+                    <th className="px-8 py-5 text-center text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white/50 backdrop-blur-sm divide-y divide-primary-200/30">
+                  {items.map((item) => (
+                    <tr
+                      key={item.id}
+                      className="hover:bg-sky-50/50 transition-colors duration-200"
+                    >
+                      <td className="px-8 py-5">
+                        <div className="text-sm font-semibold text-primary-900">
+                          {item.name}
+                        </div>
+                        {item.description && (
+                          <div className="text-xs text-primary-500 mt-1">
+                            {item.description}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm font-bold text-primary-900">
+                        {formatMoney(item.unit_price)}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm text-primary-700">
+                        {item.unit || "-"}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm text-primary-700">
+                        {getTaxNames(item) || "-"}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-3">
+                          <button
+                            onClick={() => openEditModal(item)}
+                            className="text-primary-600 hover:text-primary-800 p-2 rounded-full hover:bg-primary-50 transition-colors duration-200"
+                            title="Edit Item"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setDeleteConfirm(item)}
+                            className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                            title="Delete Item"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalItems}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              loading={isLoading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Item Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="flex items-center justify-between p-8 border-b border-primary-200/30">
+              <h3 className="text-xl font-bold text-primary-900">
+                {editingItem ? "Edit Item" : "Create New Item"}
+              </h3>
+              <button
+                onClick={closeModal}
+                className="text-primary-400 hover:text-primary-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="px-8 pb-8 pt-6">
+              <div className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="name"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    {...register("name")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    placeholder="Website maintenance"
+                  />
+                  {errors.name && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {errors.name.message}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="description"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Description
+                  </label>
+                  <textarea
+                    {...register("description")}
+                    rows={2}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none"
+                    placeholder="Text used on the invoice line"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor="unit_price"
+                      className="block text-sm font-semibold text-primary-700 mb-3"
+                    >
+                      Default Price
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      {...register("unit_price", { valueAsNumber: true })}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    />
+                    {errors.unit_price && (
+                      <p className="mt-2 text-sm text-red-600 font-medium">
+                        {errors.unit_price.message}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="unit"
+                      className="block text-sm font-semibold text-primary-700 mb-3"
+                    >
+                      Unit
+                    </label>
+                    <input
+                      type="text"
+                      {...register("unit")}
+                      className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                      placeholder="hrs"
+                    />
+                  </div>
+                </div>
+
+                {taxRates.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-semibold text-primary-700 mb-3">
+                      Taxes
+                    </label>
+                    <Controller
+                      control={control}
+                      name="tax_rate_ids"
+                      render={({ field }) => (
+                        <div className="flex flex-wrap gap-2">
+                          {taxRates.map((taxRate) => {
+                            const isSelected = field.value.includes(taxRate.id);
+                            return (
+                              <button
+                                key={taxRate.id}
+                                type="button"
+                                onClick={() =>
+                                  field.onChange(
+                                    isSelected
+                                      ? field.value.filter(
+                                          (id) => id !== taxRate.id
+                                        )
+                                      : [...field.value, taxRate.id]
+                                  )
+                                }
+                                className={`px-4 py-2 text-xs font-semibold rounded-full border transition-all duration-200 ${
+                                  isSelected
+                                    ? "bg-sky-100 text-sky-800 border-sky-300"
+                                    : "bg-white/80 text-primary-600 border-primary-200 hover:bg-primary-50"
+                                }`}
+                              >
+                                {taxRate.name} ({taxRate.rate}%)
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-end space-x-4 mt-8">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-8 py-3 text-sm font-semibold text-white bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  {isSubmitting ? "Saving..." : editingItem ? "Update" : "Create"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="p-8">
+              <h3 className="text-xl font-bold text-primary-900 mb-4">
+                Delete Item
+              </h3>
+              <p className="text-primary-600 mb-8 leading-relaxed">
+                Are you sure you want to delete{" "}
+                <strong className="text-primary-900">
+                  {deleteConfirm.name}
+                </strong>
+                ? Existing invoices are not affected.
+              </p>
+              <div className="flex items-center justify-end space-x-4">
+                <button
+                  onClick={() => setDeleteConfirm(null)}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDelete(deleteConfirm)}
+                  className="px-6 py-3 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-full transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemsPage;
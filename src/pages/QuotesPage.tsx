@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  Search,
+  Plus,
+  Eye,
+  Edit,
+  Trash2,
+  Filter,
+  FileCheck,
+} from "lucide-react";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import type { Quote, QuoteStatus } from "../types/index.ts";
+import {
+  convertQuoteToFormData,
+  formatDate,
+  QUOTE_STATUS_LABELS,
+} from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+import Navbar from "../components/Navbar.tsx";
+import Pagination from "../components/Pagination.tsx";
+import QuoteStatusBadge from "../components/QuoteStatusBadge.tsx";
+
+const QuotesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"ALL" | QuoteStatus>("ALL");
+  const [deleteConfirm, setDeleteConfirm] = useState<Quote | null>(null);
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [pageSize, setPageSize] = useState(10);
+
+  const loadQuotes = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await apiService.getQuotes({
+        page: currentPage,
+        page_size: pageSize,
+        ...(searchTerm && { search: searchTerm }),
+        ...(statusFilter !== "ALL" && { status: statusFilter }),
+      });
+      setQuotes(result.data);
+      setTotalPages(result.pagination.total_pages);
+      setTotalItems(result.pagination.total_items);
+      setPageSize(result.pagination.page_size);
+    } catch {
+      toast.error("Failed to load quotes");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, pageSize, searchTerm, statusFilter]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      loadQuotes();
+    }, 300); // Debounce search
+
+    return () => clearTimeout(timeoutId);
+  }, [loadQuotes]);
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1);
+  };
+
+  const handleStatusFilterChange = (status: string) => {
+    setStatusFilter(status as "ALL" | QuoteStatus);
+    setCurrentPage(1);
+  };
+
+  const handleConvert = (quote: Quote) => {
+    navigate("/invoices/create", {
+      state: { prefill: convertQuoteToFormData(quote), quoteId: quote.id },
+    });
+  };
+
+  const handleDeleteQuote = async (quote: Quote) => {
+    try {
+      await apiService.deleteQuote(quote.id);
+      setDeleteConfirm(null);
+      toast.success("Quote deleted successfully");
+      await loadQuotes();
+    } catch {
+      toast.error("Failed to delete quote");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-12 py-12">
+        {/* Header */}
+        <div className="mb-12">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-primary-900 mb-2 tracking-tight">
+                Quotes
+              </h1>
+              <p className="text-sm text-primary-600 font-light">
+                Send estimates and turn accepted ones into invoices
+              </p>
+            </div>
+            <Link
+              to="/quotes/create"
+              className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+            >
+              <Plus className="h-4 w-4 mr-3" />
+              Create Quote
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters and Search */}
+        <div className="mb-10 flex flex-col sm:flex-row gap-6">
+          <div className="flex-1">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-primary-400" />
+              </div>
+              <input
+                type="text"
+                className="block w-full pl-8 text-sm pr-4 py-4 bg-white/70 backdrop-blur-sm border border-primary-200/60 rounded-full focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500/50 transition-all duration-300 placeholder-primary-400 text-primary-900"
+                placeholder="Search quotes"
+                value={searchTerm}
+                onChange={(e) => handleSearchChange(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="sm:w-56">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                <Filter className="h-5 w-5 text-primary-400" />
+              </div>
+              <select
+                value={statusFilter}
+                onChange={(e) => handleStatusFilterChange(e.target.value)}
+                className="block w-full pl-12 pr-4 text-sm py-4 bg-white/70 backdrop-blur-sm border border-primary-200/60 rounded-full focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500/50 transition-all duration-300 text-primary-900 appearance-none"
+              >
+                <option value="ALL">All Status</option>
+                {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(
+                  (status) => (
+                    <option key={status} value={status}>
+                      {QUOTE_STATUS_LABELS[status]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {quotes.length === 0 ? (
+          <div className="text-center py-20 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
+            <h3 className="text-xl font-bold text-primary-900 mb-3">
+              No quotes
+            </h3>
+            <p className="text-sm text-primary-600 font-light mb-8">
+              {searchTerm || statusFilter !== "ALL"
+                ? "No quotes match your search criteria."
+                : "Get started by creating your first quote."}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white/70 backdrop-blur-sm border border-primary-200/50 rounded-3xl shadow-xl">
+            <div className="overflow-x-auto overflow-y-visible max-w-full">
+              <table className="w-full min-w-full divide-y divide-primary-200/50">
+                <thead className="bg-gradient-to-r from-primary-50 to-sky-50/30">
+                  <tr>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Quote
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Client
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Amount
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Valid Until
+                    </th>
+                    <th className="px-8 py-5 text-center text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white/50 backdrop-blur-sm divide-y divide-primary-200/30">
+                  {quotes.map((quote) => (
+                    <tr
+                      key={quote.id}
+                      className="hover:bg-sky-50/50 transition-colors duration-200"
+                    >
+                      <td className="px-8 py-5 whitespace-nowrap text-sm font-semibold text-primary-900">
+                        {quote.quote_number}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm text-primary-800 font-medium">
+                        {quote.client_name}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm font-bold text-primary-900">
+                        {formatMoney(quote.total || 0, quote.currency)}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <QuoteStatusBadge status={quote.status} />
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-sm text-primary-700 font-medium">
+                        {formatDate(quote.valid_until)}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-3">
+                          <Link
+                            to={`/quotes/${quote.id}`}
+                            className="text-sky-600 hover:text-sky-800 p-2 rounded-full hover:bg-sky-50 transition-colors duration-200"
+                            title="View Quote"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                          <Link
+                            to={`/quotes/edit/${quote.id}`}
+                            className="text-primary-600 hover:text-primary-800 p-2 rounded-full hover:bg-primary-50 transition-colors duration-200"
+                            title="Edit Quote"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Link>
+                          <button
+                            onClick={() => handleConvert(quote)}
+                            disabled={
+                              quote.status === "DECLINED" ||
+                              Boolean(quote.converted_invoice_id)
+                            }
+                            className="text-emerald-600 hover:text-emerald-800 p-2 rounded-full hover:bg-emerald-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                            title="Convert to Invoice"
+                          >
+                            <FileCheck className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setDeleteConfirm(quote)}
+                            className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                            title="Delete Quote"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalItems}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              loading={loading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-primary-600/50 backdrop-blur-sm overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-6 border-0 w-96 shadow-2xl rounded-3xl bg-white/95 backdrop-blur-sm">
+            <div className="mt-3 text-center">
+              <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-2xl bg-gradient-to-br from-red-100 to-red-200 border border-red-200/50">
+                <Trash2 className="h-8 w-8 text-red-600" />
+              </div>
+              <h3 className="text-xl font-bold text-primary-900 mt-6 mb-4">
+                Delete Quote
+              </h3>
+              <div className="mt-2 px-4 py-3">
+                <p className="text-primary-600 font-light leading-relaxed">
+                  Are you sure you want to delete quote{" "}
+                  <strong className="font-semibold text-primary-900">
+                    {deleteConfirm.quote_number}
+                  </strong>
+                  ? This action cannot be undone.
+                </p>
+              </div>
+              <div className="flex gap-4 px-4 py-6 mt-6">
+                <button
+                  onClick={() => setDeleteConfirm(null)}
+                  className="flex-1 px-6 py-3 bg-white/70 backdrop-blur-sm text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300 border border-primary-200/50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDeleteQuote(deleteConfirm)}
+                  className="flex-1 px-6 py-3 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-red-500/25"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotesPage;
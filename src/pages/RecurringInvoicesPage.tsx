@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Edit, Trash2, Pause, Play, Repeat } from "lucide-react";
+import { toast } from "react-toastify";
+import { apiService } from "../utils/api.ts";
+import type { RecurringSchedule } from "../types/index.ts";
+import { formatDate, RECURRING_FREQUENCY_LABELS } from "../utils/helper.ts";
+import { formatMoney } from "../utils/currency.ts";
+import { calculateInvoiceTotals } from "../utils/calculation.ts";
+import Navbar from "../components/Navbar.tsx";
+import Pagination from "../components/Pagination.tsx";
+import RecurringScheduleModal from "../components/RecurringScheduleModal.tsx";
+import type { RecurringScheduleValues } from "../components/RecurringScheduleModal.tsx";
+
+const RecurringInvoicesPage: React.FC = () => {
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingIds, setUpdatingIds] = useState<Set<number>>(new Set());
+  const [editingSchedule, setEditingSchedule] =
+    useState<RecurringSchedule | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<RecurringSchedule | null>(
+    null
+  );
+
+  // Pagination state
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [pageSize, setPageSize] = useState(10);
+
+  const loadSchedules = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await apiService.getRecurringSchedules({
+        page: currentPage,
+        page_size: pageSize,
+      });
+      setSchedules(result.data);
+      setTotalPages(result.pagination.total_pages);
+      setTotalItems(result.pagination.total_items);
+      setPageSize(result.pagination.page_size);
+    } catch {
+      toast.error("Failed to load recurring schedules");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, pageSize]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const handleToggleActive = async (schedule: RecurringSchedule) => {
+    try {
+      setUpdatingIds((prev) => new Set(prev).add(schedule.id));
+      await apiService.updateRecurringSchedule(schedule.id, {
+        is_active: !schedule.is_active,
+      });
+      toast.success(
+        schedule.is_active ? "Schedule paused" : "Schedule resumed"
+      );
+      await loadSchedules();
+    } catch {
+      toast.error("Failed to update schedule");
+    } finally {
+      setUpdatingIds((prev) => {
+        const newSet = new Set(prev);
+        newSet.delete(schedule.id);
+        return newSet;
+      });
+    }
+  };
+
+  const handleUpdateSchedule = async (values: RecurringScheduleValues) => {
+    if (!editingSchedule) return;
+
+    try {
+      await apiService.updateRecurringSchedule(editingSchedule.id, {
+        ...values,
+        end_date: values.end_date || undefined,
+      });
+      setEditingSchedule(null);
+      toast.success("Schedule updated successfully");
+      await loadSchedules();
+    } catch {
+      toast.error("Failed to update schedule");
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: RecurringSchedule) => {
+    try {
+      await apiService.deleteRecurringSchedule(schedule.id);
+      setDeleteConfirm(null);
+      toast.success("Schedule deleted successfully");
+      await loadSchedules();
+    } catch {
+      toast.error("Failed to delete schedule");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+      <Navbar />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-12 py-12">
+        {/* Header */}
+        <div className="mb-12">
+          <h1 className="text-3xl font-bold text-primary-900 mb-2 tracking-tight">
+            Recurring Invoices
+          </h1>
+          <p className="text-sm text-primary-600 font-light">
+            Invoices generated automatically on a schedule
+          </p>
+        </div>
+
+        {schedules.length === 0 ? (
+          <div className="text-center py-20 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
+            <h3 className="text-xl font-bold text-primary-900 mb-3">
+              No recurring schedules
+            </h3>
+            <p className="text-sm text-primary-600 font-light mb-8">
+              Open an invoice and choose "Make recurring" to bill it on a
+              schedule.
+            </p>
+            <div>
+              <Link
+                to="/invoices"
+                className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+              >
+                <Repeat className="h-4 w-4 mr-3" />
+                Go to Invoices
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white/70 backdrop-blur-sm border border-primary-200/50 rounded-3xl shadow-xl">
+            <div className="overflow-x-auto overflow-y-visible max-w-full">
+              <table className="w-full min-w-full divide-y divide-primary-200/50">
+                <thead className="bg-gradient-to-r from-primary-50 to-sky-50/30">
+                  <tr>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Client
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Amount
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Frequency
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Next Run
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Ends
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Mode
+                    </th>
+                    <th className="px-8 py-5 text-left text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-8 py-5 text-center text-xs font-bold text-primary-700 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white/50 backdrop-blur-sm divide-y divide-primary-200/30">
+                  {schedules.map((schedule) => (
+                    <tr
+                      key={schedule.id}
+                      className="hover:bg-sky-50/50 transition-colors duration-200"
+                    >
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm font-semibold text-primary-900">
+                          {schedule.client_name}
+                        </div>
+                        {schedule.source_invoice_id && (
+                          <Link
+                            to={`/invoices/${schedule.source_invoice_id}`}
+                            className="text-xs text-sky-600 hover:text-sky-800"
+                          >
+                            View source invoice
+                          </Link>
+                        )}
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm font-bold text-primary-900">
+                          {formatMoney(
+                            calculateInvoiceTotals(schedule).total,
+                            schedule.currency
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm text-primary-700 font-medium">
+                          {RECURRING_FREQUENCY_LABELS[schedule.frequency]}
+                        </div>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm text-primary-700 font-medium">
+                          {schedule.is_active
+                            ? formatDate(schedule.next_run_date)
+                            : "-"}
+                        </div>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm text-primary-700 font-medium">
+                          {schedule.end_date
+                            ? formatDate(schedule.end_date)
+                            : "Never"}
+                        </div>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <div className="text-sm text-primary-700 font-medium">
+                          {schedule.auto_send ? "Auto-send" : "Draft"}
+                        </div>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap">
+                        <span
+                          className={`inline-flex items-center px-3 py-1 text-xs font-bold rounded-full border ${
+                            schedule.is_active
+                              ? "bg-emerald-100 text-emerald-800 border-emerald-200"
+                              : "bg-primary-100 text-primary-800 border-primary-200"
+                          }`}
+                        >
+                          {schedule.is_active ? "Active" : "Paused"}
+                        </span>
+                      </td>
+                      <td className="px-8 py-5 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-3">
+                          <button
+                            onClick={() => handleToggleActive(schedule)}
+                            disabled={updatingIds.has(schedule.id)}
+                            className="text-sky-600 hover:text-sky-800 p-2 rounded-full hover:bg-sky-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                            title={
+                              schedule.is_active
+                                ? "Pause Schedule"
+                                : "Resume Schedule"
+                            }
+                          >
+                            {schedule.is_active ? (
+                              <Pause className="h-4 w-4" />
+                            ) : (
+                              <Play className="h-4 w-4" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => setEditingSchedule(schedule)}
+                            className="text-primary-600 hover:text-primary-800 p-2 rounded-full hover:bg-primary-50 transition-colors duration-200"
+                            title="Edit Schedule"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setDeleteConfirm(schedule)}
+                            className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                            title="Delete Schedule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalItems}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              loading={loading}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Edit Schedule Modal */}
+      {editingSchedule && (
+        <RecurringScheduleModal
+          title="Edit Schedule"
+          submitLabel="Update"
+          initialValues={{
+            frequency: editingSchedule.frequency,
+            start_date: editingSchedule.start_date.split("T")[0],
+            end_date: editingSchedule.end_date?.split("T")[0] || "",
+            auto_send: editingSchedule.auto_send,
+          }}
+          onClose={() => setEditingSchedule(null)}
+          onSubmit={handleUpdateSchedule}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="p-8">
+              <h3 className="text-xl font-bold text-primary-900 mb-4">
+                Delete Schedule
+              </h3>
+              <p className="text-primary-600 mb-8 leading-relaxed">
+                Stop billing{" "}
+                <strong className="text-primary-900">
+                  {deleteConfirm.client_name}
+                </strong>{" "}
+                on this schedule? Invoices already generated are kept.
+              </p>
+              <div className="flex items-center justify-end space-x-4">
+                <button
+                  onClick={() => setDeleteConfirm(null)}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDeleteSchedule(deleteConfirm)}
+                  className="px-6 py-3 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-full transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringInvoicesPage;
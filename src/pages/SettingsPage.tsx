@@ -2,9 +2,13 @@ import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   User as UserIcon,
+  Bell,
   Building,
   CreditCard,
   Eye,
+  FileText,
+  Palette,
+  Percent,
   EyeOff,
   Lock,
   AlertTriangle,
@@ -16,19 +20,36 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "react-toastify";
 import { useAuth } from "../context/AuthContext.tsx";
+import { isValidQrisPayload } from "../utils/paymentQr.ts";
+import { COUNTRY_OPTIONS } from "../utils/countries.ts";
 import Navbar from "../components/Navbar.tsx";
+import NumberingSettings from "../components/NumberingSettings.tsx";
+import PaymentTermsSettings from "../components/PaymentTermsSettings.tsx";
+import LateFeesSettings from "../components/LateFeesSettings.tsx";
+import TaxRatesSettings from "../components/TaxRatesSettings.tsx";
+import BrandingSettings from "../components/BrandingSettings.tsx";
+import RemindersSettings from "../components/RemindersSettings.tsx";
 
 const profileSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email address"),
   address: z.string().min(1, "Address is required"),
   phone: z.string().min(1, "Phone number is required"),
+  country_code: z.string(),
+  tax_id: z.string(),
 });
 
 const bankingSchema = z.object({
   bank_name: z.string().min(1, "Bank name is required"),
   bank_account_name: z.string().min(1, "Account name is required"),
   bank_account_number: z.string().min(1, "Account number is required"),
+  bank_bic: z.string().max(11, "BIC must be at most 11 characters").optional(),
+  qris_payload: z
+    .string()
+    .refine((value) => !value || isValidQrisPayload(value), {
+      message: "This is not a valid QRIS code",
+    })
+    .optional(),
 });
 
 const passwordSchema = z
@@ -58,7 +79,14 @@ const SettingsPage: React.FC = () => {
   } = useAuth();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<
-    "profile" | "banking" | "password" | "account"
+    | "profile"
+    | "banking"
+    | "invoicing"
+    | "taxes"
+    | "branding"
+    | "reminders"
+    | "password"
+    | "account"
   >("profile");
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
@@ -72,6 +100,8 @@ const SettingsPage: React.FC = () => {
       email: user?.email || "",
       address: user?.address || "",
       phone: user?.phone || "",
+      country_code: user?.country_code || "",
+      tax_id: user?.tax_id || "",
     },
   });
 
@@ -81,6 +111,8 @@ const SettingsPage: React.FC = () => {
       bank_name: user?.bank_name || "",
       bank_account_name: user?.bank_account_name || "",
       bank_account_number: user?.bank_account_number || "",
+      bank_bic: user?.bank_bic || "",
+      qris_payload: user?.qris_payload || "",
     },
   });
 
@@ -95,11 +127,15 @@ const SettingsPage: React.FC = () => {
         email: user.email,
         address: user.address,
         phone: user.phone,
+        country_code: user.country_code || "",
+        tax_id: user.tax_id || "",
       });
       bankingForm.reset({
         bank_name: user.bank_name,
         bank_account_name: user.bank_account_name,
         bank_account_number: user.bank_account_number,
+        bank_bic: user.bank_bic || "",
+        qris_payload: user.qris_payload || "",
       });
     }
   }, [user, profileForm, bankingForm]);
@@ -198,6 +234,50 @@ const SettingsPage: React.FC = () => {
               <CreditCard className="h-5 w-5 inline mr-2" />
               Banking
             </button>
+            <button
+              onClick={() => setActiveTab("invoicing")}
+              className={`py-3 px-1 border-b-2 font-semibold text-sm transition-all duration-300 ${
+                activeTab === "invoicing"
+                  ? "border-accent-500 text-accent-600"
+                  : "border-transparent text-primary-500 hover:text-primary-700 hover:border-primary-300"
+              }`}
+            >
+              <FileText className="h-5 w-5 inline mr-2" />
+              Invoicing
+            </button>
+            <button
+              onClick={() => setActiveTab("taxes")}
+              className={`py-3 px-1 border-b-2 font-semibold text-sm transition-all duration-300 ${
+                activeTab === "taxes"
+                  ? "border-accent-500 text-accent-600"
+                  : "border-transparent text-primary-500 hover:text-primary-700 hover:border-primary-300"
+              }`}
+            >
+              <Percent className="h-5 w-5 inline mr-2" />
+              Taxes
+            </button>
+            <button
+              onClick={() => setActiveTab("branding")}
+              className={`py-3 px-1 border-b-2 font-semibold text-sm transition-all duration-300 ${
+                activeTab === "branding"
+                  ? "border-accent-500 text-accent-600"
+                  : "border-transparent text-primary-500 hover:text-primary-700 hover:border-primary-300"
+              }`}
+            >
+              <Palette className="h-5 w-5 inline mr-2" />
+              Branding
+            </button>
+            <button
+              onClick={() => setActiveTab("reminders")}
+              className={`py-3 px-1 border-b-2 font-semibold text-sm transition-all duration-300 ${
+                activeTab === "reminders"
+                  ? "border-accent-500 text-accent-600"
+                  : "border-transparent text-primary-500 hover:text-primary-700 hover:border-primary-300"
+              }`}
+            >
+              <Bell className="h-5 w-5 inline mr-2" />
+              Reminders
+            </button>
             <button
               onClick={() => setActiveTab("password")}
               className={`py-3 px-1 border-b-2 font-semibold text-sm transition-all duration-300 ${
@@ -299,6 +379,42 @@ const SettingsPage: React.FC = () => {
                   )}
                 </div>
 
+                <div>
+                  <label
+                    htmlFor="country_code"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    Country
+                  </label>
+                  <select
+                    id="country_code"
+                    {...profileForm.register("country_code")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 text-primary-900 shadow-sm"
+                  >
+                    <option value="">Not set</option>
+                    {COUNTRY_OPTIONS.map((country) => (
+                      <option key={country.code} value={country.code}>
+                        {country.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="tax_id"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    VAT / Tax ID
+                  </label>
+                  <input
+                    id="tax_id"
+                    {...profileForm.register("tax_id")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    placeholder="DE123456789"
+                  />
+                </div>
+
                 <div className="md:col-span-2">
                   <label
                     htmlFor="address"
@@ -402,7 +518,7 @@ const SettingsPage: React.FC = () => {
                     type="text"
                     {...bankingForm.register("bank_account_number")}
                     className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
-                    placeholder="Account number"
+                    placeholder="Account number or IBAN"
                   />
                   {bankingForm.formState.errors.bank_account_number && (
                     <p className="mt-2 text-sm text-red-600 font-medium">
@@ -410,6 +526,52 @@ const SettingsPage: React.FC = () => {
                     </p>
                   )}
                 </div>
+
+                <div>
+                  <label
+                    htmlFor="bank_bic"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    BIC / SWIFT
+                  </label>
+                  <input
+                    type="text"
+                    {...bankingForm.register("bank_bic")}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm"
+                    placeholder="Optional"
+                  />
+                  {bankingForm.formState.errors.bank_bic && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {bankingForm.formState.errors.bank_bic.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="md:col-span-2">
+                  <label
+                    htmlFor="qris_payload"
+                    className="block text-sm font-semibold text-primary-700 mb-3"
+                  >
+                    QRIS Code
+                  </label>
+                  <textarea
+                    {...bankingForm.register("qris_payload")}
+                    rows={3}
+                    className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-2xl focus:ring-2 focus:ring-sky-500/40 focus:border-sky-500 transition-all duration-200 placeholder-primary-400 text-primary-900 shadow-sm resize-none font-mono text-xs"
+                    placeholder="00020101021126..."
+                  />
+                  {bankingForm.formState.errors.qris_payload && (
+                    <p className="mt-2 text-sm text-red-600 font-medium">
+                      {bankingForm.formState.errors.qris_payload.message}
+                    </p>
+                  )}
+                  <p className="mt-2 text-xs text-primary-500">
+                    The text inside your static merchant QRIS. Rupiah invoices
+                    get a QRIS code with the amount filled in; euro invoices
+                    get a SEPA transfer code when the account number is an
+                    IBAN.
+                  </p>
+                </div>
               </div>
 
               <div className="bg-accent-50/60 border border-accent-200/60 rounded-2xl p-6 mt-8">
@@ -447,6 +609,26 @@ const SettingsPage: React.FC = () => {
           </div>
         )}
 
+        {/* Invoicing Tab */}
+        {activeTab === "invoicing" && (
+          <div className="space-y-8">
+            <NumberingSettings />
+            <NumberingSettings document="quote" />
+            <NumberingSettings document="credit_note" />
+            <PaymentTermsSettings />
+            <LateFeesSettings />
+          </div>
+        )}
+
+        {/* Taxes Tab */}
+        {activeTab === "taxes" && <TaxRatesSettings />}
+
+        {/* Branding Tab */}
+        {activeTab === "branding" && <BrandingSettings />}
+
+        {/* Reminders Tab */}
+        {activeTab === "reminders" && <RemindersSettings />}
+
         {/* Password Tab */}
         {activeTab === "password" && (
           <div className="bg-white/70 backdrop-blur-sm rounded-xl shadow-xl border border-white/20">
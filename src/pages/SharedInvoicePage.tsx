@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Download, FileX } from "lucide-react";
+import { toast } from "react-toastify";
+import { useAuth } from "../context/AuthContext.tsx";
+import { apiService } from "../utils/api.ts";
+import { renderInvoicePdf, shouldRenderLocally } from "../utils/pdf.ts";
+import { getFailureReason } from "../utils/bulk.ts";
+import { DEFAULT_BRANDING } from "../utils/branding.ts";
+import { convertInvoiceToFormData } from "../utils/helper.ts";
+import InvoicePreview from "../components/InvoicePreview.tsx";
+import type { SharedInvoice } from "../types/index.ts";
+
+const SharedInvoicePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const [shared, setShared] = useState<SharedInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!token || authLoading) return;
+
+    const loadSharedInvoice = async () => {
+      try {
+        const data = await apiService.getSharedInvoice(token);
+        setShared(data);
+        // Only the client's visits count, not the issuer checking the link
+        if (data.sender.id !== userId) {
+          apiService.recordSharedInvoiceView(token).catch(() => undefined);
+        }
+      } catch {
+        setShared(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedInvoice();
+  }, [token, userId, authLoading]);
+
+  const handleDownload = async () => {
+    if (!token || !shared) return;
+
+    try {
+      setDownloading(true);
+      let blob: Blob;
+      try {
+        blob = await apiService.downloadSharedInvoice(token);
+      } catch (error) {
+        if (!shouldRenderLocally(error)) throw error;
+        blob = renderInvoicePdf(convertInvoiceToFormData(shared.invoice), {
+          amountPaid: shared.amount_paid,
+          amountCredited: shared.amount_credited,
+          lateFee: shared.late_fee,
+          user: shared.sender,
+          branding: shared.branding || DEFAULT_BRANDING,
+        });
+      }
+
+      // Create download link
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `invoice-${shared.invoice.invoice_number}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(`Failed to download invoice: ${getFailureReason(error)}`);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40 flex items-center justify-center px-4">
+        <div className="text-center py-20 px-12 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
+          <FileX className="h-12 w-12 text-primary-400 mx-auto mb-6" />
+          <h3 className="text-xl font-bold text-primary-900 mb-3">
+            Link Not Available
+          </h3>
+          <p className="text-sm text-primary-600 font-light">
+            This invoice link has expired or been revoked. Please ask the sender
+            for a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-bold text-gray-900">
+              Invoice {shared.invoice.invoice_number}
+            </h1>
+            <p className="text-sm text-gray-600">From {shared.sender.name}</p>
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? "Downloading..." : "Download PDF"}
+          </button>
+        </div>
+
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <InvoicePreview
+            data={convertInvoiceToFormData(shared.invoice)}
+            amountPaid={shared.amount_paid}
+            amountCredited={shared.amount_credited}
+            lateFee={shared.late_fee}
+            branding={shared.branding || DEFAULT_BRANDING}
+            sender={shared.sender}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedInvoicePage;
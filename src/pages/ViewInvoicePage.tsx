@@ -1,18 +1,110 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
-import { ArrowLeft, Download } from "lucide-react";
+import {
+  ArrowLeft,
+  Bell,
+  Copy,
+  CopyPlus,
+  Download,
+  Eye,
+  FileCode,
+  FileMinus,
+  Link2,
+  RefreshCw,
+  Repeat,
+  Send,
+  Wallet,
+  Trash2,
+  X,
+} from "lucide-react";
 import { toast } from "react-toastify";
+import { useAuth } from "../context/AuthContext.tsx";
 import { apiService } from "../utils/api.ts";
+import { renderInvoicePdf, shouldRenderLocally } from "../utils/pdf.ts";
+import { loadPdfFont } from "../utils/pdfFonts.ts";
+import { getFailureReason } from "../utils/bulk.ts";
 import InvoicePreview from "../components/InvoicePreview.tsx";
-import type { Invoice, InvoiceFormData } from "../types/index.ts";
+import RecurringScheduleModal from "../components/RecurringScheduleModal.tsx";
+import type { RecurringScheduleValues } from "../components/RecurringScheduleModal.tsx";
+import RecordPaymentModal from "../components/RecordPaymentModal.tsx";
+import CreditNoteModal from "../components/CreditNoteModal.tsx";
+import SendInvoiceModal from "../components/SendInvoiceModal.tsx";
+import InvoiceRemindersModal from "../components/InvoiceRemindersModal.tsx";
+import InvoiceLateFeeModal from "../components/InvoiceLateFeeModal.tsx";
+import EInvoiceModal from "../components/EInvoiceModal.tsx";
+import {
+  buildCiiInvoice,
+  buildUblInvoice,
+  embedFacturX,
+} from "../utils/eInvoice.ts";
+import type { EInvoiceFormat } from "../utils/eInvoice.ts";
+import { downloadFile } from "../utils/export.ts";
+import { DEFAULT_CURRENCY, formatMoney } from "../utils/currency.ts";
+import { sumMoney } from "../utils/calculation.ts";
+import {
+  canSendReminder,
+  DEFAULT_REMINDER_POLICY,
+  describeReminderRule,
+  getNextReminderDate,
+} from "../utils/reminders.ts";
+import {
+  calculateLateFee,
+  DEFAULT_LATE_FEE_POLICY,
+  describeLateFeeRule,
+} from "../utils/lateFees.ts";
+import {
+  convertCreditNoteToFormData,
+  convertInvoiceToFormData,
+  formatDate,
+  getPaymentStatus,
+  PAYMENT_METHOD_LABELS,
+} from "../utils/helper.ts";
+import type {
+  Client,
+  CreditNote,
+  CreditNoteFormData,
+  Invoice,
+  InvoiceReminderOverride,
+  InvoiceShareLink,
+  LateFeePolicy,
+  Payment,
+  PaymentFormData,
+  ReminderLog,
+  ReminderPolicy,
+  SendInvoiceEmailData,
+} from "../types/index.ts";
 import Navbar from "../components/Navbar.tsx";
 
 const ViewInvoicePage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { user, branding } = useAuth();
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState(false);
+  const [showRecurringModal, setShowRecurringModal] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [deletePaymentConfirm, setDeletePaymentConfirm] =
+    useState<Payment | null>(null);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [showCreditNoteModal, setShowCreditNoteModal] = useState(false);
+  const [viewingCreditNote, setViewingCreditNote] =
+    useState<CreditNote | null>(null);
+  const [showSendModal, setShowSendModal] = useState(false);
+  const [reminders, setReminders] = useState<ReminderLog[]>([]);
+  const [reminderPolicy, setReminderPolicy] = useState<ReminderPolicy>(
+    DEFAULT_REMINDER_POLICY
+  );
+  const [showRemindersModal, setShowRemindersModal] = useState(false);
+  const [sendingReminder, setSendingReminder] = useState(false);
+  const [lateFeePolicy, setLateFeePolicy] = useState<LateFeePolicy>(
+    DEFAULT_LATE_FEE_POLICY
+  );
+  const [showLateFeeModal, setShowLateFeeModal] = useState(false);
+  const [showEInvoiceModal, setShowEInvoiceModal] = useState(false);
+  const [shareLink, setShareLink] = useState<InvoiceShareLink | null>(null);
+  const [updatingShareLink, setUpdatingShareLink] = useState(false);
 
   const handleBackClick = () => {
     // Go back to the previous page in history
@@ -23,8 +115,30 @@ const ViewInvoicePage: React.FC = () => {
     async (invoiceId: number) => {
       try {
         setLoading(true);
-        const data = await apiService.getInvoice(invoiceId);
+        const [
+          data,
+          paymentsData,
+          creditNotesData,
+          remindersData,
+          policy,
+          lateFeeSettings,
+          shareLinkData,
+        ] = await Promise.all([
+          apiService.getInvoice(invoiceId),
+          apiService.getInvoicePayments(invoiceId),
+          apiService.getInvoiceCreditNotes(invoiceId),
+          apiService.getInvoiceReminders(invoiceId),
+          apiService.getReminderSettings(),
+          apiService.getLateFeeSettings(),
+          apiService.getInvoiceShareLink(invoiceId),
+        ]);
         setInvoice(data);
+        setPayments(paymentsData);
+        setCreditNotes(creditNotesData);
+        setReminders(remindersData);
+        setReminderPolicy(policy);
+        setLateFeePolicy(lateFeeSettings);
+        setShareLink(shareLinkData);
       } catch {
         toast.error("Failed to load invoice");
         navigate("/invoices");
@@ -41,12 +155,27 @@ const ViewInvoicePage: React.FC = () => {
     }
   }, [id, loadInvoice]);
 
+  const getInvoicePdf = async (invoice: Invoice) => {
+    try {
+      return await apiService.downloadInvoice(invoice.id, branding);
+    } catch (error) {
+      if (!shouldRenderLocally(error)) throw error;
+      return renderInvoicePdf(convertInvoiceToFormData(invoice), {
+        amountPaid,
+        amountCredited,
+        lateFee,
+        user,
+        branding,
+      });
+    }
+  };
+
   const handleDownload = async () => {
     if (!invoice) return;
 
     try {
       setDownloading(true);
-      const blob = await apiService.downloadInvoice(invoice.id);
+      const blob = await getInvoicePdf(invoice);
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
@@ -59,38 +188,357 @@ const ViewInvoicePage: React.FC = () => {
       window.URL.revokeObjectURL(url);
 
       toast.success("Invoice downloaded successfully");
-    } catch {
-      toast.error("Failed to download invoice");
+    } catch (error) {
+      toast.error(`Failed to download invoice: ${getFailureReason(error)}`);
     } finally {
       setDownloading(false);
     }
   };
 
-  // Convert Invoice to InvoiceFormData for the preview component
-  const convertToFormData = (invoice: Invoice): InvoiceFormData => {
-    return {
-      client_id: invoice.client_id,
-      client_name: invoice.client_name,
-      client_email: invoice.client_email || "",
-      client_address: invoice.client_address || "",
-      client_phone: invoice.client_phone || "",
-      invoice_number: invoice.invoice_number,
-      issue_date: invoice.issue_date || "",
-      due_date: invoice.due_date,
-      tax_rate: invoice.tax_rate,
-      notes: invoice.notes || "",
-      status: invoice.status,
-      delivery_fee: invoice.delivery_fee,
-      items: invoice.items.map((item) => ({
-        id: item.id,
-        description: item.description,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        total: item.total,
-      })),
-    };
+  const handleExportEInvoice = async (
+    format: EInvoiceFormat,
+    buyer: Client
+  ) => {
+    if (!invoice || !user) return;
+
+    try {
+      const options = {
+        seller: user,
+        buyer,
+        prepaidAmount: sumMoney([amountPaid, amountCredited], invoice.currency),
+      };
+      if (format === "ubl") {
+        downloadFile(
+          new Blob([buildUblInvoice(invoice, options)], {
+            type: "application/xml",
+          }),
+          `invoice-${invoice.invoice_number}.xml`
+        );
+      } else {
+        // Factur-X needs a PDF/A-3 base with embedded fonts, which only the
+        // local renderer can produce
+        const base = renderInvoicePdf(convertInvoiceToFormData(invoice), {
+          amountPaid,
+          amountCredited,
+          lateFee,
+          user,
+          branding,
+          embeddedFont: await loadPdfFont(branding.font),
+        });
+        const pdf = await embedFacturX(
+          base,
+          buildCiiInvoice(invoice, options),
+          invoice
+        );
+        downloadFile(pdf, `invoice-${invoice.invoice_number}-factur-x.pdf`);
+      }
+      setShowEInvoiceModal(false);
+      toast.success("E-invoice exported successfully");
+    } catch (error) {
+      toast.error(`Failed to export e-invoice: ${getFailureReason(error)}`);
+    }
+  };
+
+  const amountPaid = sumMoney(
+    payments.map((payment) => payment.amount),
+    invoice?.currency
+  );
+  // Credit note totals are negative, the credited amount is kept positive
+  const amountCredited = sumMoney(
+    creditNotes.map((creditNote) => Math.abs(creditNote.total || 0)),
+    invoice?.currency
+  );
+  const activeLateFee = invoice?.late_fee_override ?? lateFeePolicy;
+  const lateFee = invoice
+    ? calculateLateFee(invoice, payments, amountCredited, activeLateFee)
+    : 0;
+  const balanceDue = sumMoney(
+    [invoice?.total || 0, lateFee, -amountCredited, -amountPaid],
+    invoice?.currency
+  );
+
+  // Keep the invoice status in line with the payment ledger and credit notes
+  const syncPaymentStatus = async (
+    updatedPayments: Payment[],
+    credited: number = amountCredited
+  ) => {
+    if (!invoice) return;
+
+    const paid = sumMoney(
+      updatedPayments.map((payment) => payment.amount),
+      invoice.currency
+    );
+    // Late fees charged so far are owed on top of the invoice total
+    const fee = calculateLateFee(
+      invoice,
+      updatedPayments,
+      credited,
+      activeLateFee
+    );
+    const newStatus = getPaymentStatus(
+      sumMoney([invoice.total || 0, fee], invoice.currency),
+      paid,
+      credited,
+      invoice.currency
+    );
+    if (newStatus !== invoice.status) {
+      await apiService.updateInvoiceStatus(invoice.id, newStatus);
+      setInvoice({ ...invoice, status: newStatus });
+    }
+  };
+
+  const handleRecordPayment = async (data: PaymentFormData) => {
+    if (!invoice) return;
+
+    try {
+      await apiService.createInvoicePayment(invoice.id, data);
+      const updatedPayments = await apiService.getInvoicePayments(invoice.id);
+      setPayments(updatedPayments);
+      await syncPaymentStatus(updatedPayments);
+      setShowPaymentModal(false);
+      toast.success("Payment recorded successfully");
+    } catch {
+      toast.error("Failed to record payment");
+    }
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    if (!invoice) return;
+
+    try {
+      await apiService.deleteInvoicePayment(invoice.id, payment.id);
+      const updatedPayments = payments.filter((p) => p.id !== payment.id);
+      setPayments(updatedPayments);
+      await syncPaymentStatus(updatedPayments);
+      setDeletePaymentConfirm(null);
+      toast.success("Payment deleted successfully");
+    } catch {
+      toast.error("Failed to delete payment");
+    }
+  };
+
+  const handleIssueCreditNote = async (data: CreditNoteFormData) => {
+    if (!invoice) return;
+
+    try {
+      const creditNote = await apiService.createCreditNote(invoice.id, data);
+      const updatedCreditNotes = [...creditNotes, creditNote];
+      setCreditNotes(updatedCreditNotes);
+      await syncPaymentStatus(
+        payments,
+        sumMoney(
+          updatedCreditNotes.map((note) => Math.abs(note.total || 0)),
+          invoice.currency
+        )
+      );
+      setShowCreditNoteModal(false);
+      toast.success("Credit note issued successfully");
+    } catch {
+      toast.error("Failed to issue credit note");
+    }
+  };
+
+  const handleDownloadCreditNote = async (creditNote: CreditNote) => {
+    if (!invoice) return;
+
+    try {
+      let blob: Blob;
+      try {
+        blob = await apiService.downloadCreditNote(creditNote.id, branding);
+      } catch (error) {
+        if (!shouldRenderLocally(error)) throw error;
+        blob = renderInvoicePdf(
+          convertCreditNoteToFormData(creditNote, invoice),
+          {
+            documentType: "credit_note",
+            referenceNumber: invoice.invoice_number,
+            user,
+            branding,
+          }
+        );
+      }
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `credit-note-${creditNote.credit_note_number}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(`Failed to download credit note: ${getFailureReason(error)}`);
+    }
+  };
+
+  const handleSendInvoice = async (data: SendInvoiceEmailData) => {
+    if (!invoice) return;
+
+    try {
+      await apiService.sendInvoiceEmail(invoice.id, data);
+      // A draft counts as sent once it has reached the client
+      if (invoice.status === "DRAFT") {
+        await apiService.updateInvoiceStatus(invoice.id, "SENT");
+        setInvoice({ ...invoice, status: "SENT" });
+      }
+      setShowSendModal(false);
+      toast.success("Invoice sent successfully");
+    } catch {
+      toast.error("Failed to send invoice");
+    }
+  };
+
+  const handleSaveReminderOverride = async (
+    override: InvoiceReminderOverride | null
+  ) => {
+    if (!invoice) return;
+
+    try {
+      await apiService.updateInvoiceReminderOverride(invoice.id, override);
+      setInvoice({ ...invoice, reminder_override: override });
+      setShowRemindersModal(false);
+      toast.success("Reminders updated successfully");
+    } catch {
+      toast.error("Failed to update reminders");
+    }
+  };
+
+  const handleSaveLateFeeOverride = async (
+    override: LateFeePolicy | null
+  ) => {
+    if (!invoice) return;
+
+    try {
+      await apiService.updateInvoiceLateFeeOverride(invoice.id, override);
+      setInvoice({ ...invoice, late_fee_override: override });
+      setShowLateFeeModal(false);
+      toast.success("Late fees updated successfully");
+    } catch {
+      toast.error("Failed to update late fees");
+    }
+  };
+
+  const handleSendReminder = async () => {
+    if (!invoice) return;
+
+    try {
+      setSendingReminder(true);
+      const reminder = await apiService.sendInvoiceReminder(invoice.id);
+      setReminders((prev) => [reminder, ...prev]);
+      toast.success("Reminder sent successfully");
+    } catch {
+      toast.error("Failed to send reminder");
+    } finally {
+      setSendingReminder(false);
+    }
+  };
+
+  // Also used to regenerate, which invalidates the previous link
+  const handleCreateShareLink = async () => {
+    if (!invoice) return;
+
+    try {
+      setUpdatingShareLink(true);
+      setShareLink(await apiService.createInvoiceShareLink(invoice.id));
+      toast.success(
+        shareLink ? "Client link regenerated" : "Client link created"
+      );
+    } catch {
+      toast.error("Failed to create client link");
+    } finally {
+      setUpdatingShareLink(false);
+    }
   };
 
+  const handleRevokeShareLink = async () => {
+    if (!invoice) return;
+
+    try {
+      setUpdatingShareLink(true);
+      await apiService.revokeInvoiceShareLink(invoice.id);
+      setShareLink(null);
+      toast.success("Client link revoked");
+    } catch {
+      toast.error("Failed to revoke client link");
+    } finally {
+      setUpdatingShareLink(false);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    if (!shareLinkUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl);
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!invoice) return;
+
+    navigate("/invoices/create", {
+      state: {
+        prefill: convertInvoiceToFormData(invoice),
+        duplicateOf: invoice.invoice_number,
+      },
+    });
+  };
+
+  const handleMakeRecurring = async (values: RecurringScheduleValues) => {
+    if (!invoice) return;
+
+    try {
+      // Clone the billable part of the invoice into the schedule template
+      await apiService.createRecurringSchedule({
+        ...values,
+        end_date: values.end_date || undefined,
+        source_invoice_id: invoice.id,
+        client_id: invoice.client_id,
+        client_name: invoice.client_name,
+        client_email: invoice.client_email || "",
+        client_address: invoice.client_address || "",
+        client_phone: invoice.client_phone || "",
+        is_active: true,
+        currency: invoice.currency || DEFAULT_CURRENCY,
+        tax_rate: invoice.tax_rate,
+        discount_type: invoice.discount_type,
+        discount_value: invoice.discount_value,
+        quantity_precision: invoice.quantity_precision,
+        tax_rounding: invoice.tax_rounding,
+        delivery_fee: invoice.delivery_fee,
+        notes: invoice.notes || "",
+        items: invoice.items.map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+          unit_price: item.unit_price,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
+          taxes: item.taxes,
+          total: item.total,
+        })),
+      });
+      setShowRecurringModal(false);
+      toast.success("Recurring schedule created");
+      navigate("/recurring");
+    } catch {
+      toast.error("Failed to create recurring schedule");
+    }
+  };
+
+  const shareLinkUrl = shareLink
+    ? `${window.location.origin}/i/${shareLink.token}`
+    : "";
+
+  const activeReminders = invoice?.reminder_override ?? reminderPolicy;
+  const nextReminder =
+    invoice && activeReminders.enabled && canSendReminder(invoice)
+      ? getNextReminderDate(invoice.due_date, activeReminders.rules)
+      : null;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
@@ -146,6 +594,50 @@ const ViewInvoicePage: React.FC = () => {
               </button>
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowPaymentModal(true)}
+                disabled={invoice.status === "PAID"}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <Wallet className="h-4 w-4 mr-2" />
+                Record payment
+              </button>
+              <button
+                onClick={() => setShowCreditNoteModal(true)}
+                disabled={invoice.status === "DRAFT"}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <FileMinus className="h-4 w-4 mr-2" />
+                Credit note
+              </button>
+              <button
+                onClick={() => setShowRecurringModal(true)}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <Repeat className="h-4 w-4 mr-2" />
+                Make recurring
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <CopyPlus className="h-4 w-4 mr-2" />
+                Duplicate
+              </button>
+              <button
+                onClick={() => setShowSendModal(true)}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Send
+              </button>
+              <button
+                onClick={() => setShowEInvoiceModal(true)}
+                className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                <FileCode className="h-4 w-4 mr-2" />
+                E-Invoice
+              </button>
               <button
                 onClick={handleDownload}
                 disabled={downloading}
@@ -160,9 +652,462 @@ const ViewInvoicePage: React.FC = () => {
 
         {/* Invoice Preview */}
         <div className="bg-white shadow-lg rounded-lg overflow-hidden">
-          <InvoicePreview data={convertToFormData(invoice)} />
+          <InvoicePreview
+            data={convertInvoiceToFormData(invoice)}
+            amountPaid={amountPaid}
+            amountCredited={amountCredited}
+            lateFee={lateFee}
+          />
+        </div>
+
+        {/* Credit Notes */}
+        {creditNotes.length > 0 && (
+          <div className="bg-white shadow-lg rounded-lg overflow-hidden mt-8">
+            <div className="px-8 py-6 border-b border-gray-200">
+              <h2 className="text-lg font-bold text-gray-900">Credit Notes</h2>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="py-3 px-8 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Number
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Date
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Reason
+                  </th>
+                  <th className="py-3 px-2 text-right bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Amount
+                  </th>
+                  <th className="py-3 px-8 bg-gray-50 border-b border-gray-200"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {creditNotes.map((creditNote) => (
+                  <tr key={creditNote.id} className="border-b border-gray-100">
+                    <td className="py-4 px-8 text-sm text-gray-800">
+                      {creditNote.credit_note_number}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {formatDate(creditNote.issue_date)}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {creditNote.reason || "-"}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800 text-right">
+                      {formatMoney(creditNote.total || 0, invoice.currency)}
+                    </td>
+                    <td className="py-4 px-8 text-right">
+                      <button
+                        onClick={() => setViewingCreditNote(creditNote)}
+                        className="text-sky-600 hover:text-sky-800 p-2 rounded-full hover:bg-sky-50 transition-colors duration-200"
+                        title="View Credit Note"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDownloadCreditNote(creditNote)}
+                        className="text-emerald-600 hover:text-emerald-800 p-2 rounded-full hover:bg-emerald-50 transition-colors duration-200"
+                        title="Download PDF"
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Payment Ledger */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden mt-8">
+          <div className="px-8 py-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-bold text-gray-900">Payments</h2>
+            <div className="text-sm text-gray-600">
+              Balance due:{" "}
+              <span className="font-bold text-gray-900">
+                {formatMoney(balanceDue, invoice.currency)}
+              </span>
+            </div>
+          </div>
+          {payments.length === 0 ? (
+            <p className="px-8 py-6 text-sm text-gray-500">
+              No payments recorded yet.
+            </p>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="py-3 px-8 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Date
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Method
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Reference
+                  </th>
+                  <th className="py-3 px-2 text-right bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Amount
+                  </th>
+                  <th className="py-3 px-8 bg-gray-50 border-b border-gray-200"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {payments.map((payment) => (
+                  <tr key={payment.id} className="border-b border-gray-100">
+                    <td className="py-4 px-8 text-sm text-gray-800">
+                      {formatDate(payment.payment_date)}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {PAYMENT_METHOD_LABELS[payment.method]}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {payment.reference || "-"}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800 text-right">
+                      {formatMoney(payment.amount, invoice.currency)}
+                    </td>
+                    <td className="py-4 px-8 text-right">
+                      <button
+                        onClick={() => setDeletePaymentConfirm(payment)}
+                        className="text-red-600 hover:text-red-800 p-2 rounded-full hover:bg-red-50 transition-colors duration-200"
+                        title="Delete Payment"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Late Fees */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden mt-8">
+          <div className="px-8 py-6 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Late Fees</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {invoice.late_fee_override
+                  ? "Custom rule for this invoice"
+                  : "Using the rule from settings"}
+              </p>
+            </div>
+            <button
+              onClick={() => setShowLateFeeModal(true)}
+              className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+            >
+              Customize
+            </button>
+          </div>
+          <div className="px-8 py-6 text-sm text-gray-700 flex items-center justify-between">
+            {activeLateFee.enabled ? (
+              <p>{describeLateFeeRule(activeLateFee, invoice.currency)}</p>
+            ) : (
+              <p className="text-gray-500">Late fees are turned off.</p>
+            )}
+            {lateFee > 0 && (
+              <div className="text-gray-600">
+                Charged so far:{" "}
+                <span className="font-bold text-gray-900">
+                  {formatMoney(lateFee, invoice.currency)}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Client Link */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden mt-8">
+          <div className="px-8 py-6 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Client Link</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Anyone with the link can view and download this invoice.
+              </p>
+            </div>
+            {shareLink ? (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleCreateShareLink}
+                  disabled={updatingShareLink}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                  title="Replace the link, the current one stops working"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </button>
+                <button
+                  onClick={handleRevokeShareLink}
+                  disabled={updatingShareLink}
+                  className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-red-300 text-red-700 font-semibold rounded-full hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                  Revoke
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleCreateShareLink}
+                disabled={updatingShareLink}
+                className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                Create link
+              </button>
+            )}
+          </div>
+          {shareLink ? (
+            <div className="px-8 py-6 space-y-3">
+              <div className="flex items-center gap-3">
+                <input
+                  type="text"
+                  readOnly
+                  value={shareLinkUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full px-4 py-3 bg-white/80 border border-primary-200 rounded-full text-sm text-primary-900 shadow-sm font-mono"
+                />
+                <button
+                  onClick={handleCopyShareLink}
+                  className="text-sky-600 hover:text-sky-800 p-2 rounded-full hover:bg-sky-50 transition-colors duration-200"
+                  title="Copy Link"
+                >
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+              <p className="text-sm text-gray-600">
+                {shareLink.view_count > 0 && shareLink.last_viewed_at
+                  ? `Viewed ${shareLink.view_count} time${
+                      shareLink.view_count === 1 ? "" : "s"
+                    }, last on ${formatDate(shareLink.last_viewed_at)}`
+                  : "Not viewed by the client yet"}
+              </p>
+            </div>
+          ) : (
+            <p className="px-8 py-6 text-sm text-gray-500">
+              No client link yet.
+            </p>
+          )}
+        </div>
+
+        {/* Reminders */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden mt-8">
+          <div className="px-8 py-6 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Reminders</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {invoice.reminder_override
+                  ? "Custom rules for this invoice"
+                  : "Using the rules from settings"}
+                {nextReminder &&
+                  ` · next on ${formatDate(nextReminder.toISOString())}`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowRemindersModal(true)}
+                className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+              >
+                Customize
+              </button>
+              <button
+                onClick={handleSendReminder}
+                disabled={sendingReminder || !canSendReminder(invoice)}
+                className="inline-flex text-sm items-center px-4 py-2 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                <Bell className="h-4 w-4 mr-2" />
+                {sendingReminder ? "Sending..." : "Send reminder now"}
+              </button>
+            </div>
+          </div>
+          <div className="px-8 py-4 border-b border-gray-100 text-sm text-gray-700">
+            {activeReminders.enabled && activeReminders.rules.length > 0 ? (
+              <ul className="list-disc list-inside space-y-1">
+                {activeReminders.rules.map((rule, index) => (
+                  <li key={index}>{describeReminderRule(rule)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">
+                Automatic reminders are turned off.
+              </p>
+            )}
+          </div>
+          {reminders.length === 0 ? (
+            <p className="px-8 py-6 text-sm text-gray-500">
+              No reminders sent yet.
+            </p>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th className="py-3 px-8 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Sent
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Recipients
+                  </th>
+                  <th className="py-3 px-2 text-left bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Rule
+                  </th>
+                  <th className="py-3 px-8 text-right bg-gray-50 font-semibold text-sm border-b border-gray-200">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {reminders.map((reminder) => (
+                  <tr key={reminder.id} className="border-b border-gray-100">
+                    <td className="py-4 px-8 text-sm text-gray-800">
+                      {formatDate(reminder.sent_at)}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {reminder.recipients.join(", ")}
+                    </td>
+                    <td className="py-4 px-2 text-sm text-gray-800">
+                      {reminder.rule
+                        ? describeReminderRule(reminder.rule)
+                        : "Sent manually"}
+                    </td>
+                    <td
+                      className={`py-4 px-8 text-sm text-right font-semibold ${
+                        reminder.status === "SENT"
+                          ? "text-emerald-600"
+                          : "text-red-600"
+                      }`}
+                      title={reminder.error}
+                    >
+                      {reminder.status === "SENT" ? "Sent" : "Failed"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
       </div>
+
+      {showRemindersModal && (
+        <InvoiceRemindersModal
+          override={invoice.reminder_override}
+          policy={reminderPolicy}
+          onClose={() => setShowRemindersModal(false)}
+          onSubmit={handleSaveReminderOverride}
+        />
+      )}
+
+      {showEInvoiceModal && invoice && (
+        <EInvoiceModal
+          invoice={invoice}
+          user={user}
+          onClose={() => setShowEInvoiceModal(false)}
+          onSubmit={handleExportEInvoice}
+        />
+      )}
+
+      {showLateFeeModal && (
+        <InvoiceLateFeeModal
+          override={invoice.late_fee_override}
+          policy={lateFeePolicy}
+          currency={invoice.currency}
+          onClose={() => setShowLateFeeModal(false)}
+          onSubmit={handleSaveLateFeeOverride}
+        />
+      )}
+
+      {showPaymentModal && (
+        <RecordPaymentModal
+          balanceDue={balanceDue}
+          currency={invoice.currency}
+          onClose={() => setShowPaymentModal(false)}
+          onSubmit={handleRecordPayment}
+        />
+      )}
+
+      {/* Delete Payment Confirmation Modal */}
+      {deletePaymentConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-2xl max-w-md w-full border border-white/20">
+            <div className="p-8">
+              <h3 className="text-xl font-bold text-primary-900 mb-4">
+                Delete Payment
+              </h3>
+              <p className="text-primary-600 mb-8 leading-relaxed">
+                Remove the payment of{" "}
+                <strong className="text-primary-900">
+                  {formatMoney(deletePaymentConfirm.amount, invoice.currency)}
+                </strong>{" "}
+                from {formatDate(deletePaymentConfirm.payment_date)}? The
+                balance due will be updated.
+              </p>
+              <div className="flex items-center justify-end space-x-4">
+                <button
+                  onClick={() => setDeletePaymentConfirm(null)}
+                  className="px-6 py-3 text-sm font-semibold text-primary-700 bg-white/80 border border-primary-300 rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDeletePayment(deletePaymentConfirm)}
+                  className="px-6 py-3 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-full transition-all duration-300 hover:shadow-xl hover:-translate-y-0.5"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showCreditNoteModal && (
+        <CreditNoteModal
+          invoice={invoice}
+          onClose={() => setShowCreditNoteModal(false)}
+          onSubmit={handleIssueCreditNote}
+        />
+      )}
+
+      {/* Credit Note Preview Modal */}
+      {viewingCreditNote && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-end px-6 pt-6">
+              <button
+                onClick={() => setViewingCreditNote(null)}
+                className="text-primary-400 hover:text-primary-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <InvoicePreview
+              data={convertCreditNoteToFormData(viewingCreditNote, invoice)}
+              documentType="credit_note"
+              referenceNumber={invoice.invoice_number}
+            />
+          </div>
+        </div>
+      )}
+
+      {showSendModal && (
+        <SendInvoiceModal
+          invoice={invoice}
+          onClose={() => setShowSendModal(false)}
+          onSubmit={handleSendInvoice}
+        />
+      )}
+
+      {showRecurringModal && (
+        <RecurringScheduleModal
+          title="Make Recurring"
+          submitLabel="Create Schedule"
+          onClose={() => setShowRecurringModal(false)}
+          onSubmit={handleMakeRecurring}
+        />
+      )}
     </div>
   );
 };
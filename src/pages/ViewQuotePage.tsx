@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import {
+  ArrowLeft,
+  Check,
+  Download,
+  Edit,
+  FileCheck,
+  X,
+} from "lucide-react";
+import { toast } from "react-toastify";
+import { useAuth } from "../context/AuthContext.tsx";
+import { apiService } from "../utils/api.ts";
+import { renderInvoicePdf, shouldRenderLocally } from "../utils/pdf.ts";
+import { getFailureReason } from "../utils/bulk.ts";
+import InvoicePreview from "../components/InvoicePreview.tsx";
+import QuoteStatusBadge from "../components/QuoteStatusBadge.tsx";
+import {
+  convertQuoteToFormData,
+  QUOTE_STATUS_LABELS,
+} from "../utils/helper.ts";
+import type { Quote, QuoteStatus } from "../types/index.ts";
+import Navbar from "../components/Navbar.tsx";
+
+const ViewQuotePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, branding } = useAuth();
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+
+  const loadQuote = useCallback(
+    async (quoteId: number) => {
+      try {
+        setLoading(true);
+        setQuote(await apiService.getQuote(quoteId));
+      } catch {
+        toast.error("Failed to load quote");
+        navigate("/quotes");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [navigate]
+  );
+
+  useEffect(() => {
+    if (id) {
+      loadQuote(parseInt(id));
+    }
+  }, [id, loadQuote]);
+
+  const handleDownload = async () => {
+    if (!quote) return;
+
+    try {
+      setDownloading(true);
+      let blob: Blob;
+      try {
+        blob = await apiService.downloadQuote(quote.id, branding);
+      } catch (error) {
+        if (!shouldRenderLocally(error)) throw error;
+        blob = renderInvoicePdf(convertQuoteToFormData(quote), {
+          documentType: "quote",
+          user,
+          branding,
+        });
+      }
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `quote-${quote.quote_number}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success("Quote downloaded successfully");
+    } catch (error) {
+      toast.error(`Failed to download quote: ${getFailureReason(error)}`);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleUpdateStatus = async (status: QuoteStatus) => {
+    if (!quote) return;
+
+    try {
+      setUpdatingStatus(true);
+      await apiService.updateQuoteStatus(quote.id, status);
+      setQuote({ ...quote, status });
+      toast.success(`Quote marked as ${QUOTE_STATUS_LABELS[status]}`);
+    } catch {
+      toast.error("Failed to update quote status");
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const handleConvert = async () => {
+    if (!quote) return;
+
+    // Converting implies the client agreed to the quote
+    if (quote.status !== "ACCEPTED") {
+      try {
+        await apiService.updateQuoteStatus(quote.id, "ACCEPTED");
+      } catch {
+        toast.error("Failed to accept quote");
+        return;
+      }
+    }
+
+    navigate("/invoices/create", {
+      state: { prefill: convertQuoteToFormData(quote), quoteId: quote.id },
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-sky-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-white via-primary-50/50 to-sky-50/40">
+        <Navbar />
+        <div className="text-center py-20 bg-white/70 backdrop-blur-sm rounded-3xl border border-primary-200/50">
+          <h3 className="text-xl font-bold text-primary-900 mb-3">
+            Quote Not Found
+          </h3>
+          <p className="text-sm text-primary-600 font-light mb-8">
+            The quote you're looking for doesn't exist.
+          </p>
+
+          <div>
+            <Link
+              to="/quotes"
+              className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Quotes
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isDecided = quote.status === "ACCEPTED" || quote.status === "DECLINED";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <Link
+                to="/quotes"
+                className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to Quotes
+              </Link>
+              <QuoteStatusBadge status={quote.status} />
+            </div>
+            <div className="flex items-center space-x-3">
+              {!isDecided && (
+                <>
+                  <button
+                    onClick={() => handleUpdateStatus("ACCEPTED")}
+                    disabled={updatingStatus}
+                    className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Accepted
+                  </button>
+                  <button
+                    onClick={() => handleUpdateStatus("DECLINED")}
+                    disabled={updatingStatus}
+                    className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Declined
+                  </button>
+                </>
+              )}
+              {!isDecided && (
+                <Link
+                  to={`/quotes/edit/${quote.id}`}
+                  className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Link>
+              )}
+              {quote.converted_invoice_id ? (
+                <Link
+                  to={`/invoices/${quote.converted_invoice_id}`}
+                  className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                >
+                  <FileCheck className="h-4 w-4 mr-2" />
+                  View invoice
+                </Link>
+              ) : (
+                quote.status !== "DECLINED" && (
+                  <button
+                    onClick={handleConvert}
+                    className="inline-flex text-sm items-center px-6 py-3 bg-white/80 border border-primary-300 text-primary-700 font-semibold rounded-full hover:bg-primary-50 transition-all duration-300"
+                  >
+                    <FileCheck className="h-4 w-4 mr-2" />
+                    Convert to invoice
+                  </button>
+                )
+              )}
+              <button
+                onClick={handleDownload}
+                disabled={downloading}
+                className="inline-flex text-sm items-center px-6 py-3 bg-gradient-to-r from-accent-500 to-accent-600 hover:from-accent-600 hover:to-accent-700 text-white font-semibold rounded-full transition-all duration-300 shadow-xl shadow-sky-500/25 hover:shadow-2xl hover:shadow-sky-500/30"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {downloading ? "Downloading..." : "Download PDF"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Quote Preview */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <InvoicePreview
+            data={convertQuoteToFormData(quote)}
+            documentType="quote"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ViewQuotePage;
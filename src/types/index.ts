@@ -4,9 +4,15 @@ export interface User {
   email: string;
   address: string; 
   phone: string;
+  // ISO 3166-1 alpha-2 country and VAT number, required for e-invoices
+  country_code?: string;
+  tax_id?: string;
   bank_name: string;
   bank_account_name: string;
   bank_account_number: string;
+  bank_bic?: string;
+  // Static merchant QRIS from the payment provider, made dynamic per invoice
+  qris_payload?: string;
 }
 
 export interface Client {
@@ -15,15 +21,90 @@ export interface Client {
   email?: string;
   phone?: string;
   address?: string;
+  country_code?: string;
+  tax_id?: string;
+  // Overrides the account default payment terms for this client's invoices
+  payment_terms?: PaymentTerms | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// Saved product or service that can be picked when adding invoice items
+export interface CatalogItem {
+  id: number;
+  name: string;
+  description?: string;
+  unit_price: number;
+  unit?: string;
+  tax_rate_ids: number[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_PAID' | 'PAID';
+
+export type DiscountType = 'PERCENTAGE' | 'FIXED';
+
+// Whether tax is rounded on every line or once per tax on the invoice total
+export type TaxRounding = 'PER_LINE' | 'PER_INVOICE';
+
+export type PaymentTermsType =
+  | 'DUE_ON_RECEIPT'
+  | 'NET_7'
+  | 'NET_15'
+  | 'NET_30'
+  | 'NET_60'
+  | 'END_OF_MONTH'
+  | 'CUSTOM';
+
+export interface PaymentTerms {
+  type: PaymentTermsType;
+  // Days after the issue date, only used by CUSTOM
+  custom_days?: number;
+}
+
+// EN 16931 VAT category: standard rated, zero rated or exempt
+export type VatCategory = 'S' | 'Z' | 'E';
+
+export interface TaxRate {
+  id: number;
+  name: string;
+  rate: number;
+  // Withheld by the client, so it is deducted from the total (e.g. PPh 23)
+  is_withholding: boolean;
+  // Charged on the line amount plus the line's other taxes
+  is_compound: boolean;
+  // Older entries have none; they count as standard rated above 0%
+  vat_category?: VatCategory;
+  // Legal basis printed on e-invoices, required for exempt supplies
+  exemption_reason?: string;
+}
+
+export type TaxRateFormData = Omit<TaxRate, 'id'>;
+
+// Snapshot of a catalogue tax stored on the line, so later catalogue edits do
+// not change issued invoices
+export interface ItemTax {
+  tax_rate_id?: number;
+  name: string;
+  rate: number;
+  is_withholding: boolean;
+  is_compound: boolean;
+  vat_category?: VatCategory;
+  exemption_reason?: string;
+}
+
 export interface InvoiceItem {
   id?: number;
   description: string;
   quantity: number;
+  // Unit of measure printed after the quantity, e.g. hrs or m²
+  unit?: string;
   unit_price: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  taxes?: ItemTax[];
+  // Line amount after the line discount
   total: number;
 }
 
@@ -37,18 +118,276 @@ export interface Invoice {
   client_phone?: string;
   issue_date?: string;
   due_date: string;
+  payment_terms?: PaymentTerms | null;
+  currency?: string;
   subtotal?: number;
   tax_rate: number;
   tax_amount?: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  quantity_precision?: number;
+  tax_rounding?: TaxRounding;
+  discount_amount?: number;
   delivery_fee: number;
   total?: number;
+  amount_paid?: number;
+  balance_due?: number;
+  notes?: string;
+  status: InvoiceStatus;
+  // Replaces the account reminder rules for this invoice when set
+  reminder_override?: InvoiceReminderOverride | null;
+  // Replaces the account late fee rule for this invoice when set
+  late_fee_override?: LateFeePolicy | null;
+  items: InvoiceItem[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type DocumentType = 'invoice' | 'quote' | 'credit_note';
+
+// Where PDFs are produced: by the API or in the browser with jsPDF
+export type PdfRenderer = 'server' | 'browser';
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED';
+
+export interface Quote {
+  id: number;
+  quote_number: string;
+  client_id?: number;
+  client_name: string;
+  client_email?: string;
+  client_address?: string;
+  client_phone?: string;
+  issue_date?: string;
+  valid_until: string;
+  currency?: string;
+  subtotal?: number;
+  tax_rate: number;
+  tax_amount?: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  quantity_precision?: number;
+  tax_rounding?: TaxRounding;
+  discount_amount?: number;
+  delivery_fee: number;
+  total?: number;
+  notes?: string;
+  status: QuoteStatus;
+  items: InvoiceItem[];
+  converted_invoice_id?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PaymentMethod = 'BANK_TRANSFER' | 'CASH' | 'CARD' | 'E_WALLET' | 'OTHER';
+
+export interface Payment {
+  id: number;
+  invoice_id: number;
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  created_at?: string;
+}
+
+export interface PaymentFormData {
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+// Invoices, quotes and credit notes are numbered from separate sequences
+export type NumberedDocument = 'invoice' | 'quote' | 'credit_note';
+
+export interface NumberingScheme {
+  prefix: string;
+  // Supports {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ:n} tokens
+  pattern: string;
+  reset_yearly: boolean;
+  next_sequence: number;
+}
+
+export type InvoiceLayout = 'classic' | 'modern' | 'compact';
+
+export type BrandFont = 'sans' | 'serif' | 'mono';
+
+// Per-user look of invoices, applied to the preview and sent with PDF requests
+export interface InvoiceBranding {
+  // Data URL of the uploaded logo
+  logo?: string;
+  primary_color: string;
+  accent_color: string;
+  font: BrandFont;
+  layout: InvoiceLayout;
+  show_bank_details: boolean;
+  show_notes: boolean;
+  show_signature: boolean;
+  signature_name?: string;
+}
+
+// Credit notes carry negative lines copied from the invoice they correct
+export interface CreditNote {
+  id: number;
+  credit_note_number: string;
+  invoice_id: number;
+  invoice_number?: string;
+  issue_date: string;
+  reason?: string;
+  currency?: string;
+  subtotal?: number;
+  tax_rate: number;
+  tax_amount?: number;
+  total?: number;
+  items: InvoiceItem[];
+  created_at?: string;
+}
+
+export interface CreditNoteFormData {
+  credit_note_number: string;
+  issue_date: string;
+  reason?: string;
+  items: InvoiceItem[];
+}
+
+// Subject and body are sent with their placeholders already filled in
+export interface SendInvoiceEmailData {
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attach_pdf: boolean;
+  branding?: InvoiceBranding;
+}
+
+// Tokenised link that lets a client open an invoice without signing in
+export interface InvoiceShareLink {
+  token: string;
+  created_at: string;
+  view_count: number;
+  last_viewed_at?: string;
+}
+
+// What the public link returns: the invoice with its issuer's details
+export interface SharedInvoice {
+  invoice: Invoice;
+  sender: User;
+  branding?: InvoiceBranding;
+  amount_paid: number;
+  amount_credited: number;
+  // Late fees charged so far, worked out by the API
+  late_fee?: number;
+}
+
+export type ReminderTiming = 'BEFORE_DUE' | 'ON_DUE' | 'AFTER_DUE';
+
+export interface ReminderRule {
+  timing: ReminderTiming;
+  // Days before or after the due date, ignored on the due date itself
+  days: number;
+  // Keep reminding at this interval while unpaid, only after the due date
+  repeat_every_days?: number;
+}
+
+// Account-wide reminders, the templates use the email placeholders
+export interface ReminderPolicy {
+  enabled: boolean;
+  rules: ReminderRule[];
+  subject: string;
+  body: string;
+}
+
+export interface InvoiceReminderOverride {
+  enabled: boolean;
+  rules: ReminderRule[];
+}
+
+export interface ReminderLog {
+  id: number;
+  invoice_id: number;
+  sent_at: string;
+  recipients: string[];
+  subject: string;
+  // Missing for reminders sent by hand
+  rule?: ReminderRule;
+  status: 'SENT' | 'FAILED';
+  error?: string;
+}
+
+export type LateFeeType = 'FLAT' | 'PERCENTAGE';
+
+export type LateFeeFrequency = 'ONCE' | 'MONTHLY';
+
+export interface LateFeeRule {
+  type: LateFeeType;
+  // Amount in the invoice currency for FLAT, percent of the unpaid balance for PERCENTAGE
+  value: number;
+  // Days after the due date before the first fee is charged
+  grace_days: number;
+  frequency: LateFeeFrequency;
+}
+
+export interface LateFeePolicy extends LateFeeRule {
+  enabled: boolean;
+}
+
+export type RecurringFrequency = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export interface RecurringSchedule {
+  id: number;
+  source_invoice_id?: number;
+  client_id?: number;
+  client_name: string;
+  client_email?: string;
+  client_address?: string;
+  client_phone?: string;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date?: string;
+  next_run_date: string;
+  last_run_date?: string;
+  // When true generated invoices are emailed, otherwise they stay as drafts
+  auto_send: boolean;
+  is_active: boolean;
+  currency?: string;
+  tax_rate: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  quantity_precision?: number;
+  tax_rounding?: TaxRounding;
+  delivery_fee: number;
   notes?: string;
-  status: 'DRAFT' | 'SENT' | 'PAID';
   items: InvoiceItem[];
   created_at?: string;
   updated_at?: string;
 }
 
+export interface RecurringScheduleFormData {
+  source_invoice_id?: number;
+  client_id?: number;
+  client_name: string;
+  client_email?: string;
+  client_address?: string;
+  client_phone?: string;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date?: string;
+  auto_send: boolean;
+  is_active: boolean;
+  currency: string;
+  tax_rate: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  quantity_precision?: number;
+  tax_rounding?: TaxRounding;
+  delivery_fee: number;
+  notes?: string;
+  items: InvoiceItem[];
+}
+
 export interface AuthTokens {
   access_token: string;
   refresh_token: string;
@@ -80,11 +419,19 @@ export interface InvoiceFormData {
   invoice_number: string;
   issue_date: string;
   due_date: string;
+  payment_terms?: PaymentTerms;
+  currency: string;
   tax_rate: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  quantity_precision?: number;
+  tax_rounding?: TaxRounding;
   delivery_fee: number;
   notes?: string;
-  status?: 'DRAFT' | 'SENT' | 'PAID';
+  status?: InvoiceStatus;
   items: InvoiceItem[];
+  // Set when the invoice is created from an accepted quote
+  quote_id?: number;
   // Sender details for non-authenticated users
   sender_name?: string;
   sender_email?: string;
@@ -0,0 +1,66 @@
+import type { Invoice } from "../types/index.ts";
+import { sumMoney } from "./calculation.ts";
+import { DEFAULT_CURRENCY } from "./currency.ts";
+import { getDaysOverdue } from "./helper.ts";
+
+export type AgingBucketKey = "CURRENT" | "1_30" | "31_60" | "61_90" | "90_PLUS";
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  // Inclusive upper bound in days overdue, null for the open-ended bucket
+  maxDays: number | null;
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: "CURRENT", label: "Current", maxDays: 0 },
+  { key: "1_30", label: "1-30 days", maxDays: 30 },
+  { key: "31_60", label: "31-60 days", maxDays: 60 },
+  { key: "61_90", label: "61-90 days", maxDays: 90 },
+  { key: "90_PLUS", label: "90+ days", maxDays: null },
+];
+
+export type AgingTotals = Record<AgingBucketKey, { amount: number; count: number }>;
+
+const emptyTotals = (): AgingTotals => ({
+  CURRENT: { amount: 0, count: 0 },
+  "1_30": { amount: 0, count: 0 },
+  "31_60": { amount: 0, count: 0 },
+  "61_90": { amount: 0, count: 0 },
+  "90_PLUS": { amount: 0, count: 0 },
+});
+
+export const getAgingBucket = (daysOverdue: number): AgingBucketKey => {
+  const bucket = AGING_BUCKETS.find(
+    (b) => b.maxDays === null || daysOverdue <= b.maxDays
+  );
+  return bucket!.key;
+};
+
+// Outstanding receivables per currency, split by how long they are overdue
+export const calculateAging = (
+  invoices: Invoice[],
+  today: Date = new Date()
+): Record<string, AgingTotals> => {
+  return invoices.reduce<Record<string, AgingTotals>>((acc, invoice) => {
+    if (invoice.status !== "SENT" && invoice.status !== "PARTIALLY_PAID") {
+      return acc;
+    }
+
+    const currency = invoice.currency || DEFAULT_CURRENCY;
+    const outstanding =
+      invoice.balance_due ??
+      sumMoney([invoice.total || 0, -(invoice.amount_paid || 0)], currency);
+    if (outstanding <= 0) return acc;
+
+    const totals = acc[currency] || emptyTotals();
+    const bucket = getAgingBucket(getDaysOverdue(invoice, today));
+    totals[bucket].amount = sumMoney(
+      [totals[bucket].amount, outstanding],
+      currency
+    );
+    totals[bucket].count += 1;
+    acc[currency] = totals;
+    return acc;
+  }, {});
+};
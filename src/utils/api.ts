@@ -3,14 +3,37 @@ import type { AxiosInstance, AxiosResponse } from 'axios';
 import type { 
   User, 
   Client, 
+  CatalogItem,
   Invoice, 
   AuthTokens, 
   LoginCredentials, 
   RegisterData, 
   InvoiceFormData,
   ApiResponse,
-  InvoiceSummary
+  InvoiceBranding,
+  InvoiceSummary,
+  NumberedDocument,
+  NumberingScheme,
+  PaymentTerms,
+  TaxRate,
+  TaxRateFormData,
+  CreditNote,
+  CreditNoteFormData,
+  Payment,
+  PaymentFormData,
+  Quote,
+  QuoteStatus,
+  RecurringSchedule,
+  RecurringScheduleFormData,
+  ReminderLog,
+  ReminderPolicy,
+  InvoiceReminderOverride,
+  LateFeePolicy,
+  InvoiceShareLink,
+  SendInvoiceEmailData,
+  SharedInvoice
 } from '../types/index.ts';
+import { formatItemRate } from './helper.ts';
 
 class ApiService {
   private api: AxiosInstance;
@@ -168,12 +191,12 @@ class ApiService {
   }
 
   // Update user profile (name, email, address, phone)
-  async updateUserProfile(data: { name: string; email: string; address: string; phone: string }): Promise<void> {
+  async updateUserProfile(data: { name: string; email: string; address: string; phone: string; country_code?: string; tax_id?: string }): Promise<void> {
     await this.api.put('/v1/protected/me/profile', data);
   }
 
   // Update user banking info (bank_name, bank_account_name, bank_account_number)
-  async updateUserBanking(data: { bank_name: string; bank_account_name: string; bank_account_number: string }): Promise<void> {
+  async updateUserBanking(data: { bank_name: string; bank_account_name: string; bank_account_number: string; bank_bic?: string; qris_payload?: string }): Promise<void> {
     await this.api.put('/v1/protected/me/banking', data);
   }
 
@@ -219,6 +242,31 @@ class ApiService {
     await this.api.delete(`/v1/protected/clients/${id}`);
   }
 
+  // Catalogue item methods
+  async getCatalogItems(params?: { page?: number; page_size?: number; search?: string }): Promise<{ data: CatalogItem[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.page_size) queryParams.append('page_size', params.page_size.toString());
+    if (params?.search) queryParams.append('search', params.search);
+
+    const response: AxiosResponse<ApiResponse<{ data: CatalogItem[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }>> = await this.api.get(`/v1/protected/items?${queryParams.toString()}`);
+    return response.data.data!;
+  }
+
+  async createCatalogItem(data: Omit<CatalogItem, 'id' | 'created_at' | 'updated_at'>): Promise<CatalogItem> {
+    const response: AxiosResponse<ApiResponse<CatalogItem>> = await this.api.post('/v1/protected/items', data);
+    return response.data.data!;
+  }
+
+  async updateCatalogItem(id: number, data: Partial<CatalogItem>): Promise<CatalogItem> {
+    const response: AxiosResponse<ApiResponse<CatalogItem>> = await this.api.put(`/v1/protected/items/${id}`, data);
+    return response.data.data!;
+  }
+
+  async deleteCatalogItem(id: number): Promise<void> {
+    await this.api.delete(`/v1/protected/items/${id}`);
+  }
+
   // Invoice methods
   async getInvoices(params?: { page?: number; page_size?: number; search?: string; status?: string }): Promise<{ data: Invoice[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }> {
     const queryParams = new URLSearchParams();
@@ -241,18 +289,43 @@ class ApiService {
     return response.data.data!;
   }
 
+  async getNextInvoiceNumber(): Promise<string> {
+    const response: AxiosResponse<ApiResponse<{ invoice_number: string }>> = await this.api.get('/v1/protected/invoices/next-number');
+    return response.data.data!.invoice_number;
+  }
+
+  // Search is fuzzy on the backend, so only an exact number match counts as a duplicate
+  async isInvoiceNumberTaken(invoiceNumber: string, excludeId?: number): Promise<boolean> {
+    const result = await this.getInvoices({ page: 1, page_size: 25, search: invoiceNumber });
+    return result.data.some(invoice =>
+      invoice.invoice_number.trim().toLowerCase() === invoiceNumber.trim().toLowerCase() &&
+      invoice.id !== excludeId
+    );
+  }
+
   async createInvoice(data: InvoiceFormData): Promise<Invoice> {
     const baseInvoiceData = {
       invoice_number: data.invoice_number || '',
       issue_date: data.issue_date,
       due_date: data.due_date,
+      payment_terms: data.payment_terms,
+      currency: data.currency,
       notes: data.notes || '',
       tax_rate: data.tax_rate,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      quantity_precision: data.quantity_precision,
+      tax_rounding: data.tax_rounding,
       delivery_fee: data.delivery_fee,
+      quote_id: data.quote_id,
       items: data.items.map(item => ({
         description: item.description,
         quantity: item.quantity,
-        unit_price: item.unit_price
+        unit: item.unit,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        taxes: item.taxes
       }))
     };
 
@@ -283,15 +356,25 @@ class ApiService {
       invoice_number: data.invoice_number || '',
       issue_date: data.issue_date,
       due_date: data.due_date,
+      payment_terms: data.payment_terms,
+      currency: data.currency,
       notes: data.notes || '',
       delivery_fee: data.delivery_fee,
       tax_rate: data.tax_rate,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      quantity_precision: data.quantity_precision,
+      tax_rounding: data.tax_rounding,
       status: data.status || 'DRAFT',
       items: data.items?.map(item => ({
         id: item.id,
         description: item.description,
         quantity: item.quantity,
-        unit_price: item.unit_price
+        unit: item.unit,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        taxes: item.taxes
       }))
     };
 
@@ -326,8 +409,176 @@ class ApiService {
     await this.api.delete(`/v1/protected/invoices/${id}`);
   }
 
-  async downloadInvoice(id: number): Promise<Blob> {
-    const response: AxiosResponse<Blob> = await this.api.post(`/v1/protected/invoices/${id}/pdf`, {}, {
+  async downloadInvoice(id: number, branding?: InvoiceBranding): Promise<Blob> {
+    const response: AxiosResponse<Blob> = await this.api.post(`/v1/protected/invoices/${id}/pdf`, { branding }, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Email methods
+  async sendInvoiceEmail(id: number, data: SendInvoiceEmailData): Promise<void> {
+    await this.api.post(`/v1/protected/invoices/${id}/send`, data);
+  }
+
+  // Reminder methods
+  async getInvoiceReminders(invoiceId: number): Promise<ReminderLog[]> {
+    const response: AxiosResponse<ApiResponse<ReminderLog[]>> = await this.api.get(`/v1/protected/invoices/${invoiceId}/reminders`);
+    return response.data.data || [];
+  }
+
+  async sendInvoiceReminder(invoiceId: number): Promise<ReminderLog> {
+    const response: AxiosResponse<ApiResponse<ReminderLog>> = await this.api.post(`/v1/protected/invoices/${invoiceId}/reminders`);
+    return response.data.data!;
+  }
+
+  async updateInvoiceReminderOverride(invoiceId: number, override: InvoiceReminderOverride | null): Promise<void> {
+    await this.api.put(`/v1/protected/invoices/${invoiceId}/reminder-override`, { reminder_override: override });
+  }
+
+  // Late fee methods
+  async updateInvoiceLateFeeOverride(invoiceId: number, override: LateFeePolicy | null): Promise<void> {
+    await this.api.put(`/v1/protected/invoices/${invoiceId}/late-fee-override`, { late_fee_override: override });
+  }
+
+  // Share link methods
+  async getInvoiceShareLink(invoiceId: number): Promise<InvoiceShareLink | null> {
+    const response: AxiosResponse<ApiResponse<InvoiceShareLink | null>> = await this.api.get(`/v1/protected/invoices/${invoiceId}/share-link`);
+    return response.data.data || null;
+  }
+
+  // Creating a link again replaces the token, so old links stop working
+  async createInvoiceShareLink(invoiceId: number): Promise<InvoiceShareLink> {
+    const response: AxiosResponse<ApiResponse<InvoiceShareLink>> = await this.api.post(`/v1/protected/invoices/${invoiceId}/share-link`);
+    return response.data.data!;
+  }
+
+  async revokeInvoiceShareLink(invoiceId: number): Promise<void> {
+    await this.api.delete(`/v1/protected/invoices/${invoiceId}/share-link`);
+  }
+
+  // Settings methods
+  private numberingSettingsPath(document: NumberedDocument) {
+    const paths: Record<NumberedDocument, string> = {
+      invoice: '/v1/protected/settings/numbering',
+      quote: '/v1/protected/settings/quote-numbering',
+      credit_note: '/v1/protected/settings/credit-note-numbering',
+    };
+    return paths[document];
+  }
+
+  async getNumberingSettings(document: NumberedDocument = 'invoice'): Promise<NumberingScheme> {
+    const response: AxiosResponse<ApiResponse<NumberingScheme>> = await this.api.get(this.numberingSettingsPath(document));
+    return response.data.data!;
+  }
+
+  async updateNumberingSettings(data: NumberingScheme, document: NumberedDocument = 'invoice'): Promise<NumberingScheme> {
+    const response: AxiosResponse<ApiResponse<NumberingScheme>> = await this.api.put(this.numberingSettingsPath(document), data);
+    return response.data.data!;
+  }
+
+  async getPaymentTermsSettings(): Promise<PaymentTerms> {
+    const response: AxiosResponse<ApiResponse<PaymentTerms>> = await this.api.get('/v1/protected/settings/payment-terms');
+    return response.data.data!;
+  }
+
+  async updatePaymentTermsSettings(data: PaymentTerms): Promise<PaymentTerms> {
+    const response: AxiosResponse<ApiResponse<PaymentTerms>> = await this.api.put('/v1/protected/settings/payment-terms', data);
+    return response.data.data!;
+  }
+
+  async getBrandingSettings(): Promise<InvoiceBranding> {
+    const response: AxiosResponse<ApiResponse<InvoiceBranding>> = await this.api.get('/v1/protected/settings/branding');
+    return response.data.data!;
+  }
+
+  async updateBrandingSettings(data: InvoiceBranding): Promise<InvoiceBranding> {
+    const response: AxiosResponse<ApiResponse<InvoiceBranding>> = await this.api.put('/v1/protected/settings/branding', data);
+    return response.data.data!;
+  }
+
+  async getReminderSettings(): Promise<ReminderPolicy> {
+    const response: AxiosResponse<ApiResponse<ReminderPolicy>> = await this.api.get('/v1/protected/settings/reminders');
+    return response.data.data!;
+  }
+
+  async updateReminderSettings(data: ReminderPolicy): Promise<ReminderPolicy> {
+    const response: AxiosResponse<ApiResponse<ReminderPolicy>> = await this.api.put('/v1/protected/settings/reminders', data);
+    return response.data.data!;
+  }
+
+  async getLateFeeSettings(): Promise<LateFeePolicy> {
+    const response: AxiosResponse<ApiResponse<LateFeePolicy>> = await this.api.get('/v1/protected/settings/late-fees');
+    return response.data.data!;
+  }
+
+  async updateLateFeeSettings(data: LateFeePolicy): Promise<LateFeePolicy> {
+    const response: AxiosResponse<ApiResponse<LateFeePolicy>> = await this.api.put('/v1/protected/settings/late-fees', data);
+    return response.data.data!;
+  }
+
+  // Tax rate methods
+  async getTaxRates(): Promise<TaxRate[]> {
+    const response: AxiosResponse<ApiResponse<TaxRate[]>> = await this.api.get('/v1/protected/tax-rates');
+    return response.data.data || [];
+  }
+
+  async createTaxRate(data: TaxRateFormData): Promise<TaxRate> {
+    const response: AxiosResponse<ApiResponse<TaxRate>> = await this.api.post('/v1/protected/tax-rates', data);
+    return response.data.data!;
+  }
+
+  async updateTaxRate(id: number, data: TaxRateFormData): Promise<TaxRate> {
+    const response: AxiosResponse<ApiResponse<TaxRate>> = await this.api.put(`/v1/protected/tax-rates/${id}`, data);
+    return response.data.data!;
+  }
+
+  async deleteTaxRate(id: number): Promise<void> {
+    await this.api.delete(`/v1/protected/tax-rates/${id}`);
+  }
+
+  // Payment methods
+  async getInvoicePayments(invoiceId: number): Promise<Payment[]> {
+    const response: AxiosResponse<ApiResponse<Payment[]>> = await this.api.get(`/v1/protected/invoices/${invoiceId}/payments`);
+    return response.data.data || [];
+  }
+
+  async createInvoicePayment(invoiceId: number, data: PaymentFormData): Promise<Payment> {
+    const response: AxiosResponse<ApiResponse<Payment>> = await this.api.post(`/v1/protected/invoices/${invoiceId}/payments`, data);
+    return response.data.data!;
+  }
+
+  async deleteInvoicePayment(invoiceId: number, paymentId: number): Promise<void> {
+    await this.api.delete(`/v1/protected/invoices/${invoiceId}/payments/${paymentId}`);
+  }
+
+  // Credit note methods
+  async getInvoiceCreditNotes(invoiceId: number): Promise<CreditNote[]> {
+    const response: AxiosResponse<ApiResponse<CreditNote[]>> = await this.api.get(`/v1/protected/invoices/${invoiceId}/credit-notes`);
+    return response.data.data || [];
+  }
+
+  async getNextCreditNoteNumber(): Promise<string> {
+    const response: AxiosResponse<ApiResponse<{ credit_note_number: string }>> = await this.api.get('/v1/protected/credit-notes/next-number');
+    return response.data.data!.credit_note_number;
+  }
+
+  async createCreditNote(invoiceId: number, data: CreditNoteFormData): Promise<CreditNote> {
+    const response: AxiosResponse<ApiResponse<CreditNote>> = await this.api.post(`/v1/protected/invoices/${invoiceId}/credit-notes`, {
+      ...data,
+      items: data.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+        taxes: item.taxes
+      }))
+    });
+    return response.data.data!;
+  }
+
+  async downloadCreditNote(id: number, branding?: InvoiceBranding): Promise<Blob> {
+    const response: AxiosResponse<Blob> = await this.api.post(`/v1/protected/credit-notes/${id}/pdf`, { branding }, {
       responseType: 'blob',
     });
     return response.data;
@@ -338,8 +589,147 @@ class ApiService {
     return response.data.data!;
   }
 
+  // Quote methods
+  async getQuotes(params?: { page?: number; page_size?: number; search?: string; status?: string }): Promise<{ data: Quote[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.page_size) queryParams.append('page_size', params.page_size.toString());
+    if (params?.search) queryParams.append('search', params.search);
+    if (params?.status) queryParams.append('status', params.status);
+
+    const response: AxiosResponse<ApiResponse<{ data: Quote[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }>> = await this.api.get(`/v1/protected/quotes?${queryParams.toString()}`);
+    return response.data.data!;
+  }
+
+  async getQuote(id: number): Promise<Quote> {
+    const response: AxiosResponse<ApiResponse<Quote>> = await this.api.get(`/v1/protected/quotes/${id}`);
+    return response.data.data!;
+  }
+
+  async getNextQuoteNumber(): Promise<string> {
+    const response: AxiosResponse<ApiResponse<{ quote_number: string }>> = await this.api.get('/v1/protected/quotes/next-number');
+    return response.data.data!.quote_number;
+  }
+
+  // Search is fuzzy on the backend, so only an exact number match counts as a duplicate
+  async isQuoteNumberTaken(quoteNumber: string, excludeId?: number): Promise<boolean> {
+    const result = await this.getQuotes({ page: 1, page_size: 25, search: quoteNumber });
+    return result.data.some(quote =>
+      quote.quote_number.trim().toLowerCase() === quoteNumber.trim().toLowerCase() &&
+      quote.id !== excludeId
+    );
+  }
+
+  // Quotes are edited with the invoice form, so the form data is mapped onto quote fields here
+  private buildQuotePayload(data: Partial<InvoiceFormData>) {
+    const baseQuoteData = {
+      quote_number: data.invoice_number || '',
+      issue_date: data.issue_date,
+      valid_until: data.due_date,
+      currency: data.currency,
+      notes: data.notes || '',
+      tax_rate: data.tax_rate,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      quantity_precision: data.quantity_precision,
+      tax_rounding: data.tax_rounding,
+      delivery_fee: data.delivery_fee,
+      items: data.items?.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        taxes: item.taxes
+      }))
+    };
+
+    if (data.client_id) {
+      return {
+        ...baseQuoteData,
+        client_id: data.client_id
+      };
+    }
+
+    return {
+      ...baseQuoteData,
+      client_name: data.client_name,
+      client_email: data.client_email || '',
+      client_address: data.client_address || '',
+      client_phone: data.client_phone || ''
+    };
+  }
+
+  async createQuote(data: InvoiceFormData): Promise<Quote> {
+    const response: AxiosResponse<ApiResponse<Quote>> = await this.api.post('/v1/protected/quotes', this.buildQuotePayload(data));
+    return response.data.data!;
+  }
+
+  async updateQuote(id: number, data: Partial<InvoiceFormData>): Promise<Quote> {
+    const response: AxiosResponse<ApiResponse<Quote>> = await this.api.put(`/v1/protected/quotes/${id}`, this.buildQuotePayload(data));
+    return response.data.data!;
+  }
+
+  async updateQuoteStatus(id: number, status: QuoteStatus): Promise<Quote> {
+    const response: AxiosResponse<ApiResponse<Quote>> = await this.api.patch(`/v1/protected/quotes/${id}/status`, { status });
+    return response.data.data!;
+  }
+
+  async deleteQuote(id: number): Promise<void> {
+    await this.api.delete(`/v1/protected/quotes/${id}`);
+  }
+
+  async downloadQuote(id: number, branding?: InvoiceBranding): Promise<Blob> {
+    const response: AxiosResponse<Blob> = await this.api.post(`/v1/protected/quotes/${id}/pdf`, { branding }, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Recurring schedule methods
+  async getRecurringSchedules(params?: { page?: number; page_size?: number }): Promise<{ data: RecurringSchedule[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.page_size) queryParams.append('page_size', params.page_size.toString());
+
+    const response: AxiosResponse<ApiResponse<{ data: RecurringSchedule[]; pagination: { page: number; page_size: number; total_items: number; total_pages: number } }>> = await this.api.get(`/v1/protected/recurring-invoices?${queryParams.toString()}`);
+    return response.data.data!;
+  }
+
+  // Shared by create and update so both send the items the same way
+  private buildRecurringSchedulePayload(data: Partial<RecurringScheduleFormData>) {
+    return {
+      ...data,
+      items: data.items?.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        taxes: item.taxes
+      }))
+    };
+  }
+
+  async createRecurringSchedule(data: RecurringScheduleFormData): Promise<RecurringSchedule> {
+    const response: AxiosResponse<ApiResponse<RecurringSchedule>> = await this.api.post('/v1/protected/recurring-invoices', this.buildRecurringSchedulePayload(data));
+    return response.data.data!;
+  }
+
+  async updateRecurringSchedule(id: number, data: Partial<RecurringScheduleFormData>): Promise<RecurringSchedule> {
+    const response: AxiosResponse<ApiResponse<RecurringSchedule>> = await this.api.put(`/v1/protected/recurring-invoices/${id}`, this.buildRecurringSchedulePayload(data));
+    return response.data.data!;
+  }
+
+  async deleteRecurringSchedule(id: number): Promise<void> {
+    await this.api.delete(`/v1/protected/recurring-invoices/${id}`);
+  }
+
   // Public invoice generation (no auth required)
-  async generatePublicInvoice(data: InvoiceFormData): Promise<Blob> {
+  async generatePublicInvoice(data: InvoiceFormData, branding?: InvoiceBranding): Promise<Blob> {
     const publicInvoiceData = {
       invoice_number: data.invoice_number || `INV-${Date.now()}`,
       due_date: data.due_date,
@@ -363,10 +753,22 @@ class ApiService {
       items: data.items.map(item => ({
         description: item.description,
         quantity: item.quantity,
-        unit_price: item.unit_price
+        unit: item.unit,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        taxes: item.taxes,
+        // Pre-formatted so the PDF prints the same "2.5 hrs × IDR 150,000" as the preview
+        quantity_label: formatItemRate(item, data.currency, data.quantity_precision)
       })),
+      currency: data.currency,
       tax_rate: data.tax_rate,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      quantity_precision: data.quantity_precision,
+      tax_rounding: data.tax_rounding,
       delivery_fee: data.delivery_fee,
+      branding,
     };
 
     const response: AxiosResponse<Blob> = await axios.post(
@@ -382,6 +784,26 @@ class ApiService {
     return response.data;
   }
 
+  // Public share link endpoints skip the auth interceptors, clients are not signed in
+  async getSharedInvoice(token: string): Promise<SharedInvoice> {
+    const response: AxiosResponse<ApiResponse<SharedInvoice>> = await axios.get(
+      `${this.baseURL}/v1/public/shared-invoices/${token}`
+    );
+    return response.data.data!;
+  }
+
+  async recordSharedInvoiceView(token: string): Promise<void> {
+    await axios.post(`${this.baseURL}/v1/public/shared-invoices/${token}/views`);
+  }
+
+  async downloadSharedInvoice(token: string): Promise<Blob> {
+    const response: AxiosResponse<Blob> = await axios.get(
+      `${this.baseURL}/v1/public/shared-invoices/${token}/pdf`,
+      { responseType: 'blob' }
+    );
+    return response.data;
+  }
+
   isAuthenticated(): boolean {
     return !!localStorage.getItem('access_token');
   }
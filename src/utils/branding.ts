@@ -0,0 +1,62 @@
+import type {
+  BrandFont,
+  InvoiceBranding,
+  InvoiceLayout,
+} from "../types/index.ts";
+
+export const DEFAULT_BRANDING: InvoiceBranding = {
+  primary_color: "#111827",
+  accent_color: "#0ea5e9",
+  font: "sans",
+  layout: "classic",
+  show_bank_details: true,
+  show_notes: true,
+  show_signature: false,
+};
+
+export const INVOICE_LAYOUT_LABELS: Record<InvoiceLayout, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  compact: "Compact",
+};
+
+// CSS stack for the preview and the matching built-in PDF font
+export const BRAND_FONTS: Record<
+  BrandFont,
+  { label: string; css: string; pdf: "helvetica" | "times" | "courier" }
+> = {
+  sans: {
+    label: "Sans-serif",
+    css: "ui-sans-serif, system-ui, sans-serif",
+    pdf: "helvetica",
+  },
+  serif: {
+    label: "Serif",
+    css: "Georgia, 'Times New Roman', serif",
+    pdf: "times",
+  },
+  mono: {
+    label: "Monospace",
+    css: "ui-monospace, 'Courier New', monospace",
+    pdf: "courier",
+  },
+};
+
+// Logos are stored inline with the branding, so keep them small
+export const MAX_LOGO_SIZE = 512 * 1024;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Hex color mixed with white, for tinted backgrounds
+export const tintColor = (hex: string, amount: number) => {
+  return `#${hexToRgb(hex)
+    .map((channel) =>
+      Math.round(channel + (255 - channel) * amount)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+};
@@ -0,0 +1,52 @@
+import { isAxiosError } from "axios";
+import type { ApiResponse } from "../types/index.ts";
+
+export const BULK_BATCH_SIZE = 5;
+
+export interface BulkFailure<Item> {
+  item: Item;
+  reason: string;
+}
+
+export interface BulkResult<Item> {
+  succeeded: Item[];
+  failures: BulkFailure<Item>[];
+}
+
+// The API explains rejected requests in the response body
+export const getFailureReason = (error: unknown) => {
+  if (isAxiosError<ApiResponse<unknown>>(error)) {
+    return (
+      error.response?.data?.error ||
+      error.response?.data?.message ||
+      error.message
+    );
+  }
+  return error instanceof Error ? error.message : "Request failed";
+};
+
+// Runs the action on every item a few at a time, so one failure does not stop
+// the rest and the API is not flooded with requests
+export const runBulkAction = async <Item>(
+  items: Item[],
+  action: (item: Item) => Promise<unknown>,
+  onProgress?: (done: number) => void
+): Promise<BulkResult<Item>> => {
+  const result: BulkResult<Item> = { succeeded: [], failures: [] };
+  for (let start = 0; start < items.length; start += BULK_BATCH_SIZE) {
+    const batch = items.slice(start, start + BULK_BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map(action));
+    settled.forEach((outcome, index) => {
+      if (outcome.status === "fulfilled") {
+        result.succeeded.push(batch[index]);
+      } else {
+        result.failures.push({
+          item: batch[index],
+          reason: getFailureReason(outcome.reason),
+        });
+      }
+    });
+    onProgress?.(start + batch.length);
+  }
+  return result;
+};
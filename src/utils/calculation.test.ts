@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { InvoiceItem, ItemTax } from "../types/index.ts";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  roundMoney,
+  sumMoney,
+  toMinorUnits,
+} from "./calculation.ts";
+
+const item = (fields: Partial<InvoiceItem>): InvoiceItem => ({
+  description: "Item",
+  quantity: 1,
+  unit_price: 0,
+  total: 0,
+  ...fields,
+});
+
+const tax = (fields: Partial<ItemTax>): ItemTax => ({
+  name: "Tax",
+  rate: 0,
+  is_withholding: false,
+  is_compound: false,
+  ...fields,
+});
+
+const totals = (
+  items: InvoiceItem[],
+  fields: Partial<Parameters<typeof calculateInvoiceTotals>[0]> = {}
+) =>
+  calculateInvoiceTotals({
+    items,
+    tax_rate: 0,
+    delivery_fee: 0,
+    currency: "USD",
+    ...fields,
+  });
+
+describe("money arithmetic", () => {
+  it("adds 0.1 three times exactly", () => {
+    expect(sumMoney([0.1, 0.1, 0.1], "USD")).toBe(0.3);
+    expect(calculateLineTotal({ quantity: 3, unit_price: 0.1 }, "USD")).toBe(
+      0.3
+    );
+  });
+
+  it("rounds halves away from zero", () => {
+    expect(toMinorUnits(0.125, "USD")).toBe(13);
+    expect(toMinorUnits(-0.125, "USD")).toBe(-13);
+    expect(roundMoney(1.005, "USD")).toBe(1.01);
+    expect(roundMoney(-1.005, "USD")).toBe(-1.01);
+    expect(roundMoney(2.5, "JPY")).toBe(3);
+    expect(roundMoney(-2.5, "JPY")).toBe(-3);
+  });
+});
+
+describe("calculateInvoiceTotals", () => {
+  const lines = [item({ unit_price: 1.05 }), item({ unit_price: 1.05 })];
+
+  it("rounds the tax once per invoice", () => {
+    const result = totals(lines, { tax_rate: 10, tax_rounding: "PER_INVOICE" });
+    expect(result.taxAmount).toBe(0.21);
+    expect(result.total).toBe(2.31);
+  });
+
+  it("rounds the tax on every line", () => {
+    const result = totals(lines, { tax_rate: 10, tax_rounding: "PER_LINE" });
+    expect(result.taxAmount).toBe(0.22);
+    expect(result.total).toBe(2.32);
+  });
+
+  it("spreads the invoice discount over the lines", () => {
+    const result = totals(
+      [
+        item({ unit_price: 1 }),
+        item({ unit_price: 1 }),
+        item({ unit_price: 1 }),
+      ],
+      { discount_type: "FIXED", discount_value: 1 }
+    );
+    expect(result.invoiceDiscount).toBe(1);
+    expect(result.taxableAmount).toBe(2);
+    // The last line takes the remainder cent
+    expect(result.lineTaxableAmounts).toEqual([0.67, 0.67, 0.66]);
+  });
+
+  it("applies line discounts before the invoice discount", () => {
+    const result = totals(
+      [
+        item({
+          unit_price: 100,
+          discount_type: "PERCENTAGE",
+          discount_value: 10,
+        }),
+        item({ unit_price: 50 }),
+      ],
+      { discount_type: "PERCENTAGE", discount_value: 10 }
+    );
+    expect(result.subtotal).toBe(150);
+    expect(result.lineDiscount).toBe(10);
+    expect(result.invoiceDiscount).toBe(14);
+    expect(result.lineTaxableAmounts).toEqual([81, 45]);
+  });
+
+  it("charges compound taxes on top and deducts withholding taxes", () => {
+    const result = totals(
+      [
+        item({
+          unit_price: 100,
+          taxes: [
+            tax({ name: "VAT", rate: 10 }),
+            tax({ name: "WHT", rate: 2, is_withholding: true }),
+            tax({ name: "Levy", rate: 5, is_compound: true }),
+          ],
+        }),
+      ],
+      { delivery_fee: 5 }
+    );
+    expect(result.taxes).toEqual([
+      { name: "VAT", rate: 10, is_withholding: false, amount: 10 },
+      { name: "WHT", rate: 2, is_withholding: true, amount: -2 },
+      { name: "Levy", rate: 5, is_withholding: false, amount: 5.5 },
+    ]);
+    expect(result.taxAmount).toBe(13.5);
+    // The delivery fee is neither discounted nor taxed
+    expect(result.total).toBe(118.5);
+  });
+
+  it("keeps zero-decimal currencies in whole units", () => {
+    const result = totals(
+      [item({ unit_price: 1234 }), item({ quantity: 3, unit_price: 99.5 })],
+      { tax_rate: 10, currency: "JPY" }
+    );
+    expect(result.subtotal).toBe(1534);
+    expect(result.taxAmount).toBe(153);
+    expect(result.total).toBe(1687);
+  });
+});
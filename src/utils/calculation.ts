@@ -0,0 +1,251 @@
+import type {
+  DiscountType,
+  InvoiceFormData,
+  InvoiceItem,
+  ItemTax,
+  TaxRounding,
+} from "../types/index.ts";
+import { getCurrency } from "./currency.ts";
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  PERCENTAGE: "%",
+  FIXED: "Fixed",
+};
+
+export const DEFAULT_TAX_ROUNDING: TaxRounding = "PER_INVOICE";
+
+export const TAX_ROUNDING_LABELS: Record<TaxRounding, string> = {
+  PER_INVOICE: "Round each tax once per invoice",
+  PER_LINE: "Round tax on every line",
+};
+
+// One row of the tax breakdown, summed over every line carrying that tax
+export interface TaxLine {
+  name: string;
+  rate: number;
+  is_withholding: boolean;
+  // Negative for withholding taxes
+  amount: number;
+}
+
+export interface InvoiceTotals {
+  // Quantity × unit price over all lines, before any discount
+  subtotal: number;
+  lineDiscount: number;
+  invoiceDiscount: number;
+  taxableAmount: number;
+  // Each line's share of the taxable amount, in the order of the items
+  lineTaxableAmounts: number[];
+  taxes: TaxLine[];
+  // Net of withholding taxes
+  taxAmount: number;
+  total: number;
+}
+
+// Money is added up in integer minor units (cents, sen) of the document
+// currency so that amounts like 0.1 × 3 come out exact. Halves round away from
+// zero, which keeps credit notes the mirror image of the invoice they correct.
+const roundHalfAwayFromZero = (value: number) => {
+  // toPrecision drops binary noise such as 1.005 * 100 = 100.49999999999999
+  const cleaned = Number(value.toPrecision(15));
+  return Math.sign(cleaned) * Math.round(Math.abs(cleaned)) || 0;
+};
+
+const getMinorUnitFactor = (currency?: string) =>
+  10 ** getCurrency(currency).minorUnits;
+
+export const toMinorUnits = (amount: number, currency?: string) => {
+  return roundHalfAwayFromZero((amount || 0) * getMinorUnitFactor(currency));
+};
+
+export const fromMinorUnits = (minorUnits: number, currency?: string) => {
+  return minorUnits / getMinorUnitFactor(currency);
+};
+
+export const roundMoney = (amount: number, currency?: string) => {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+};
+
+// Sum of amounts, each rounded to the currency first
+export const sumMoney = (amounts: number[], currency?: string) => {
+  return fromMinorUnits(
+    amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0),
+    currency
+  );
+};
+
+// Discount on an amount in minor units; never exceeds that amount
+const calculateDiscountMinor = (
+  amount: number,
+  type: DiscountType | undefined,
+  value: number | undefined,
+  currency?: string
+) => {
+  if (!type || !value || value <= 0) return 0;
+
+  const discount =
+    type === "PERCENTAGE"
+      ? roundHalfAwayFromZero((amount * value) / 100)
+      : toMinorUnits(value, currency);
+  return Math.min(discount, amount);
+};
+
+type LineAmounts = Pick<
+  InvoiceItem,
+  "quantity" | "unit_price" | "discount_type" | "discount_value"
+>;
+
+const calculateLineMinor = (item: LineAmounts, currency?: string) => {
+  const gross = roundHalfAwayFromZero(
+    item.quantity * toMinorUnits(item.unit_price, currency)
+  );
+  const discount = calculateDiscountMinor(
+    gross,
+    item.discount_type,
+    item.discount_value,
+    currency
+  );
+  return { gross, net: gross - discount };
+};
+
+// A discount never exceeds the amount it is taken from
+export const calculateDiscount = (
+  amount: number,
+  type?: DiscountType,
+  value?: number,
+  currency?: string
+) => {
+  return fromMinorUnits(
+    calculateDiscountMinor(
+      toMinorUnits(amount, currency),
+      type,
+      value,
+      currency
+    ),
+    currency
+  );
+};
+
+export const calculateLineTotal = (item: LineAmounts, currency?: string) => {
+  return fromMinorUnits(calculateLineMinor(item, currency).net, currency);
+};
+
+// Discounts come off before tax: line discounts first, then the invoice
+// discount on the discounted subtotal, spread over the lines in proportion to
+// their amounts. The invoice tax rate applies to the whole taxable amount;
+// line taxes apply to each line's share of it, with compound taxes charged on
+// top of the line's other taxes. With PER_LINE rounding every line's tax is
+// rounded before it is added up, with PER_INVOICE each tax is rounded once on
+// its total. The delivery fee is never discounted or taxed.
+export const calculateInvoiceTotals = (
+  data: Pick<
+    InvoiceFormData,
+    | "items"
+    | "tax_rate"
+    | "delivery_fee"
+    | "discount_type"
+    | "discount_value"
+    | "tax_rounding"
+  > & { currency?: string }
+): InvoiceTotals => {
+  const { currency } = data;
+  const lines = data.items.map((item) => calculateLineMinor(item, currency));
+  const subtotal = lines.reduce((sum, line) => sum + line.gross, 0);
+  const discountedSubtotal = lines.reduce((sum, line) => sum + line.net, 0);
+  const invoiceDiscount = calculateDiscountMinor(
+    discountedSubtotal,
+    data.discount_type,
+    data.discount_value,
+    currency
+  );
+  const taxableAmount = discountedSubtotal - invoiceDiscount;
+
+  // Each line's share of the taxable amount; the last line takes the
+  // remainder so the shares always add up to the taxable amount
+  let allocated = 0;
+  const bases = lines.map((line, index) => {
+    if (index === lines.length - 1) return taxableAmount - allocated;
+    const base =
+      discountedSubtotal !== 0
+        ? roundHalfAwayFromZero(
+            (line.net * taxableAmount) / discountedSubtotal
+          )
+        : line.net;
+    allocated += base;
+    return base;
+  });
+
+  const roundPerLine =
+    (data.tax_rounding || DEFAULT_TAX_ROUNDING) === "PER_LINE";
+  const taxTotals = new Map<
+    string,
+    Omit<TaxLine, "amount"> & { exact: number; rounded: number }
+  >();
+  const addTax = (
+    tax: Pick<ItemTax, "name" | "rate" | "is_withholding">,
+    base: number
+  ) => {
+    const exact = (base * tax.rate) / 100;
+    const rounded = roundHalfAwayFromZero(exact);
+    const key = `${tax.name}:${tax.rate}:${tax.is_withholding}`;
+    const total = taxTotals.get(key);
+    if (total) {
+      total.exact += exact;
+      total.rounded += rounded;
+    } else {
+      taxTotals.set(key, {
+        name: tax.name,
+        rate: tax.rate,
+        is_withholding: tax.is_withholding,
+        exact,
+        rounded,
+      });
+    }
+    return roundPerLine ? rounded : exact;
+  };
+
+  data.items.forEach((item, index) => {
+    if (data.tax_rate) {
+      addTax(
+        { name: "Tax", rate: data.tax_rate, is_withholding: false },
+        bases[index]
+      );
+    }
+
+    const taxes = item.taxes || [];
+    let chargedTax = 0;
+
+    taxes
+      .filter((tax) => !tax.is_compound)
+      .forEach((tax) => {
+        const amount = addTax(tax, bases[index]);
+        if (!tax.is_withholding) chargedTax += amount;
+      });
+    taxes
+      .filter((tax) => tax.is_compound)
+      .forEach((tax) => addTax(tax, bases[index] + chargedTax));
+  });
+
+  const taxLines = Array.from(taxTotals.values()).map(
+    ({ exact, rounded, ...tax }) => {
+      const amount = roundPerLine ? rounded : roundHalfAwayFromZero(exact);
+      return { ...tax, amount: tax.is_withholding ? -amount : amount };
+    }
+  );
+  const taxAmount = taxLines.reduce((sum, tax) => sum + tax.amount, 0);
+  const total =
+    taxableAmount + taxAmount + toMinorUnits(data.delivery_fee, currency);
+
+  const toMajor = (minorUnits: number) =>
+    fromMinorUnits(minorUnits, currency);
+  return {
+    subtotal: toMajor(subtotal),
+    lineDiscount: toMajor(subtotal - discountedSubtotal),
+    invoiceDiscount: toMajor(invoiceDiscount),
+    taxableAmount: toMajor(taxableAmount),
+    lineTaxableAmounts: bases.map(toMajor),
+    taxes: taxLines.map((tax) => ({ ...tax, amount: toMajor(tax.amount) })),
+    taxAmount: toMajor(taxAmount),
+    total: toMajor(total),
+  };
+};
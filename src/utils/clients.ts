@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+// Contact details shared by the client form and the CSV import
+export const clientDetailsSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  email: z.string().email("Invalid email address").optional().or(z.literal("")),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+});
+
+// Emails are compared case-insensitively when looking for duplicates
+export const normalizeEmail = (email?: string) => {
+  return (email || "").trim().toLowerCase();
+};
@@ -0,0 +1,54 @@
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  // Locale used for grouping, decimal separator and symbol placement
+  locale: string;
+  // ISO 4217 minor units (number of decimal places)
+  minorUnits: number;
+}
+
+export const DEFAULT_CURRENCY = "IDR";
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: "IDR", name: "Indonesian Rupiah", locale: "id-ID", minorUnits: 2 },
+  { code: "USD", name: "US Dollar", locale: "en-US", minorUnits: 2 },
+  { code: "SGD", name: "Singapore Dollar", locale: "en-SG", minorUnits: 2 },
+  { code: "EUR", name: "Euro", locale: "de-DE", minorUnits: 2 },
+  { code: "GBP", name: "British Pound", locale: "en-GB", minorUnits: 2 },
+  { code: "AUD", name: "Australian Dollar", locale: "en-AU", minorUnits: 2 },
+  { code: "JPY", name: "Japanese Yen", locale: "ja-JP", minorUnits: 0 },
+  { code: "MYR", name: "Malaysian Ringgit", locale: "ms-MY", minorUnits: 2 },
+];
+
+export const getCurrency = (code?: string): CurrencyInfo => {
+  const currencyCode = (code || DEFAULT_CURRENCY).toUpperCase();
+  return (
+    CURRENCIES.find((currency) => currency.code === currencyCode) || {
+      code: currencyCode,
+      name: currencyCode,
+      locale: "en-US",
+      minorUnits: 2,
+    }
+  );
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (code?: string) => {
+  const currency = getCurrency(code);
+  let formatter = formatters.get(currency.code);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(currency.locale, {
+      style: "currency",
+      currency: currency.code,
+      minimumFractionDigits: currency.minorUnits,
+      maximumFractionDigits: currency.minorUnits,
+    });
+    formatters.set(currency.code, formatter);
+  }
+  return formatter;
+};
+
+export const formatMoney = (amount: number, currency?: string) => {
+  return getFormatter(currency).format(amount || 0);
+};
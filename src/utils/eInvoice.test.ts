@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+} from "pdf-lib";
+import type {
+  Client,
+  Invoice,
+  InvoiceItem,
+  ItemTax,
+  User,
+} from "../types/index.ts";
+import {
+  buildCiiInvoice,
+  buildUblInvoice,
+  embedFacturX,
+  validateEInvoice,
+} from "./eInvoice.ts";
+import { convertInvoiceToFormData } from "./helper.ts";
+import { renderInvoicePdf } from "./pdf.ts";
+import { loadPdfFont } from "./pdfFonts.ts";
+
+const seller: User = {
+  id: 1,
+  name: "Northwind GmbH",
+  email: "billing@northwind.test",
+  address: "Hauptstrasse 1\n10115 Berlin",
+  phone: "",
+  country_code: "DE",
+  tax_id: "123456789",
+  bank_name: "",
+  bank_account_name: "",
+  bank_account_number: "",
+};
+
+const buyer: Client = {
+  id: 2,
+  name: "Acme BV",
+  email: "ap@acme.test",
+  country_code: "NL",
+};
+
+const item = (fields: Partial<InvoiceItem>): InvoiceItem => ({
+  description: "Item",
+  quantity: 1,
+  unit_price: 100,
+  total: 100,
+  ...fields,
+});
+
+const exempt: ItemTax = {
+  name: "Medical",
+  rate: 0,
+  is_withholding: false,
+  is_compound: false,
+  vat_category: "E",
+  exemption_reason: "Article 132(1)(c) of Directive 2006/112/EC",
+};
+
+const invoice = (fields: Partial<Invoice> = {}): Invoice => ({
+  id: 1,
+  invoice_number: "INV-2026-0001",
+  client_id: 2,
+  client_name: "Acme BV",
+  issue_date: "2026-10-01",
+  due_date: "2026-10-31",
+  currency: "EUR",
+  tax_rate: 0,
+  delivery_fee: 0,
+  status: "SENT",
+  items: [item({})],
+  ...fields,
+});
+
+describe("VAT categories", () => {
+  const vatRate = (rate: number): ItemTax => ({
+    name: "VAT",
+    rate,
+    is_withholding: false,
+    is_compound: false,
+  });
+
+  it("keeps zero rated and exempt lines apart", () => {
+    const xml = buildUblInvoice(
+      invoice({
+        items: [item({ taxes: [exempt] }), item({ taxes: [vatRate(0)] })],
+      }),
+      { seller, buyer }
+    );
+
+    expect(xml).toContain(
+      "<cac:TaxCategory><cbc:ID>E</cbc:ID><cbc:Percent>0</cbc:Percent><cbc:TaxExemptionReason>Article 132(1)(c) of Directive 2006/112/EC</cbc:TaxExemptionReason>"
+    );
+    expect(xml).toContain(
+      "<cac:TaxCategory><cbc:ID>Z</cbc:ID><cbc:Percent>0</cbc:Percent><cac:TaxScheme>"
+    );
+    expect(xml.match(/<cac:TaxSubtotal>/g)).toHaveLength(2);
+  });
+
+  it("gives the delivery fee the category of the untaxed lines", () => {
+    const data = invoice({
+      delivery_fee: 10,
+      items: [item({ taxes: [vatRate(19)] }), item({ taxes: [exempt] })],
+    });
+
+    expect(buildUblInvoice(data, { seller, buyer })).toContain(
+      '<cbc:Amount currencyID="EUR">10.00</cbc:Amount><cac:TaxCategory><cbc:ID>E</cbc:ID>'
+    );
+    const cii = buildCiiInvoice(data, { seller, buyer });
+    expect(cii).toContain(
+      "<ram:ExemptionReason>Article 132(1)(c) of Directive 2006/112/EC</ram:ExemptionReason><ram:BasisAmount>110.00</ram:BasisAmount><ram:CategoryCode>E</ram:CategoryCode>"
+    );
+    expect(cii).toContain(
+      "<ram:CategoryTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>E</ram:CategoryCode>"
+    );
+  });
+
+  it("requires a reason for exempt lines", () => {
+    const errors = validateEInvoice(
+      invoice({
+        items: [item({ taxes: [{ ...exempt, exemption_reason: "" }] })],
+      }),
+      seller,
+      buyer
+    );
+
+    expect(errors).toEqual([
+      "Line 1 is exempt from VAT without a reason; add one to the tax rate in Settings and apply it to the line again",
+    ]);
+  });
+});
+
+describe("prices", () => {
+  it("writes unit prices with the currency's decimals", () => {
+    const data = invoice({
+      items: [item({ quantity: 3, unit_price: 0.1 + 0.2, total: 0.9 })],
+    });
+
+    expect(buildUblInvoice(data, { seller, buyer })).toContain(
+      '<cbc:PriceAmount currencyID="EUR">0.30</cbc:PriceAmount>'
+    );
+    expect(buildCiiInvoice(data, { seller, buyer })).toContain(
+      "<ram:ChargeAmount>0.30</ram:ChargeAmount>"
+    );
+    expect(
+      buildUblInvoice(invoice({ currency: "JPY" }), { seller, buyer })
+    ).toContain('<cbc:PriceAmount currencyID="JPY">100</cbc:PriceAmount>');
+  });
+});
+
+describe("embedFacturX", () => {
+  it("produces a PDF/A-3 file with the CII XML attached", async () => {
+    const data = invoice({ client_name: "\u0141ukasz W\u00f3jcik" });
+    const base = renderInvoicePdf(convertInvoiceToFormData(data), {
+      embeddedFont: await loadPdfFont("sans"),
+    });
+    const bytes = new Uint8Array(
+      await (
+        await embedFacturX(base, buildCiiInvoice(data, { seller, buyer }), data)
+      ).arrayBuffer()
+    );
+    const document = await PDFDocument.load(bytes, { updateMetadata: false });
+    const catalog = document.catalog;
+    const text = (stream: PDFStream) =>
+      new TextDecoder().decode((stream as PDFRawStream).getContents());
+
+    expect(new TextDecoder().decode(bytes.slice(0, 8))).toBe("%PDF-1.7");
+
+    // Only embedded fonts are left in the page resources
+    const fonts = document
+      .getPage(0)
+      .node.Resources()!
+      .lookup(PDFName.of("Font"), PDFDict);
+    expect(fonts.entries().length).toBeGreaterThan(0);
+    fonts.entries().forEach(([, ref]) => {
+      const font = document.context.lookup(ref, PDFDict);
+      expect(font.get(PDFName.of("Subtype"))).toBe(PDFName.of("Type0"));
+    });
+
+    const outputIntent = catalog
+      .lookup(PDFName.of("OutputIntents"), PDFArray)
+      .lookup(0, PDFDict);
+    expect(outputIntent.get(PDFName.of("S"))).toBe(PDFName.of("GTS_PDFA1"));
+    expect(
+      outputIntent
+        .lookup(PDFName.of("DestOutputProfile"), PDFStream)
+        .dict.get(PDFName.of("N"))
+        ?.toString()
+    ).toBe("3");
+
+    const fileSpec = catalog
+      .lookup(PDFName.of("AF"), PDFArray)
+      .lookup(0, PDFDict);
+    expect(fileSpec.get(PDFName.of("F"))?.toString()).toBe("(factur-x.xml)");
+    expect(fileSpec.get(PDFName.of("AFRelationship"))).toBe(
+      PDFName.of("Alternative")
+    );
+
+    const metadata = text(catalog.lookup(PDFName.of("Metadata"), PDFStream));
+    expect(metadata).toContain("<pdfaid:part>3</pdfaid:part>");
+    expect(metadata).toContain(
+      "<fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>"
+    );
+    expect(metadata).toContain(
+      "<fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>"
+    );
+  });
+});
@@ -0,0 +1,866 @@
+import {
+  AFRelationship,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFName,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import type {
+  Client,
+  Invoice,
+  InvoiceItem,
+  User,
+  VatCategory,
+} from "../types/index.ts";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  roundMoney,
+  sumMoney,
+} from "./calculation.ts";
+import { isCountryCode } from "./countries.ts";
+import { getCurrency } from "./currency.ts";
+import { SRGB_PROFILE_NAME, buildSrgbProfile } from "./iccProfile.ts";
+import { describePaymentTerms } from "./paymentTerms.ts";
+
+export type EInvoiceFormat = "ubl" | "facturx";
+
+export const E_INVOICE_FORMAT_LABELS: Record<EInvoiceFormat, string> = {
+  ubl: "UBL 2.1 XML (Peppol BIS Billing 3.0)",
+  facturx: "Factur-X / ZUGFeRD PDF (EN 16931)",
+};
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  S: "Standard rated",
+  Z: "Zero rated",
+  E: "Exempt from VAT",
+};
+
+export interface EInvoiceOptions {
+  seller: User;
+  buyer: Client;
+  // Payments and credit notes already applied to the invoice
+  prepaidAmount?: number;
+}
+
+interface EInvoiceParty {
+  name: string;
+  email: string;
+  phone?: string;
+  addressLines: string[];
+  countryCode: string;
+  vatId: string;
+}
+
+interface EInvoiceVat {
+  category: VatCategory;
+  rate: number;
+  exemptionReason?: string;
+}
+
+interface EInvoiceLine {
+  description: string;
+  quantity: number;
+  unitCode: string;
+  unitPrice: number;
+  // Line discount plus the line's share of the invoice discount
+  allowance: number;
+  netAmount: number;
+  vat: EInvoiceVat;
+}
+
+interface VatBreakdown extends EInvoiceVat {
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+const PEPPOL_CUSTOMIZATION_ID =
+  "urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0";
+const PEPPOL_PROFILE_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+const EN16931_GUIDELINE_ID = "urn:cen.eu:en16931:2017";
+
+export const FACTUR_X_FILE_NAME = "factur-x.xml";
+const PDF_PRODUCER = "GoInvoice";
+
+// UN/ECE Recommendation 20 codes for common units; anything else is "one"
+const UNIT_CODES: Record<string, string> = {
+  h: "HUR",
+  hr: "HUR",
+  hrs: "HUR",
+  hour: "HUR",
+  hours: "HUR",
+  day: "DAY",
+  days: "DAY",
+  week: "WEE",
+  weeks: "WEE",
+  month: "MON",
+  months: "MON",
+  g: "GRM",
+  kg: "KGM",
+  m: "MTR",
+  km: "KMT",
+  m2: "MTK",
+  "m²": "MTK",
+  l: "LTR",
+  pc: "H87",
+  pcs: "H87",
+  piece: "H87",
+  pieces: "H87",
+};
+
+// Greece uses EL rather than its ISO code in VAT numbers
+const VAT_PREFIXES: Record<string, string> = { GR: "EL" };
+
+// Strips spacing and punctuation and adds the country prefix when missing,
+// e.g. "123 456 789" in Germany becomes DE123456789
+export const normalizeVatId = (taxId?: string, countryCode?: string) => {
+  const compact = (taxId || "").toUpperCase().replace(/[^A-Z0-9+*]/g, "");
+  if (!compact || /^[A-Z]{2}/.test(compact)) return compact;
+  const country = (countryCode || "").toUpperCase();
+  return country ? `${VAT_PREFIXES[country] || country}${compact}` : compact;
+};
+
+const isValidVatId = (vatId: string) => {
+  const prefix = vatId.slice(0, 2);
+  return (
+    /^[A-Z]{2}[A-Z0-9+*]{2,13}$/.test(vatId) &&
+    (isCountryCode(prefix) || prefix === "EL")
+  );
+};
+
+// Category for taxes that do not name one, such as the invoice-wide rate
+export const getVatCategory = (rate: number): VatCategory =>
+  rate > 0 ? "S" : "Z";
+
+// One VAT rate per line is all EN 16931 can express
+const getLineVat = (
+  invoice: Invoice,
+  item: InvoiceItem
+): EInvoiceVat | null => {
+  const taxes = item.taxes || [];
+  if (taxes.length === 0) {
+    const rate = invoice.tax_rate || 0;
+    return { category: getVatCategory(rate), rate };
+  }
+  if (
+    taxes.length > 1 ||
+    invoice.tax_rate ||
+    taxes[0].is_withholding ||
+    taxes[0].is_compound
+  ) {
+    return null;
+  }
+  return {
+    category: taxes[0].vat_category || getVatCategory(taxes[0].rate),
+    rate: taxes[0].rate,
+    exemptionReason: taxes[0].exemption_reason || undefined,
+  };
+};
+
+// Lists everything that keeps the invoice from being a valid e-invoice, in
+// words the user can act on
+export const validateEInvoice = (
+  invoice: Invoice,
+  seller: User | null,
+  buyer: Client | null
+): string[] => {
+  const errors: string[] = [];
+
+  if (!seller?.name) errors.push("Add your business name in Settings");
+  if (!seller?.email) errors.push("Add your email address in Settings");
+  if (!isCountryCode(seller?.country_code)) {
+    errors.push("Set your country in Settings");
+  }
+  const sellerVatId = normalizeVatId(seller?.tax_id, seller?.country_code);
+  if (!sellerVatId) {
+    errors.push("Add your VAT number in Settings");
+  } else if (!isValidVatId(sellerVatId)) {
+    errors.push(
+      `Your VAT number ${sellerVatId} is not valid; it must start with a country code`
+    );
+  }
+
+  if (!buyer) {
+    errors.push(
+      "Link the invoice to a saved client so their country can be included"
+    );
+  } else {
+    if (!isCountryCode(buyer.country_code)) {
+      errors.push(`Set the country for ${buyer.name} on the Clients page`);
+    }
+    const buyerVatId = normalizeVatId(buyer.tax_id, buyer.country_code);
+    if (buyerVatId && !isValidVatId(buyerVatId)) {
+      errors.push(
+        `The VAT number ${buyerVatId} of ${buyer.name} is not valid; it must start with a country code`
+      );
+    }
+    if (!invoice.client_email && !buyer.email) {
+      errors.push(`Add an email address for ${buyer.name}`);
+    }
+  }
+
+  if (!invoice.issue_date) errors.push("The invoice has no issue date");
+  if (invoice.items.length === 0) errors.push("The invoice has no line items");
+  invoice.items.forEach((item, index) => {
+    const vat = getLineVat(invoice, item);
+    if (vat === null) {
+      errors.push(
+        `Line ${
+          index + 1
+        } needs a single VAT rate; withholding and compound taxes cannot be exported`
+      );
+    } else if (vat.category === "E" && !vat.exemptionReason) {
+      errors.push(
+        `Line ${
+          index + 1
+        } is exempt from VAT without a reason; add one to the tax rate in Settings and apply it to the line again`
+      );
+    }
+  });
+
+  return errors;
+};
+
+const splitAddress = (address?: string) => {
+  const lines = (address || "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  // Both formats take at most three address lines
+  return lines.length > 3
+    ? [lines[0], lines[1], lines.slice(2).join(", ")]
+    : lines;
+};
+
+const toParty = (
+  details: Pick<User, "name" | "email" | "phone" | "address"> &
+    Pick<Client, "country_code" | "tax_id">
+): EInvoiceParty => {
+  const countryCode = (details.country_code || "").toUpperCase();
+  return {
+    name: details.name,
+    email: details.email,
+    phone: details.phone || undefined,
+    addressLines: splitAddress(details.address),
+    countryCode,
+    vatId: normalizeVatId(details.tax_id, countryCode),
+  };
+};
+
+const isIban = (accountNumber: string) =>
+  /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(accountNumber);
+
+// The amounts both formats are built from. Line amounts come from the same
+// calculation as the invoice itself, so the totals match the PDF to the cent.
+const buildEInvoice = (invoice: Invoice, options: EInvoiceOptions) => {
+  const currency = getCurrency(invoice.currency).code;
+  const totals = calculateInvoiceTotals({ ...invoice, currency });
+
+  const lines: EInvoiceLine[] = invoice.items.map((item, index) => {
+    const gross = calculateLineTotal(
+      { quantity: item.quantity, unit_price: item.unit_price },
+      currency
+    );
+    const netAmount = totals.lineTaxableAmounts[index];
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unitCode: UNIT_CODES[(item.unit || "").trim().toLowerCase()] || "C62",
+      // The calculation prices lines at the unit price in minor units
+      unitPrice: roundMoney(item.unit_price, currency),
+      allowance: roundMoney(gross - netAmount, currency),
+      netAmount,
+      vat: getLineVat(invoice, item) ?? { category: "Z", rate: 0 },
+    };
+  });
+
+  // The delivery fee is never taxed, so it follows the zero rated or exempt
+  // lines; next to standard rated lines only, it counts as zero rated
+  const chargeTotal = roundMoney(invoice.delivery_fee || 0, currency);
+  const untaxedLine = lines.find((line) => line.vat.category !== "S");
+  const chargeVat = untaxedLine?.vat || { category: "Z" as const, rate: 0 };
+
+  // One breakdown per category and rate, as EN 16931 requires
+  const charged = [
+    ...lines.map((line) => ({ vat: line.vat, amount: line.netAmount })),
+    ...(chargeTotal > 0 ? [{ vat: chargeVat, amount: chargeTotal }] : []),
+  ];
+  const groups = new Map<string, typeof charged>();
+  charged.forEach((entry) => {
+    const key = `${entry.vat.category}:${entry.vat.rate}`;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+  const vatBreakdown: VatBreakdown[] = Array.from(groups.values()).map(
+    (entries) => {
+      const { category, rate } = entries[0].vat;
+      const reasons = new Set(
+        entries.map((entry) => entry.vat.exemptionReason).filter(Boolean)
+      );
+      return {
+        category,
+        rate,
+        exemptionReason: Array.from(reasons).join("; ") || undefined,
+        taxableAmount: sumMoney(
+          entries.map((entry) => entry.amount),
+          currency
+        ),
+        taxAmount:
+          category === "S"
+            ? sumMoney(
+                totals.taxes
+                  .filter((tax) => tax.rate === rate)
+                  .map((tax) => tax.amount),
+                currency
+              )
+            : 0,
+      };
+    }
+  );
+
+  const prepaidAmount = roundMoney(options.prepaidAmount || 0, currency);
+  const seller = options.seller;
+  const buyer = options.buyer;
+
+  return {
+    currency,
+    lines,
+    chargeVat,
+    vatBreakdown,
+    lineTotal: totals.taxableAmount,
+    chargeTotal,
+    taxExclusiveAmount: sumMoney([totals.taxableAmount, chargeTotal], currency),
+    taxTotal: totals.taxAmount,
+    total: totals.total,
+    prepaidAmount,
+    payableAmount: roundMoney(totals.total - prepaidAmount, currency),
+    seller: toParty(seller),
+    buyer: toParty({
+      name: invoice.client_name || buyer.name,
+      email: invoice.client_email || buyer.email || "",
+      phone: invoice.client_phone || buyer.phone || "",
+      address: invoice.client_address || buyer.address || "",
+      country_code: buyer.country_code,
+      tax_id: buyer.tax_id,
+    }),
+    bankAccount: seller.bank_account_number
+      ? {
+          number: seller.bank_account_number.replace(/\s+/g, "").toUpperCase(),
+          name: seller.bank_account_name,
+          bic: seller.bank_bic,
+        }
+      : null,
+    paymentTerms:
+      invoice.payment_terms && describePaymentTerms(invoice.payment_terms),
+  };
+};
+
+const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+};
+
+const toAttributes = (attributes?: Record<string, string>) => {
+  return Object.entries(attributes || {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+};
+
+// Element holding text; left out entirely when there is no value
+const text = (
+  name: string,
+  value: string | number | null | undefined,
+  attributes?: Record<string, string>
+) => {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${name}${toAttributes(attributes)}>${escapeXml(
+    String(value)
+  )}</${name}>`;
+};
+
+// Element wrapping already serialized children
+const node = (
+  name: string,
+  children: string[],
+  attributes?: Record<string, string>
+) => {
+  return `<${name}${toAttributes(attributes)}>${children.join("")}</${name}>`;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+// UBL 2.1 invoice following the Peppol BIS Billing 3.0 rules. Parties are
+// addressed by email, as not every sender is registered on the Peppol network.
+export const buildUblInvoice = (
+  invoice: Invoice,
+  options: EInvoiceOptions
+): string => {
+  const data = buildEInvoice(invoice, options);
+  const { minorUnits } = getCurrency(data.currency);
+  const money = (name: string, amount: number) =>
+    text(name, amount.toFixed(minorUnits), { currencyID: data.currency });
+  // Peppol only allows the exemption reason in the VAT breakdown
+  const taxCategory = (name: string, vat: EInvoiceVat, withReason = false) =>
+    node(name, [
+      text("cbc:ID", vat.category),
+      text("cbc:Percent", vat.rate),
+      withReason ? text("cbc:TaxExemptionReason", vat.exemptionReason) : "",
+      node("cac:TaxScheme", [text("cbc:ID", "VAT")]),
+    ]);
+  const party = (details: EInvoiceParty) =>
+    node("cac:Party", [
+      text("cbc:EndpointID", details.email, { schemeID: "EM" }),
+      node("cac:PartyName", [text("cbc:Name", details.name)]),
+      node("cac:PostalAddress", [
+        text("cbc:StreetName", details.addressLines[0]),
+        text("cbc:AdditionalStreetName", details.addressLines[1]),
+        details.addressLines[2]
+          ? node("cac:AddressLine", [text("cbc:Line", details.addressLines[2])])
+          : "",
+        node("cac:Country", [
+          text("cbc:IdentificationCode", details.countryCode),
+        ]),
+      ]),
+      details.vatId
+        ? node("cac:PartyTaxScheme", [
+            text("cbc:CompanyID", details.vatId),
+            node("cac:TaxScheme", [text("cbc:ID", "VAT")]),
+          ])
+        : "",
+      node("cac:PartyLegalEntity", [
+        text("cbc:RegistrationName", details.name),
+      ]),
+      node("cac:Contact", [
+        text("cbc:Telephone", details.phone),
+        text("cbc:ElectronicMail", details.email),
+      ]),
+    ]);
+
+  const bankAccount = data.bankAccount;
+  return (
+    XML_DECLARATION +
+    node(
+      "Invoice",
+      [
+        text("cbc:CustomizationID", PEPPOL_CUSTOMIZATION_ID),
+        text("cbc:ProfileID", PEPPOL_PROFILE_ID),
+        text("cbc:ID", invoice.invoice_number),
+        text("cbc:IssueDate", invoice.issue_date?.slice(0, 10)),
+        text("cbc:DueDate", invoice.due_date.slice(0, 10)),
+        text("cbc:InvoiceTypeCode", "380"),
+        text("cbc:Note", invoice.notes),
+        text("cbc:DocumentCurrencyCode", data.currency),
+        // Peppol requires a buyer reference; without a purchase order number
+        // the invoice number is the best reference the buyer has
+        text("cbc:BuyerReference", invoice.invoice_number),
+        node("cac:AccountingSupplierParty", [party(data.seller)]),
+        node("cac:AccountingCustomerParty", [party(data.buyer)]),
+        bankAccount
+          ? node("cac:PaymentMeans", [
+              text(
+                "cbc:PaymentMeansCode",
+                isIban(bankAccount.number) ? "58" : "30"
+              ),
+              text("cbc:PaymentID", invoice.invoice_number),
+              node("cac:PayeeFinancialAccount", [
+                text("cbc:ID", bankAccount.number),
+                text("cbc:Name", bankAccount.name),
+                bankAccount.bic
+                  ? node("cac:FinancialInstitutionBranch", [
+                      text("cbc:ID", bankAccount.bic),
+                    ])
+                  : "",
+              ]),
+            ])
+          : "",
+        data.paymentTerms
+          ? node("cac:PaymentTerms", [text("cbc:Note", data.paymentTerms)])
+          : "",
+        data.chargeTotal > 0
+          ? node("cac:AllowanceCharge", [
+              text("cbc:ChargeIndicator", "true"),
+              text("cbc:AllowanceChargeReason", "Delivery"),
+              money("cbc:Amount", data.chargeTotal),
+              taxCategory("cac:TaxCategory", data.chargeVat),
+            ])
+          : "",
+        node("cac:TaxTotal", [
+          money("cbc:TaxAmount", data.taxTotal),
+          ...data.vatBreakdown.map((vat) =>
+            node("cac:TaxSubtotal", [
+              money("cbc:TaxableAmount", vat.taxableAmount),
+              money("cbc:TaxAmount", vat.taxAmount),
+              taxCategory("cac:TaxCategory", vat, true),
+            ])
+          ),
+        ]),
+        node("cac:LegalMonetaryTotal", [
+          money("cbc:LineExtensionAmount", data.lineTotal),
+          money("cbc:TaxExclusiveAmount", data.taxExclusiveAmount),
+          money("cbc:TaxInclusiveAmount", data.total),
+          data.chargeTotal > 0
+            ? money("cbc:ChargeTotalAmount", data.chargeTotal)
+            : "",
+          data.prepaidAmount > 0
+            ? money("cbc:PrepaidAmount", data.prepaidAmount)
+            : "",
+          money("cbc:PayableAmount", data.payableAmount),
+        ]),
+        ...data.lines.map((line, index) =>
+          node("cac:InvoiceLine", [
+            text("cbc:ID", index + 1),
+            text("cbc:InvoicedQuantity", line.quantity, {
+              unitCode: line.unitCode,
+            }),
+            money("cbc:LineExtensionAmount", line.netAmount),
+            line.allowance > 0
+              ? node("cac:AllowanceCharge", [
+                  text("cbc:ChargeIndicator", "false"),
+                  text("cbc:AllowanceChargeReason", "Discount"),
+                  money("cbc:Amount", line.allowance),
+                ])
+              : "",
+            node("cac:Item", [
+              text("cbc:Name", line.description),
+              taxCategory("cac:ClassifiedTaxCategory", line.vat),
+            ]),
+            node("cac:Price", [money("cbc:PriceAmount", line.unitPrice)]),
+          ])
+        ),
+      ],
+      {
+        xmlns: "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2",
+        "xmlns:cac":
+          "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2",
+        "xmlns:cbc":
+          "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2",
+      }
+    )
+  );
+};
+
+// UN/CEFACT Cross Industry Invoice in the EN 16931 profile, the XML that
+// Factur-X and ZUGFeRD embed in the PDF
+export const buildCiiInvoice = (
+  invoice: Invoice,
+  options: EInvoiceOptions
+): string => {
+  const data = buildEInvoice(invoice, options);
+  const { minorUnits } = getCurrency(data.currency);
+  const amount = (name: string, value: number) =>
+    text(name, value.toFixed(minorUnits));
+  const date = (name: string, value: string) =>
+    node(name, [
+      text("udt:DateTimeString", value.slice(0, 10).replace(/-/g, ""), {
+        format: "102",
+      }),
+    ]);
+  const tradeTax = (name: string, vat: EInvoiceVat) =>
+    node(name, [
+      text("ram:TypeCode", "VAT"),
+      text("ram:CategoryCode", vat.category),
+      text("ram:RateApplicablePercent", vat.rate),
+    ]);
+  const party = (name: string, details: EInvoiceParty) =>
+    node(name, [
+      text("ram:Name", details.name),
+      node("ram:DefinedTradeContact", [
+        details.phone
+          ? node("ram:TelephoneUniversalCommunication", [
+              text("ram:CompleteNumber", details.phone),
+            ])
+          : "",
+        node("ram:EmailURIUniversalCommunication", [
+          text("ram:URIID", details.email),
+        ]),
+      ]),
+      node("ram:PostalTradeAddress", [
+        text("ram:LineOne", details.addressLines[0]),
+        text("ram:LineTwo", details.addressLines[1]),
+        text("ram:LineThree", details.addressLines[2]),
+        text("ram:CountryID", details.countryCode),
+      ]),
+      node("ram:URIUniversalCommunication", [
+        text("ram:URIID", details.email, { schemeID: "EM" }),
+      ]),
+      details.vatId
+        ? node("ram:SpecifiedTaxRegistration", [
+            text("ram:ID", details.vatId, { schemeID: "VA" }),
+          ])
+        : "",
+    ]);
+
+  const bankAccount = data.bankAccount;
+  return (
+    XML_DECLARATION +
+    node(
+      "rsm:CrossIndustryInvoice",
+      [
+        node("rsm:ExchangedDocumentContext", [
+          node("ram:GuidelineSpecifiedDocumentContextParameter", [
+            text("ram:ID", EN16931_GUIDELINE_ID),
+          ]),
+        ]),
+        node("rsm:ExchangedDocument", [
+          text("ram:ID", invoice.invoice_number),
+          text("ram:TypeCode", "380"),
+          date("ram:IssueDateTime", invoice.issue_date || ""),
+          invoice.notes
+            ? node("ram:IncludedNote", [text("ram:Content", invoice.notes)])
+            : "",
+        ]),
+        node("rsm:SupplyChainTradeTransaction", [
+          ...data.lines.map((line, index) =>
+            node("ram:IncludedSupplyChainTradeLineItem", [
+              node("ram:AssociatedDocumentLineDocument", [
+                text("ram:LineID", index + 1),
+              ]),
+              node("ram:SpecifiedTradeProduct", [
+                text("ram:Name", line.description),
+              ]),
+              node("ram:SpecifiedLineTradeAgreement", [
+                node("ram:NetPriceProductTradePrice", [
+                  amount("ram:ChargeAmount", line.unitPrice),
+                ]),
+              ]),
+              node("ram:SpecifiedLineTradeDelivery", [
+                text("ram:BilledQuantity", line.quantity, {
+                  unitCode: line.unitCode,
+                }),
+              ]),
+              node("ram:SpecifiedLineTradeSettlement", [
+                tradeTax("ram:ApplicableTradeTax", line.vat),
+                line.allowance > 0
+                  ? node("ram:SpecifiedTradeAllowanceCharge", [
+                      node("ram:ChargeIndicator", [
+                        text("udt:Indicator", "false"),
+                      ]),
+                      amount("ram:ActualAmount", line.allowance),
+                      text("ram:Reason", "Discount"),
+                    ])
+                  : "",
+                node("ram:SpecifiedTradeSettlementLineMonetarySummation", [
+                  amount("ram:LineTotalAmount", line.netAmount),
+                ]),
+              ]),
+            ])
+          ),
+          node("ram:ApplicableHeaderTradeAgreement", [
+            text("ram:BuyerReference", invoice.invoice_number),
+            party("ram:SellerTradeParty", data.seller),
+            party("ram:BuyerTradeParty", data.buyer),
+          ]),
+          node("ram:ApplicableHeaderTradeDelivery", []),
+          node("ram:ApplicableHeaderTradeSettlement", [
+            text("ram:PaymentReference", invoice.invoice_number),
+            text("ram:InvoiceCurrencyCode", data.currency),
+            bankAccount
+              ? node("ram:SpecifiedTradeSettlementPaymentMeans", [
+                  text(
+                    "ram:TypeCode",
+                    isIban(bankAccount.number) ? "58" : "30"
+                  ),
+                  node("ram:PayeePartyCreditorFinancialAccount", [
+                    isIban(bankAccount.number)
+                      ? text("ram:IBANID", bankAccount.number)
+                      : text("ram:ProprietaryID", bankAccount.number),
+                    text("ram:AccountName", bankAccount.name),
+                  ]),
+                  bankAccount.bic
+                    ? node("ram:PayeeSpecifiedCreditorFinancialInstitution", [
+                        text("ram:BICID", bankAccount.bic),
+                      ])
+                    : "",
+                ])
+              : "",
+            ...data.vatBreakdown.map((vat) =>
+              node("ram:ApplicableTradeTax", [
+                amount("ram:CalculatedAmount", vat.taxAmount),
+                text("ram:TypeCode", "VAT"),
+                text("ram:ExemptionReason", vat.exemptionReason),
+                amount("ram:BasisAmount", vat.taxableAmount),
+                text("ram:CategoryCode", vat.category),
+                text("ram:RateApplicablePercent", vat.rate),
+              ])
+            ),
+            data.chargeTotal > 0
+              ? node("ram:SpecifiedTradeAllowanceCharge", [
+                  node("ram:ChargeIndicator", [text("udt:Indicator", "true")]),
+                  amount("ram:ActualAmount", data.chargeTotal),
+                  text("ram:Reason", "Delivery"),
+                  tradeTax("ram:CategoryTradeTax", data.chargeVat),
+                ])
+              : "",
+            node("ram:SpecifiedTradePaymentTerms", [
+              text("ram:Description", data.paymentTerms),
+              date("ram:DueDateDateTime", invoice.due_date),
+            ]),
+            node("ram:SpecifiedTradeSettlementHeaderMonetarySummation", [
+              amount("ram:LineTotalAmount", data.lineTotal),
+              data.chargeTotal > 0
+                ? amount("ram:ChargeTotalAmount", data.chargeTotal)
+                : "",
+              amount("ram:TaxBasisTotalAmount", data.taxExclusiveAmount),
+              text("ram:TaxTotalAmount", data.taxTotal.toFixed(minorUnits), {
+                currencyID: data.currency,
+              }),
+              amount("ram:GrandTotalAmount", data.total),
+              data.prepaidAmount > 0
+                ? amount("ram:TotalPrepaidAmount", data.prepaidAmount)
+                : "",
+              amount("ram:DuePayableAmount", data.payableAmount),
+            ]),
+          ]),
+        ]),
+      ],
+      {
+        "xmlns:rsm":
+          "urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100",
+        "xmlns:ram":
+          "urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100",
+        "xmlns:udt":
+          "urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100",
+        "xmlns:qdt":
+          "urn:un:unece:uncefact:data:standard:QualifiedDataType:100",
+      }
+    )
+  );
+};
+
+// XMP dates leave out milliseconds, like the PDF dates they repeat
+const toXmpDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+// XMP metadata that marks the PDF as PDF/A-3B and Factur-X, including the
+// PDF/A extension schema that declares the fx properties. PDF/A also requires
+// every entry of the document information dictionary to be repeated here.
+const getFacturXMetadata = (
+  title: string,
+  date: Date
+) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+<pdfaid:part>3</pdfaid:part>
+<pdfaid:conformance>B</pdfaid:conformance>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(
+  title
+)}</rdf:li></rdf:Alt></dc:title>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+<xmp:CreatorTool>${PDF_PRODUCER}</xmp:CreatorTool>
+<xmp:CreateDate>${toXmpDate(date)}</xmp:CreateDate>
+<xmp:ModifyDate>${toXmpDate(date)}</xmp:ModifyDate>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+<pdf:Producer>${PDF_PRODUCER}</pdf:Producer>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+<fx:DocumentType>INVOICE</fx:DocumentType>
+<fx:DocumentFileName>${FACTUR_X_FILE_NAME}</fx:DocumentFileName>
+<fx:Version>1.0</fx:Version>
+<fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">
+<pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+<pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+<pdfaSchema:prefix>fx</pdfaSchema:prefix>
+<pdfaSchema:property><rdf:Seq>
+${["DocumentFileName", "DocumentType", "Version", "ConformanceLevel"]
+  .map(
+    (name) =>
+      `<rdf:li rdf:parseType="Resource"><pdfaProperty:name>${name}</pdfaProperty:name><pdfaProperty:valueType>Text</pdfaProperty:valueType><pdfaProperty:category>external</pdfaProperty:category><pdfaProperty:description>${name}</pdfaProperty:description></rdf:li>`
+  )
+  .join("\n")}
+</rdf:Seq></pdfaSchema:property>
+</rdf:li></rdf:Bag></pdfaExtension:schemas>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+// jsPDF lists the 14 built-in fonts in every page's resources whether they are
+// used or not. PDF/A only allows embedded fonts, so the unused ones are removed.
+const removeBuiltInFonts = (document: PDFDocument) => {
+  document.getPages().forEach((page) => {
+    const fonts = page.node
+      .Resources()
+      ?.lookupMaybe(PDFName.of("Font"), PDFDict);
+    fonts?.entries().forEach(([name, ref]) => {
+      const font = document.context.lookup(ref, PDFDict);
+      if (!font.has(PDFName.of("FontDescriptor"))) {
+        if (font.get(PDFName.of("Subtype")) !== PDFName.of("Type1")) return;
+        fonts.delete(name);
+        if (ref instanceof PDFRef) document.context.delete(ref);
+      }
+    });
+  });
+};
+
+// Turns a PDF from renderInvoicePdf, rendered with an embedded font, into a
+// Factur-X invoice: a PDF/A-3B file with the CII XML attached as factur-x.xml,
+// an sRGB output intent and matching XMP metadata
+export const embedFacturX = async (
+  pdf: Blob,
+  xml: string,
+  invoice: Invoice
+): Promise<Blob> => {
+  const document = await PDFDocument.load(await pdf.arrayBuffer(), {
+    updateMetadata: false,
+  });
+  // PDF dates have no milliseconds
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const title = `Invoice ${invoice.invoice_number}`;
+
+  removeBuiltInFonts(document);
+  await document.attach(new TextEncoder().encode(xml), FACTUR_X_FILE_NAME, {
+    mimeType: "text/xml",
+    description: "Factur-X invoice",
+    creationDate: now,
+    modificationDate: now,
+    afRelationship: AFRelationship.Alternative,
+  });
+
+  // PDF/A-3 is based on PDF 1.7
+  document.context.header = PDFHeader.forVersion(1, 7);
+  document.setTitle(title);
+  document.setCreator(PDF_PRODUCER);
+  document.setProducer(PDF_PRODUCER);
+  document.setCreationDate(now);
+  document.setModificationDate(now);
+
+  const metadata = document.context.stream(
+    new TextEncoder().encode(getFacturXMetadata(title, now)),
+    { Type: "Metadata", Subtype: "XML" }
+  );
+  document.catalog.set(
+    PDFName.of("Metadata"),
+    document.context.register(metadata)
+  );
+
+  const outputIntent = document.context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFString.of(SRGB_PROFILE_NAME),
+    Info: PDFString.of(SRGB_PROFILE_NAME),
+    DestOutputProfile: document.context.register(
+      document.context.flateStream(buildSrgbProfile(), { N: 3 })
+    ),
+  });
+  document.catalog.set(
+    PDFName.of("OutputIntents"),
+    document.context.obj([document.context.register(outputIntent)])
+  );
+
+  const bytes = await document.save();
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], {
+    type: "application/pdf",
+  });
+};
@@ -0,0 +1,58 @@
+import type { Invoice, User } from "../types/index.ts";
+import { formatMoney } from "./currency.ts";
+import { formatDate } from "./helper.ts";
+
+export const DEFAULT_EMAIL_SUBJECT =
+  "Invoice {invoice_number} from {sender_name}";
+
+export const DEFAULT_EMAIL_BODY = `Hi {client_name},
+
+Please find attached invoice {invoice_number} for {total}, due on {due_date}.
+
+Thank you for your business!
+
+{sender_name}`;
+
+export const EMAIL_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: "{client_name}", description: "Client name" },
+  { token: "{invoice_number}", description: "Invoice number" },
+  { token: "{total}", description: "Invoice total" },
+  { token: "{balance_due}", description: "Amount still owed" },
+  { token: "{due_date}", description: "Due date" },
+  { token: "{sender_name}", description: "Your name" },
+];
+
+export const getEmailTemplateValues = (
+  invoice: Invoice,
+  user?: User | null
+): Record<string, string> => {
+  return {
+    client_name: invoice.client_name,
+    invoice_number: invoice.invoice_number,
+    total: formatMoney(invoice.total || 0, invoice.currency),
+    balance_due: formatMoney(
+      invoice.balance_due ?? invoice.total ?? 0,
+      invoice.currency
+    ),
+    due_date: invoice.due_date ? formatDate(invoice.due_date) : "",
+    sender_name: user?.name || "",
+  };
+};
+
+// Unknown placeholders are left as typed so mistakes stay visible
+export const fillEmailTemplate = (
+  template: string,
+  values: Record<string, string>
+) => {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+};
+
+// Recipients are typed as a comma or semicolon separated list
+export const parseEmailList = (value: string) => {
+  return value
+    .split(/[,;]/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+};
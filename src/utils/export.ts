@@ -0,0 +1,343 @@
+import { format } from "date-fns";
+import writeXlsxFile from "write-excel-file/browser";
+import type { Cell } from "write-excel-file/browser";
+import type { Client, Invoice, InvoiceItem } from "../types/index.ts";
+import { getCurrency } from "./currency.ts";
+import { INVOICE_STATUS_LABELS } from "./helper.ts";
+import { describePaymentTerms } from "./paymentTerms.ts";
+
+export type ExportFormat = "csv" | "xlsx";
+
+// Invoice exports have one row per invoice or one per line item
+export type ExportLevel = "invoice" | "item";
+
+export type ExportCellType = "text" | "number" | "money" | "date";
+
+export interface ExportColumn<Row> {
+  key: string;
+  label: string;
+  type: ExportCellType;
+  // Dates are ISO strings, money is in the row's currency
+  value: (row: Row) => string | number | null | undefined;
+  currency?: (row: Row) => string | undefined;
+  // Only available when exporting line items
+  level?: ExportLevel;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[];
+  level: ExportLevel;
+}
+
+export interface InvoiceExportRow {
+  invoice: Invoice;
+  item?: InvoiceItem;
+}
+
+const invoiceCurrency = (row: InvoiceExportRow) => row.invoice.currency;
+
+export const INVOICE_EXPORT_COLUMNS: ExportColumn<InvoiceExportRow>[] = [
+  {
+    key: "invoice_number",
+    label: "Invoice Number",
+    type: "text",
+    value: (row) => row.invoice.invoice_number,
+  },
+  {
+    key: "status",
+    label: "Status",
+    type: "text",
+    value: (row) => INVOICE_STATUS_LABELS[row.invoice.status],
+  },
+  {
+    key: "client_name",
+    label: "Client",
+    type: "text",
+    value: (row) => row.invoice.client_name,
+  },
+  {
+    key: "client_email",
+    label: "Client Email",
+    type: "text",
+    value: (row) => row.invoice.client_email,
+  },
+  {
+    key: "issue_date",
+    label: "Issue Date",
+    type: "date",
+    value: (row) => row.invoice.issue_date,
+  },
+  {
+    key: "due_date",
+    label: "Due Date",
+    type: "date",
+    value: (row) => row.invoice.due_date,
+  },
+  {
+    key: "payment_terms",
+    label: "Payment Terms",
+    type: "text",
+    value: (row) =>
+      row.invoice.payment_terms &&
+      describePaymentTerms(row.invoice.payment_terms),
+  },
+  {
+    key: "currency",
+    label: "Currency",
+    type: "text",
+    value: (row) => getCurrency(row.invoice.currency).code,
+  },
+  {
+    key: "item_description",
+    label: "Item",
+    type: "text",
+    value: (row) => row.item?.description,
+    level: "item",
+  },
+  {
+    key: "item_quantity",
+    label: "Quantity",
+    type: "number",
+    value: (row) => row.item?.quantity,
+    level: "item",
+  },
+  {
+    key: "item_unit",
+    label: "Unit",
+    type: "text",
+    value: (row) => row.item?.unit,
+    level: "item",
+  },
+  {
+    key: "item_unit_price",
+    label: "Unit Price",
+    type: "money",
+    value: (row) => row.item?.unit_price,
+    currency: invoiceCurrency,
+    level: "item",
+  },
+  {
+    key: "item_total",
+    label: "Line Total",
+    type: "money",
+    value: (row) => row.item?.total,
+    currency: invoiceCurrency,
+    level: "item",
+  },
+  {
+    key: "subtotal",
+    label: "Subtotal",
+    type: "money",
+    value: (row) => row.invoice.subtotal,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "discount_amount",
+    label: "Discount",
+    type: "money",
+    value: (row) => row.invoice.discount_amount,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "tax_amount",
+    label: "Tax",
+    type: "money",
+    value: (row) => row.invoice.tax_amount,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "delivery_fee",
+    label: "Delivery Fee",
+    type: "money",
+    value: (row) => row.invoice.delivery_fee,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "total",
+    label: "Total",
+    type: "money",
+    value: (row) => row.invoice.total,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "amount_paid",
+    label: "Amount Paid",
+    type: "money",
+    value: (row) => row.invoice.amount_paid,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "balance_due",
+    label: "Balance Due",
+    type: "money",
+    value: (row) => row.invoice.balance_due,
+    currency: invoiceCurrency,
+  },
+  {
+    key: "notes",
+    label: "Notes",
+    type: "text",
+    value: (row) => row.invoice.notes,
+  },
+];
+
+export const CLIENT_EXPORT_COLUMNS: ExportColumn<Client>[] = [
+  { key: "name", label: "Name", type: "text", value: (client) => client.name },
+  {
+    key: "email",
+    label: "Email",
+    type: "text",
+    value: (client) => client.email,
+  },
+  {
+    key: "phone",
+    label: "Phone",
+    type: "text",
+    value: (client) => client.phone,
+  },
+  {
+    key: "address",
+    label: "Address",
+    type: "text",
+    value: (client) => client.address,
+  },
+  {
+    key: "payment_terms",
+    label: "Payment Terms",
+    type: "text",
+    value: (client) =>
+      client.payment_terms && describePaymentTerms(client.payment_terms),
+  },
+  {
+    key: "created_at",
+    label: "Created",
+    type: "date",
+    value: (client) => client.created_at,
+  },
+];
+
+// Line item exports repeat the invoice columns on every item row
+export const toInvoiceExportRows = (
+  invoices: Invoice[],
+  level: ExportLevel
+): InvoiceExportRow[] => {
+  return invoices.flatMap((invoice) =>
+    level === "item"
+      ? invoice.items.map((item) => ({ invoice, item }))
+      : [{ invoice }]
+  );
+};
+
+// Date strings and timestamps are exported as their calendar day
+const toDateOnly = (value: string) => value.slice(0, 10);
+
+const getMoneyDecimals = (currency?: string) =>
+  getCurrency(currency).minorUnits;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (text: string) => {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvValue = <Row>(column: ExportColumn<Row>, row: Row) => {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === "") return "";
+
+  let text: string;
+  if (column.type === "money") {
+    text = Number(value).toFixed(getMoneyDecimals(column.currency?.(row)));
+  } else if (column.type === "number") {
+    text = String(Number(value));
+  } else if (column.type === "date") {
+    text = toDateOnly(String(value));
+  } else {
+    text = String(value);
+    if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  }
+  return escapeCsv(text);
+};
+
+const toXlsxCell = <Row>(column: ExportColumn<Row>, row: Row): Cell => {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === "") return null;
+
+  if (column.type === "money") {
+    const decimals = getMoneyDecimals(column.currency?.(row));
+    return {
+      value: Number(value),
+      type: Number,
+      format: decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0",
+    };
+  }
+  if (column.type === "number") {
+    return { value: Number(value), type: Number };
+  }
+  if (column.type === "date") {
+    // Excel dates carry no time zone, so the calendar day is kept in UTC
+    const [year, month, day] = toDateOnly(String(value)).split("-");
+    return {
+      value: new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))),
+      type: Date,
+      format: "yyyy-mm-dd",
+    };
+  }
+  return { value: String(value), type: String };
+};
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+// Writes the rows with the chosen columns, in the order they are defined, and
+// downloads the file as `<name>-<date>.csv` or `.xlsx`
+export const exportRows = async <Row>(
+  rows: Row[],
+  columns: ExportColumn<Row>[],
+  exportFormat: ExportFormat,
+  name: string
+) => {
+  const fileName = `${name}-${format(
+    new Date(),
+    "yyyy-MM-dd"
+  )}.${exportFormat}`;
+
+  if (exportFormat === "csv") {
+    const lines = [
+      columns.map((column) => escapeCsv(column.label)),
+      ...rows.map((row) => columns.map((column) => toCsvValue(column, row))),
+    ];
+    // The byte order mark makes Excel read the file as UTF-8
+    const csv = `\uFEFF${lines.map((line) => line.join(",")).join("\r\n")}`;
+    downloadFile(new Blob([csv], { type: "text/csv;charset=utf-8" }), fileName);
+    return;
+  }
+
+  const blob = await writeXlsxFile(
+    [
+      columns.map((column) => ({
+        value: column.label,
+        type: String,
+        fontWeight: "bold" as const,
+      })),
+      ...rows.map((row) => columns.map((column) => toXlsxCell(column, row))),
+    ],
+    {
+      sheet: name.charAt(0).toUpperCase() + name.slice(1),
+      columns: columns.map((column) => ({
+        width: column.type === "text" ? 24 : 14,
+      })),
+      stickyRowsCount: 1,
+    }
+  ).toBlob();
+  downloadFile(blob, fileName);
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  getDaysOverdue,
+  getDuplicateDueDate,
+  getPaymentStatus,
+} from "./helper.ts";
+
+describe("getPaymentStatus", () => {
+  it("settles invoices with payments and credit notes", () => {
+    expect(getPaymentStatus(100, 0)).toBe("SENT");
+    expect(getPaymentStatus(100, 40)).toBe("PARTIALLY_PAID");
+    expect(getPaymentStatus(0.8, 0.7, 0.1, "USD")).toBe("PAID");
+  });
+
+  it("marks invoices credited in full as paid", () => {
+    expect(getPaymentStatus(100, 0, 100)).toBe("PAID");
+    expect(getPaymentStatus(100, 0, 30)).toBe("SENT");
+  });
+});
+
+describe("getDaysOverdue", () => {
+  afterEach(() => {
+    delete process.env.TZ;
+  });
+
+  it("counts from the local due date", () => {
+    // West of UTC, "2026-10-01" read as UTC midnight would fall on 30 September
+    process.env.TZ = "America/Los_Angeles";
+    const invoice = { status: "SENT" as const, due_date: "2026-10-01" };
+    expect(getDaysOverdue(invoice, new Date(2026, 9, 1, 23))).toBe(0);
+    expect(getDaysOverdue(invoice, new Date(2026, 9, 2))).toBe(1);
+    expect(
+      getDaysOverdue({ ...invoice, status: "PAID" }, new Date(2026, 9, 5))
+    ).toBe(0);
+  });
+});
+
+describe("getDuplicateDueDate", () => {
+  afterEach(() => {
+    delete process.env.TZ;
+  });
+
+  it("keeps the payment period of the source", () => {
+    process.env.TZ = "America/Los_Angeles";
+    expect(
+      getDuplicateDueDate(
+        { issue_date: "2026-10-01", due_date: "2026-10-31" },
+        new Date(2026, 11, 1)
+      )
+    ).toBe("2026-12-31");
+  });
+});
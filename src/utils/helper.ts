@@ -1,6 +1,229 @@
 
-import { format } from "date-fns";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type {
+  CreditNote,
+  Invoice,
+  InvoiceFormData,
+  InvoiceItem,
+  InvoiceStatus,
+  PaymentMethod,
+  Quote,
+  QuoteStatus,
+  RecurringFrequency,
+} from "../types/index.ts";
+import { sumMoney } from "./calculation.ts";
+import { DEFAULT_CURRENCY, formatMoney, getCurrency } from "./currency.ts";
 
 export const formatDate = (date: string) => {
   return format(new Date(date), "dd MMM yyyy")
 };
+
+export const toDateInputValue = (date: Date) => {
+  return date.toISOString().split("T")[0];
+};
+
+export const DEFAULT_QUANTITY_PRECISION = 2;
+export const QUANTITY_PRECISION_OPTIONS = [0, 1, 2, 3, 4];
+
+export const roundQuantity = (
+  quantity: number,
+  precision = DEFAULT_QUANTITY_PRECISION
+) => {
+  const factor = 10 ** precision;
+  return Math.round(quantity * factor) / factor;
+};
+
+// Quantities print up to the document's precision without trailing zeros,
+// using the number style of the document currency
+export const formatQuantity = (
+  quantity: number,
+  precision = DEFAULT_QUANTITY_PRECISION,
+  currency?: string
+) => {
+  return new Intl.NumberFormat(getCurrency(currency).locale, {
+    maximumFractionDigits: precision,
+  }).format(quantity);
+};
+
+// e.g. "2.5 hrs × IDR 150,000"
+export const formatItemRate = (
+  item: Pick<InvoiceItem, "quantity" | "unit" | "unit_price">,
+  currency?: string,
+  precision = DEFAULT_QUANTITY_PRECISION
+) => {
+  const quantity = formatQuantity(item.quantity, precision, currency);
+  const unit = item.unit ? ` ${item.unit}` : "";
+  return `${quantity}${unit} × ${formatMoney(item.unit_price, currency)}`;
+};
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  QUARTERLY: "Quarterly",
+  YEARLY: "Yearly",
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_PAID: "Partially Paid",
+  PAID: "Paid",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  BANK_TRANSFER: "Bank Transfer",
+  CASH: "Cash",
+  CARD: "Card",
+  E_WALLET: "E-Wallet",
+  OTHER: "Other",
+};
+
+// Status an invoice should have once the given amounts have been paid and
+// credited. Credit notes settle the invoice like payments do, but credits
+// alone do not make it partially paid.
+export const getPaymentStatus = (
+  total: number,
+  amountPaid: number,
+  amountCredited: number = 0,
+  currency?: string
+): InvoiceStatus => {
+  const settled = sumMoney([amountPaid, amountCredited], currency);
+  if (settled > 0 && settled >= total) return "PAID";
+  return amountPaid > 0 ? "PARTIALLY_PAID" : "SENT";
+};
+
+// Overdue is derived from the due date; only unpaid, issued invoices qualify
+export const getDaysOverdue = (
+  invoice: Pick<Invoice, "status" | "due_date">,
+  today: Date = new Date()
+) => {
+  if (invoice.status !== "SENT" && invoice.status !== "PARTIALLY_PAID") {
+    return 0;
+  }
+  if (!invoice.due_date) return 0;
+  // Due dates are local days; new Date() would read them as UTC midnight
+  return Math.max(
+    0,
+    differenceInCalendarDays(today, parseISO(invoice.due_date))
+  );
+};
+
+export const isOverdue = (invoice: Pick<Invoice, "status" | "due_date">) => {
+  return getDaysOverdue(invoice) > 0;
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+};
+
+// Shape an invoice for the preview, the PDF renderer and the invoice form
+export const convertInvoiceToFormData = (invoice: Invoice): InvoiceFormData => {
+  return {
+    client_id: invoice.client_id,
+    client_name: invoice.client_name,
+    client_email: invoice.client_email || "",
+    client_address: invoice.client_address || "",
+    client_phone: invoice.client_phone || "",
+    invoice_number: invoice.invoice_number,
+    issue_date: invoice.issue_date ? invoice.issue_date.split("T")[0] : "",
+    due_date: invoice.due_date ? invoice.due_date.split("T")[0] : "",
+    payment_terms: invoice.payment_terms || undefined,
+    currency: invoice.currency || DEFAULT_CURRENCY,
+    tax_rate: invoice.tax_rate,
+    discount_type: invoice.discount_type,
+    discount_value: invoice.discount_value,
+    quantity_precision: invoice.quantity_precision,
+    tax_rounding: invoice.tax_rounding,
+    notes: invoice.notes || "",
+    status: invoice.status,
+    delivery_fee: invoice.delivery_fee,
+    items: invoice.items.map((item) => ({
+      id: item.id,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unit_price: item.unit_price,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value,
+      taxes: item.taxes,
+      total: item.total,
+    })),
+  };
+};
+
+// A duplicate is issued today and keeps the source's payment period
+export const getDuplicateDueDate = (
+  source: Pick<InvoiceFormData, "issue_date" | "due_date">,
+  issueDate: Date = new Date()
+) => {
+  const days =
+    source.issue_date && source.due_date
+      ? differenceInCalendarDays(
+          parseISO(source.due_date),
+          parseISO(source.issue_date)
+        )
+      : 30;
+  return toDateInputValue(addDays(issueDate, Math.max(0, days)));
+};
+
+// Quotes are edited and previewed with the invoice components, so the quote
+// number and validity date travel in the invoice number and due date fields
+export const convertQuoteToFormData = (quote: Quote): InvoiceFormData => {
+  return {
+    client_id: quote.client_id,
+    client_name: quote.client_name,
+    client_email: quote.client_email || "",
+    client_address: quote.client_address || "",
+    client_phone: quote.client_phone || "",
+    invoice_number: quote.quote_number,
+    issue_date: quote.issue_date ? quote.issue_date.split("T")[0] : "",
+    due_date: quote.valid_until ? quote.valid_until.split("T")[0] : "",
+    currency: quote.currency || DEFAULT_CURRENCY,
+    tax_rate: quote.tax_rate,
+    discount_type: quote.discount_type,
+    discount_value: quote.discount_value,
+    quantity_precision: quote.quantity_precision,
+    tax_rounding: quote.tax_rounding,
+    delivery_fee: quote.delivery_fee,
+    notes: quote.notes || "",
+    items: quote.items.map((item) => ({
+      id: item.id,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unit_price: item.unit_price,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value,
+      taxes: item.taxes,
+      total: item.total,
+    })),
+  };
+};
+
+// Credit notes are previewed with the invoice layout, addressed to the client
+// of the invoice they correct
+export const convertCreditNoteToFormData = (
+  creditNote: CreditNote,
+  invoice: Invoice
+): InvoiceFormData => {
+  return {
+    client_id: invoice.client_id,
+    client_name: invoice.client_name,
+    client_email: invoice.client_email || "",
+    client_address: invoice.client_address || "",
+    client_phone: invoice.client_phone || "",
+    invoice_number: creditNote.credit_note_number,
+    issue_date: creditNote.issue_date,
+    due_date: "",
+    currency: creditNote.currency || invoice.currency || DEFAULT_CURRENCY,
+    tax_rate: creditNote.tax_rate,
+    quantity_precision: invoice.quantity_precision,
+    tax_rounding: invoice.tax_rounding,
+    delivery_fee: 0,
+    notes: creditNote.reason || "",
+    items: creditNote.items,
+  };
+};
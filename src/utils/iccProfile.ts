@@ -0,0 +1,124 @@
+// Minimal ICC v2 display profile for sRGB, the colour space jsPDF draws in.
+// PDF/A requires one as the output intent of documents using device colours.
+
+export const SRGB_PROFILE_NAME = "sRGB IEC61966-2.1";
+
+// sRGB primaries adapted to the D50 white point of the profile connection space
+const WHITE_POINT: [number, number, number] = [0.9642, 1, 0.8249];
+const PRIMARIES: Record<"rXYZ" | "gXYZ" | "bXYZ", [number, number, number]> = {
+  rXYZ: [0.4360747, 0.2225045, 0.0139322],
+  gXYZ: [0.3850649, 0.7168786, 0.0971045],
+  bXYZ: [0.1430804, 0.0606169, 0.7141733],
+};
+const CURVE_POINTS = 1024;
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+const uint32 = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const s15Fixed16 = (value: number) => uint32(Math.round(value * 65536));
+
+const xyzTag = (xyz: [number, number, number]) => [
+  ...ascii("XYZ "),
+  ...uint32(0),
+  ...xyz.flatMap(s15Fixed16),
+];
+
+const textTag = (text: string) => [
+  ...ascii("text"),
+  ...uint32(0),
+  ...ascii(text),
+  0,
+];
+
+// textDescriptionType: ASCII description, empty Unicode and ScriptCode parts
+const descriptionTag = (text: string) => [
+  ...ascii("desc"),
+  ...uint32(0),
+  ...uint32(text.length + 1),
+  ...ascii(text),
+  0,
+  ...uint32(0),
+  ...uint32(0),
+  ...uint16(0),
+  0,
+  ...new Array<number>(67).fill(0),
+];
+
+// The sRGB transfer function, sampled
+const curveTag = () => [
+  ...ascii("curv"),
+  ...uint32(0),
+  ...uint32(CURVE_POINTS),
+  ...Array.from({ length: CURVE_POINTS }, (_, index) => {
+    const value = index / (CURVE_POINTS - 1);
+    const linear =
+      value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+    return uint16(Math.round(linear * 65535));
+  }).flat(),
+];
+
+const pad = (bytes: number[]) => [
+  ...bytes,
+  ...new Array<number>((4 - (bytes.length % 4)) % 4).fill(0),
+];
+
+export const buildSrgbProfile = (): Uint8Array => {
+  const curve = curveTag();
+  const tags: [string, number[]][] = [
+    ["desc", descriptionTag(SRGB_PROFILE_NAME)],
+    ["cprt", textTag("No copyright, use freely")],
+    ["wtpt", xyzTag(WHITE_POINT)],
+    ["rXYZ", xyzTag(PRIMARIES.rXYZ)],
+    ["gXYZ", xyzTag(PRIMARIES.gXYZ)],
+    ["bXYZ", xyzTag(PRIMARIES.bXYZ)],
+    // The three channels share one curve
+    ["rTRC", curve],
+    ["gTRC", curve],
+    ["bTRC", curve],
+  ];
+
+  const tableSize = 4 + tags.length * 12;
+  const table: number[] = uint32(tags.length);
+  const data: number[] = [];
+  const offsets = new Map<number[], number>();
+  tags.forEach(([signature, tag]) => {
+    if (!offsets.has(tag)) {
+      offsets.set(tag, 128 + tableSize + data.length);
+      data.push(...pad(tag));
+    }
+    table.push(
+      ...ascii(signature),
+      ...uint32(offsets.get(tag)!),
+      ...uint32(tag.length)
+    );
+  });
+
+  const size = 128 + tableSize + data.length;
+  const header = [
+    ...uint32(size),
+    ...uint32(0),
+    // Version 2.1
+    ...uint32(0x02100000),
+    ...ascii("mntr"),
+    ...ascii("RGB "),
+    ...ascii("XYZ "),
+    // Creation date, fixed so the profile is the same in every file
+    ...[2026, 1, 1, 0, 0, 0].flatMap(uint16),
+    ...ascii("acsp"),
+    ...new Array<number>(24).fill(0),
+    // Perceptual rendering intent
+    ...uint32(0),
+    ...WHITE_POINT.flatMap(s15Fixed16),
+    ...new Array<number>(48).fill(0),
+  ];
+
+  return new Uint8Array([...header, ...table, ...data]);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  guessImportMapping,
+  INVOICE_IMPORT_FIELDS,
+  parseCsv,
+  validateInvoiceImport,
+} from "./import.ts";
+
+const importInvoices = (csv: string, existingNumbers: string[] = []) => {
+  const [header, ...rows] = parseCsv(csv);
+  return validateInvoiceImport(
+    rows,
+    guessImportMapping(header, INVOICE_IMPORT_FIELDS),
+    [],
+    existingNumbers
+  );
+};
+
+const HEADER =
+  "Invoice Number;Client Name;Issue Date;Due Date;Currency;Item Description;Quantity;Unit Price";
+
+describe("validateInvoiceImport", () => {
+  it("groups rows sharing an invoice number into line items", () => {
+    const [result] = importInvoices(
+      [
+        HEADER,
+        "INV-1;Acme;2026-10-01;2026-10-15;USD;Design;2;100",
+        "INV-1;Acme;2026-10-01;2026-10-15;;Hosting;1;20.5",
+      ].join("\n")
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([2, 3]);
+    expect(result.record?.items.map((item) => item.total)).toEqual([200, 20.5]);
+  });
+
+  it("rejects rows that contradict the invoice's first row", () => {
+    const [result] = importInvoices(
+      [
+        HEADER,
+        "INV-1;Acme;2026-10-01;2026-10-15;USD;Design;2;100",
+        "INV-1;Acme;2026-10-01;2026-10-15;EUR;Hosting;1;20",
+        "INV-1;Globex;2026-10-02;2026-10-15;USD;Support;1;50",
+      ].join("\n")
+    );
+
+    expect(result.errors).toEqual([
+      "Row 3: Currency differs from row 2",
+      "Row 4: Client Name, Issue Date differ from row 2",
+    ]);
+    expect(result.record).toBeUndefined();
+  });
+});
@@ -0,0 +1,391 @@
+import { z } from "zod";
+import type { Client, InvoiceFormData, InvoiceStatus } from "../types/index.ts";
+import { calculateLineTotal } from "./calculation.ts";
+import { clientDetailsSchema, normalizeEmail } from "./clients.ts";
+import { CURRENCIES, DEFAULT_CURRENCY } from "./currency.ts";
+import { INVOICE_STATUS_LABELS } from "./helper.ts";
+
+export type ImportTarget = "clients" | "invoices";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other header names the column is recognized by
+  aliases?: string[];
+}
+
+// Field key to the index of the CSV column it is read from
+export type ImportMapping = Record<string, number | null>;
+
+export interface ImportRowResult<Record> {
+  // Spreadsheet row numbers, counting the header as row 1
+  rows: number[];
+  label: string;
+  record?: Record;
+  errors: string[];
+  // Why the record is skipped although it is valid
+  duplicate?: string;
+}
+
+export const IMPORT_BATCH_SIZE = 10;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const CLIENT_IMPORT_FIELDS: ImportField[] = [
+  {
+    key: "name",
+    label: "Name",
+    required: true,
+    aliases: ["client", "company"],
+  },
+  { key: "email", label: "Email", aliases: ["e-mail", "email address"] },
+  { key: "phone", label: "Phone", aliases: ["telephone", "mobile"] },
+  { key: "address", label: "Address" },
+];
+
+// Rows sharing an invoice number become line items of one invoice
+export const INVOICE_IMPORT_FIELDS: ImportField[] = [
+  {
+    key: "invoice_number",
+    label: "Invoice Number",
+    required: true,
+    aliases: ["invoice", "number", "invoice no"],
+  },
+  {
+    key: "client_name",
+    label: "Client Name",
+    required: true,
+    aliases: ["client", "customer"],
+  },
+  { key: "client_email", label: "Client Email", aliases: ["email"] },
+  { key: "client_phone", label: "Client Phone", aliases: ["phone"] },
+  { key: "client_address", label: "Client Address", aliases: ["address"] },
+  {
+    key: "issue_date",
+    label: "Issue Date",
+    required: true,
+    aliases: ["date", "invoice date"],
+  },
+  { key: "due_date", label: "Due Date", required: true },
+  { key: "currency", label: "Currency" },
+  { key: "status", label: "Status" },
+  {
+    key: "description",
+    label: "Item Description",
+    required: true,
+    aliases: ["item", "description"],
+  },
+  { key: "quantity", label: "Quantity", aliases: ["qty"] },
+  {
+    key: "unit_price",
+    label: "Unit Price",
+    required: true,
+    aliases: ["price", "rate"],
+  },
+  { key: "notes", label: "Notes" },
+];
+
+const invoiceImportRowSchema = z.object({
+  invoice_number: z.string().min(1, "Invoice number is required"),
+  client_name: z.string().min(1, "Client name is required"),
+  client_email: z
+    .string()
+    .email("Invalid client email")
+    .optional()
+    .or(z.literal("")),
+  client_phone: z.string().optional(),
+  client_address: z.string().optional(),
+  issue_date: z.iso.date("Issue date must be in YYYY-MM-DD format"),
+  due_date: z.iso.date("Due date must be in YYYY-MM-DD format"),
+  currency: z
+    .string()
+    .optional()
+    .refine(
+      (code) => !code || CURRENCIES.some((currency) => currency.code === code),
+      "Unsupported currency"
+    ),
+  status: z.string().optional(),
+  description: z.string().min(1, "Item description is required"),
+  quantity: z.coerce
+    .number("Quantity must be a number")
+    .positive("Quantity must be greater than zero"),
+  unit_price: z.coerce
+    .number("Unit price must be a number")
+    .min(0, "Unit price cannot be negative"),
+  notes: z.string().optional(),
+});
+
+// RFC 4180 CSV; semicolon separated files, as exported by Excel in many
+// locales, are detected from the header line
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter =
+    headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const normalizeHeader = (header: string) => {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[_\s]+/g, " ");
+};
+
+// Matches headers to fields by key, label or alias. Each column is used once,
+// so a generic alias like "email" only applies when no better match exists.
+export const guessImportMapping = (
+  headers: string[],
+  fields: ImportField[]
+): ImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ImportMapping = {};
+
+  const find = (names: string[]) =>
+    normalized.findIndex(
+      (header, index) => !used.has(index) && names.includes(header)
+    );
+
+  fields.forEach((field) => {
+    const index = find([
+      normalizeHeader(field.key),
+      normalizeHeader(field.label),
+    ]);
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  fields.forEach((field) => {
+    if (mapping[field.key] !== null || !field.aliases) return;
+    const index = find(field.aliases);
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+
+  return mapping;
+};
+
+const readRow = (row: string[], mapping: ImportMapping) => {
+  return Object.fromEntries(
+    Object.entries(mapping).map(([key, index]) => [
+      key,
+      index === null ? undefined : (row[index] ?? "").trim(),
+    ])
+  );
+};
+
+const getErrorMessages = (error: z.ZodError) => {
+  return error.issues.map((issue) => issue.message);
+};
+
+export const validateClientImport = (
+  rows: string[][],
+  mapping: ImportMapping,
+  existingClients: Client[]
+): ImportRowResult<Omit<Client, "id">>[] => {
+  const seenEmails = new Set(
+    existingClients.map((client) => normalizeEmail(client.email))
+  );
+  seenEmails.delete("");
+
+  return rows.map((row, index) => {
+    const values = readRow(row, mapping);
+    const result = clientDetailsSchema.safeParse(values);
+    const rowNumber = index + 2;
+    if (!result.success) {
+      return {
+        rows: [rowNumber],
+        label: values.name || "-",
+        errors: getErrorMessages(result.error),
+      };
+    }
+
+    const email = normalizeEmail(result.data.email);
+    const duplicate =
+      email && seenEmails.has(email)
+        ? `A client with ${email} already exists`
+        : undefined;
+    if (email) seenEmails.add(email);
+
+    return {
+      rows: [rowNumber],
+      label: result.data.name,
+      record: {
+        name: result.data.name,
+        email: result.data.email || undefined,
+        phone: result.data.phone || undefined,
+        address: result.data.address || undefined,
+      },
+      errors: [],
+      duplicate,
+    };
+  });
+};
+
+// Fields every row of an invoice must repeat or leave blank
+const INVOICE_HEADER_FIELDS = [
+  "client_name",
+  "client_email",
+  "client_phone",
+  "client_address",
+  "issue_date",
+  "due_date",
+  "currency",
+  "status",
+  "notes",
+] as const;
+
+const parseStatus = (value?: string): InvoiceStatus | null => {
+  if (!value) return "SENT";
+  const normalized = value.trim().toUpperCase().replace(/\s+/g, "_");
+  return normalized in INVOICE_STATUS_LABELS
+    ? (normalized as InvoiceStatus)
+    : null;
+};
+
+// Invoices for clients already saved are linked to them by email, and
+// numbers that are already taken are skipped rather than overwritten. Rows
+// that contradict the header fields of the invoice's first row are errors
+export const validateInvoiceImport = (
+  rows: string[][],
+  mapping: ImportMapping,
+  existingClients: Client[],
+  existingNumbers: string[]
+): ImportRowResult<InvoiceFormData>[] => {
+  const clientsByEmail = new Map(
+    existingClients
+      .filter((client) => client.email)
+      .map((client) => [normalizeEmail(client.email), client.id])
+  );
+  const takenNumbers = new Set(
+    existingNumbers.map((number) => number.trim().toLowerCase())
+  );
+
+  const groups = new Map<string, ImportRowResult<InvoiceFormData>>();
+  // Row whose header fields the invoice was created from
+  const headerRows = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const values = readRow(row, mapping);
+    const result = invoiceImportRowSchema.safeParse({
+      ...values,
+      quantity: values.quantity || "1",
+    });
+    const status = parseStatus(values.status);
+    const errors = result.success ? [] : getErrorMessages(result.error);
+    if (!status) errors.push("Unknown status");
+
+    const key = (values.invoice_number || `row-${rowNumber}`).toLowerCase();
+    const group = groups.get(key) ?? {
+      rows: [],
+      label: values.invoice_number || "-",
+      errors: [],
+    };
+    group.rows.push(rowNumber);
+    group.errors.push(...errors.map((error) => `Row ${rowNumber}: ${error}`));
+    groups.set(key, group);
+    if (!result.success || !status) return;
+
+    const data = result.data;
+    const currency = data.currency || DEFAULT_CURRENCY;
+    const item = {
+      description: data.description,
+      quantity: data.quantity,
+      unit_price: data.unit_price,
+      total: calculateLineTotal(
+        { quantity: data.quantity, unit_price: data.unit_price },
+        currency
+      ),
+    };
+    const header = {
+      client_name: data.client_name,
+      client_email: data.client_email || "",
+      client_address: data.client_address || "",
+      client_phone: data.client_phone || "",
+      issue_date: data.issue_date,
+      due_date: data.due_date,
+      currency,
+      notes: data.notes || "",
+      status,
+    };
+
+    if (group.record) {
+      const record = group.record;
+      const conflicts = INVOICE_HEADER_FIELDS.filter((field) => {
+        if (!values[field]) return false;
+        return field === "client_email"
+          ? normalizeEmail(header[field]) !== normalizeEmail(record[field])
+          : header[field] !== record[field];
+      }).map(
+        (field) =>
+          INVOICE_IMPORT_FIELDS.find((importField) => importField.key === field)
+            ?.label ?? field
+      );
+      if (conflicts.length > 0) {
+        group.errors.push(
+          `Row ${rowNumber}: ${conflicts.join(", ")} differ${
+            conflicts.length === 1 ? "s" : ""
+          } from row ${headerRows.get(key)}`
+        );
+        return;
+      }
+      record.items.push(item);
+      return;
+    }
+
+    headerRows.set(key, rowNumber);
+    group.record = {
+      ...header,
+      client_id: clientsByEmail.get(normalizeEmail(data.client_email)),
+      invoice_number: data.invoice_number,
+      tax_rate: 0,
+      delivery_fee: 0,
+      items: [item],
+    };
+    if (takenNumbers.has(data.invoice_number.toLowerCase())) {
+      group.duplicate = `Invoice ${data.invoice_number} already exists`;
+    }
+  });
+
+  // An invoice with any invalid row is not imported at all
+  return Array.from(groups.values()).map((group) =>
+    group.errors.length > 0 ? { ...group, record: undefined } : group
+  );
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { LateFeePolicy } from "../types/index.ts";
+import { sumMoney } from "./calculation.ts";
+import { calculateLateFee } from "./lateFees.ts";
+
+const policy: LateFeePolicy = {
+  enabled: true,
+  type: "FLAT",
+  value: 10,
+  grace_days: 0,
+  frequency: "MONTHLY",
+};
+
+const invoice = {
+  status: "SENT" as const,
+  due_date: "2026-10-01",
+  total: 100,
+  currency: "USD",
+};
+
+describe("calculateLateFee", () => {
+  afterEach(() => {
+    delete process.env.TZ;
+  });
+
+  it("charges from the day after the local due date", () => {
+    // West of UTC, "2026-10-01" read as UTC midnight would fall on 30 September
+    process.env.TZ = "America/Los_Angeles";
+    expect(
+      calculateLateFee(invoice, [], 0, policy, new Date(2026, 9, 1, 23))
+    ).toBe(0);
+    expect(calculateLateFee(invoice, [], 0, policy, new Date(2026, 9, 2))).toBe(
+      10
+    );
+    expect(
+      calculateLateFee(invoice, [], 0, policy, new Date(2026, 11, 2))
+    ).toBe(30);
+  });
+
+  it("stops once the balance is paid", () => {
+    const payments = [{ amount: 100, payment_date: "2026-11-01" }];
+    expect(
+      calculateLateFee(invoice, payments, 0, policy, new Date(2026, 11, 2))
+    ).toBe(10);
+  });
+
+  it("keeps the fees a late payment settled", () => {
+    const payments = [{ amount: 110, payment_date: "2026-10-15" }];
+    const lateFee = calculateLateFee(
+      { ...invoice, status: "PAID" },
+      payments,
+      0,
+      policy,
+      new Date(2026, 11, 2)
+    );
+    expect(lateFee).toBe(10);
+    expect(sumMoney([invoice.total, lateFee, -110], invoice.currency)).toBe(0);
+  });
+});
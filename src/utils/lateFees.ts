@@ -0,0 +1,130 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  parseISO,
+} from "date-fns";
+import { z } from "zod";
+import type {
+  Invoice,
+  LateFeeFrequency,
+  LateFeePolicy,
+  LateFeeRule,
+  LateFeeType,
+  Payment,
+} from "../types/index.ts";
+import { sumMoney } from "./calculation.ts";
+import { formatMoney } from "./currency.ts";
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  enabled: false,
+  type: "PERCENTAGE",
+  value: 1.5,
+  grace_days: 0,
+  frequency: "MONTHLY",
+};
+
+export const LATE_FEE_TYPE_LABELS: Record<LateFeeType, string> = {
+  FLAT: "Flat amount",
+  PERCENTAGE: "Percentage of balance",
+};
+
+export const LATE_FEE_FREQUENCY_LABELS: Record<LateFeeFrequency, string> = {
+  ONCE: "Once",
+  MONTHLY: "Every month",
+};
+
+// Shared by the settings form and the per-invoice override
+export const lateFeePolicySchema = z
+  .object({
+    enabled: z.boolean(),
+    type: z.enum(["FLAT", "PERCENTAGE"]),
+    value: z
+      .number("Amount is required")
+      .positive("Amount must be greater than zero"),
+    grace_days: z
+      .number("Grace period is required")
+      .int("Grace period must be a whole number")
+      .min(0, "Grace period cannot be negative")
+      .max(365, "Grace period cannot exceed 365 days"),
+    frequency: z.enum(["ONCE", "MONTHLY"]),
+  })
+  .refine((policy) => policy.type !== "PERCENTAGE" || policy.value <= 100, {
+    message: "Percentage cannot exceed 100",
+    path: ["value"],
+  });
+
+export const describeLateFeeRule = (rule: LateFeeRule, currency?: string) => {
+  const amount =
+    rule.type === "FLAT"
+      ? formatMoney(rule.value, currency)
+      : `${rule.value}% of the unpaid balance`;
+  const overdue =
+    rule.grace_days > 0
+      ? `more than ${rule.grace_days} day${
+          rule.grace_days === 1 ? "" : "s"
+        } overdue`
+      : "overdue";
+  const charge = `${amount} when the invoice is ${overdue}`;
+  return rule.frequency === "MONTHLY" ? `${charge}, then every month` : charge;
+};
+
+// Fees charged up to today, mirroring the backend. A fee is charged on each
+// assessment date while part of the invoice total is still unpaid; percentage
+// fees apply to that unpaid part only, so fees never compound. A paid invoice
+// keeps the fees charged until its last payment, which settled them too; one
+// marked paid by hand without payments in the ledger owes nothing.
+export const calculateLateFee = (
+  invoice: Pick<Invoice, "status" | "due_date" | "total" | "currency">,
+  payments: Pick<Payment, "amount" | "payment_date">[],
+  amountCredited: number,
+  policy: LateFeePolicy,
+  today: Date = new Date()
+) => {
+  if (!policy.enabled || invoice.status === "DRAFT" || !invoice.due_date) {
+    return 0;
+  }
+
+  let until = today;
+  if (invoice.status === "PAID") {
+    const paymentDates = payments.map((payment) =>
+      parseISO(payment.payment_date)
+    );
+    if (paymentDates.length === 0) return 0;
+    until = new Date(
+      Math.min(today.getTime(), Math.max(...paymentDates.map(Number)))
+    );
+  }
+
+  // Dates are parsed as local days; new Date() would read them as UTC midnight
+  const firstCharge = addDays(
+    parseISO(invoice.due_date),
+    policy.grace_days + 1
+  );
+  const fees: number[] = [];
+  for (
+    let charge = firstCharge;
+    differenceInCalendarDays(until, charge) >= 0;
+    charge = addMonths(firstCharge, fees.length)
+  ) {
+    // Payments made on the assessment date itself still avoid the fee
+    const paid = payments
+      .filter(
+        (payment) =>
+          differenceInCalendarDays(charge, parseISO(payment.payment_date)) >= 0
+      )
+      .map((payment) => -payment.amount);
+    const unpaid = sumMoney(
+      [invoice.total || 0, -amountCredited, ...paid],
+      invoice.currency
+    );
+    if (unpaid <= 0) break;
+
+    fees.push(
+      policy.type === "FLAT" ? policy.value : (unpaid * policy.value) / 100
+    );
+    if (policy.frequency === "ONCE") break;
+  }
+
+  return sumMoney(fees, invoice.currency);
+};
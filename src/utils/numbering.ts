@@ -0,0 +1,58 @@
+import { format } from "date-fns";
+import type { NumberedDocument, NumberingScheme } from "../types/index.ts";
+
+export const DEFAULT_NUMBERING_SCHEME: NumberingScheme = {
+  prefix: "INV",
+  pattern: "{PREFIX}-{YYYY}-{SEQ:4}",
+  reset_yearly: true,
+  next_sequence: 1,
+};
+
+export const DEFAULT_QUOTE_NUMBERING_SCHEME: NumberingScheme = {
+  ...DEFAULT_NUMBERING_SCHEME,
+  prefix: "QUO",
+};
+
+export const DEFAULT_CREDIT_NOTE_NUMBERING_SCHEME: NumberingScheme = {
+  ...DEFAULT_NUMBERING_SCHEME,
+  prefix: "CN",
+};
+
+export const DEFAULT_NUMBERING_SCHEMES: Record<
+  NumberedDocument,
+  NumberingScheme
+> = {
+  invoice: DEFAULT_NUMBERING_SCHEME,
+  quote: DEFAULT_QUOTE_NUMBERING_SCHEME,
+  credit_note: DEFAULT_CREDIT_NOTE_NUMBERING_SCHEME,
+};
+
+export const NUMBERING_TOKENS: { token: string; description: string }[] = [
+  { token: "{PREFIX}", description: "Your prefix" },
+  { token: "{YYYY}", description: "Four digit year" },
+  { token: "{YY}", description: "Two digit year" },
+  { token: "{MM}", description: "Two digit month" },
+  { token: "{SEQ:4}", description: "Sequence padded to 4 digits" },
+];
+
+const SEQUENCE_TOKEN = /\{SEQ(?::(\d+))?\}/g;
+
+export const hasSequenceToken = (pattern: string) => {
+  return new RegExp(SEQUENCE_TOKEN.source).test(pattern);
+};
+
+// Mirrors the backend formatter so settings can show what the next number looks like
+export const formatDocumentNumber = (
+  scheme: NumberingScheme,
+  date: Date = new Date(),
+  sequence: number = scheme.next_sequence
+) => {
+  return scheme.pattern
+    .replace(/\{PREFIX\}/g, scheme.prefix)
+    .replace(/\{YYYY\}/g, format(date, "yyyy"))
+    .replace(/\{YY\}/g, format(date, "yy"))
+    .replace(/\{MM\}/g, format(date, "MM"))
+    .replace(SEQUENCE_TOKEN, (_, width?: string) =>
+      String(sequence).padStart(width ? parseInt(width) : 1, "0")
+    );
+};
@@ -0,0 +1,196 @@
+import { create } from "qrcode";
+import { formatMoney } from "./currency.ts";
+
+export type PaymentQrKind = "QRIS" | "EPC" | "GENERIC";
+
+export interface PaymentQr {
+  kind: PaymentQrKind;
+  payload: string;
+  label: string;
+}
+
+export interface PaymentQrDetails {
+  currency?: string;
+  amount: number;
+  // Invoice number, used as the payment reference
+  reference: string;
+  bankName?: string;
+  accountName?: string;
+  accountNumber?: string;
+  bic?: string;
+  // Static merchant QRIS string from the user's payment provider
+  qrisPayload?: string;
+}
+
+const PAYMENT_QR_LABELS: Record<PaymentQrKind, string> = {
+  QRIS: "Scan to pay with QRIS",
+  EPC: "Scan with your banking app to pay",
+  GENERIC: "Scan for payment details",
+};
+
+// CRC-16/CCITT-FALSE, the checksum QRIS puts in tag 63
+const crc16 = (text: string) => {
+  let crc = 0xffff;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+// EMVCo payloads are a flat list of two digit id, two digit length, value
+const parseTlv = (payload: string): [string, string][] | null => {
+  const fields: [string, string][] = [];
+  let index = 0;
+  while (index < payload.length) {
+    const id = payload.slice(index, index + 2);
+    const length = Number(payload.slice(index + 2, index + 4));
+    const value = payload.slice(index + 4, index + 4 + length);
+    if (
+      !/^\d{2}$/.test(id) ||
+      Number.isNaN(length) ||
+      value.length !== length
+    ) {
+      return null;
+    }
+    fields.push([id, value]);
+    index += 4 + length;
+  }
+  return fields;
+};
+
+const tlv = (id: string, value: string) => {
+  return `${id}${String(value.length).padStart(2, "0")}${value}`;
+};
+
+export const isValidQrisPayload = (payload: string) => {
+  const value = payload.trim();
+  return (
+    value.startsWith("000201") &&
+    /6304[0-9A-F]{4}$/.test(value) &&
+    crc16(value.slice(0, -4)) === value.slice(-4) &&
+    parseTlv(value) !== null
+  );
+};
+
+// Turns the static merchant QR into a dynamic one carrying the amount, with
+// the invoice number as bill number so the payment can be matched
+const toDynamicQris = (payload: string, amount: number, reference: string) => {
+  const fields = (parseTlv(payload.trim()) || []).filter(
+    ([id]) => id !== "54" && id !== "63"
+  );
+  const additional =
+    parseTlv(fields.find(([id]) => id === "62")?.[1] || "") || [];
+  const billNumber = reference.slice(0, 25);
+
+  const updated = fields
+    .filter(([id]) => id !== "62")
+    .map(([id, value]): [string, string] => [id, id === "01" ? "12" : value])
+    .concat([
+      ["54", Number.isInteger(amount) ? String(amount) : amount.toFixed(2)],
+      [
+        "62",
+        [
+          ["01", billNumber] as [string, string],
+          ...additional.filter(([id]) => id !== "01"),
+        ]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([id, value]) => tlv(id, value))
+          .join(""),
+      ],
+    ])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const body = `${updated.map(([id, value]) => tlv(id, value)).join("")}6304`;
+  return `${body}${crc16(body)}`;
+};
+
+export const isValidIban = (value: string) => {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  // Move the country code and check digits to the end, letters become 10-35
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, (c) =>
+    String(c.charCodeAt(0) - 55)
+  );
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// EPC069-12 "SEPA credit transfer" QR, version 002 where the BIC is optional
+const toEpcPayload = (details: PaymentQrDetails) => {
+  return [
+    "BCD",
+    "002",
+    "1",
+    "SCT",
+    details.bic?.trim() || "",
+    (details.accountName || "").slice(0, 70),
+    (details.accountNumber || "").replace(/\s/g, "").toUpperCase(),
+    `EUR${details.amount.toFixed(2)}`,
+    "",
+    "",
+    details.reference.slice(0, 140),
+  ].join("\n");
+};
+
+const toGenericPayload = (details: PaymentQrDetails) => {
+  return [
+    details.bankName && `Bank: ${details.bankName}`,
+    details.accountName && `Account name: ${details.accountName}`,
+    `Account number: ${details.accountNumber}`,
+    `Amount: ${formatMoney(details.amount, details.currency)}`,
+    `Reference: ${details.reference}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+// Picks the richest format the sender's details allow: QRIS for rupiah,
+// a SEPA transfer for euro, otherwise plain text bank details
+export const getPaymentQr = (details: PaymentQrDetails): PaymentQr | null => {
+  if (details.amount <= 0) return null;
+
+  let kind: PaymentQrKind | null = null;
+  let payload = "";
+  if (
+    details.currency === "IDR" &&
+    details.qrisPayload &&
+    isValidQrisPayload(details.qrisPayload)
+  ) {
+    kind = "QRIS";
+    payload = toDynamicQris(
+      details.qrisPayload,
+      details.amount,
+      details.reference
+    );
+  } else if (
+    details.currency === "EUR" &&
+    details.accountName &&
+    details.accountNumber &&
+    isValidIban(details.accountNumber) &&
+    details.amount <= 999999999.99
+  ) {
+    kind = "EPC";
+    payload = toEpcPayload(details);
+  } else if (details.accountNumber) {
+    kind = "GENERIC";
+    payload = toGenericPayload(details);
+  }
+
+  return kind ? { kind, payload, label: PAYMENT_QR_LABELS[kind] } : null;
+};
+
+// Dark modules of the symbol as rows of booleans, for SVG and PDF drawing
+export const getQrModules = (payload: string) => {
+  const { modules } = create(payload, { errorCorrectionLevel: "M" });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => !!modules.get(row, col))
+  );
+};
@@ -0,0 +1,89 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  parseISO,
+} from "date-fns";
+import { z } from "zod";
+import type { PaymentTerms, PaymentTermsType } from "../types/index.ts";
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = { type: "NET_30" };
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTermsType, string> = {
+  DUE_ON_RECEIPT: "Due on receipt",
+  NET_7: "Net 7",
+  NET_15: "Net 15",
+  NET_30: "Net 30",
+  NET_60: "Net 60",
+  END_OF_MONTH: "End of month",
+  CUSTOM: "Custom",
+};
+
+const PAYMENT_TERMS_DAYS: Partial<Record<PaymentTermsType, number>> = {
+  DUE_ON_RECEIPT: 0,
+  NET_7: 7,
+  NET_15: 15,
+  NET_30: 30,
+  NET_60: 60,
+};
+
+// Shared by the settings form and the client form
+export const paymentTermsSchema = z
+  .object({
+    type: z.enum([
+      "DUE_ON_RECEIPT",
+      "NET_7",
+      "NET_15",
+      "NET_30",
+      "NET_60",
+      "END_OF_MONTH",
+      "CUSTOM",
+    ]),
+    custom_days: z
+      .number("Days are required")
+      .int("Days must be a whole number")
+      .min(0, "Days cannot be negative")
+      .max(365, "Days cannot exceed 365")
+      .optional(),
+  })
+  .refine(
+    (terms) => terms.type !== "CUSTOM" || terms.custom_days !== undefined,
+    { message: "Days are required", path: ["custom_days"] }
+  );
+
+// Dates are parsed as local days so adding days never crosses a DST boundary
+export const calculateDueDate = (issueDate: string, terms: PaymentTerms) => {
+  const issued = parseISO(issueDate);
+  const dueDate =
+    terms.type === "END_OF_MONTH"
+      ? endOfMonth(issued)
+      : addDays(
+          issued,
+          terms.type === "CUSTOM"
+            ? terms.custom_days ?? 0
+            : PAYMENT_TERMS_DAYS[terms.type] ?? 0
+        );
+  return format(dueDate, "yyyy-MM-dd");
+};
+
+// Terms matching a due date picked by hand, or undefined when it comes
+// before the issue date
+export const getTermsForDueDate = (
+  issueDate: string,
+  dueDate: string,
+  current?: PaymentTerms
+): PaymentTerms | undefined => {
+  if (current && calculateDueDate(issueDate, current) === dueDate) {
+    return current;
+  }
+  const days = differenceInCalendarDays(parseISO(dueDate), parseISO(issueDate));
+  return days >= 0 ? { type: "CUSTOM", custom_days: days } : undefined;
+};
+
+// Text printed on the invoice
+export const describePaymentTerms = (terms: PaymentTerms) => {
+  if (terms.type !== "CUSTOM") return PAYMENT_TERMS_LABELS[terms.type];
+  const days = terms.custom_days ?? 0;
+  return days === 0 ? PAYMENT_TERMS_LABELS.DUE_ON_RECEIPT : `Net ${days}`;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { AxiosError } from "axios";
+import type { AxiosResponse } from "axios";
+import { PDFDocument } from "pdf-lib";
+import type { InvoiceFormData } from "../types/index.ts";
+import { renderInvoicePdf, shouldRenderLocally } from "./pdf.ts";
+
+const invoice = (fields: Partial<InvoiceFormData> = {}): InvoiceFormData => ({
+  client_name: "Acme Ltd",
+  client_email: "billing@acme.test",
+  invoice_number: "INV-2026-0001",
+  issue_date: "2026-10-01",
+  due_date: "2026-10-15",
+  currency: "USD",
+  tax_rate: 10,
+  delivery_fee: 0,
+  items: [
+    { description: "Consulting", quantity: 2, unit_price: 150, total: 300 },
+  ],
+  ...fields,
+});
+
+// jsPDF writes text uncompressed, one byte per character
+const readPdf = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return {
+    text: Buffer.from(bytes).toString("latin1"),
+    pageCount: (await PDFDocument.load(bytes)).getPageCount(),
+  };
+};
+
+describe("renderInvoicePdf", () => {
+  it("continues long invoices on new pages", async () => {
+    const items = Array.from({ length: 80 }, (_, index) => ({
+      description: `Line ${index + 1}`,
+      quantity: 1,
+      unit_price: 10,
+      total: 10,
+    }));
+    const { text, pageCount } = await readPdf(
+      renderInvoicePdf(invoice({ items }))
+    );
+
+    expect(text.startsWith("%PDF")).toBe(true);
+    expect(pageCount).toBe(4);
+    expect(text).toContain("(Line 80)");
+  });
+
+  it("renders a credit note", async () => {
+    const { text, pageCount } = await readPdf(
+      renderInvoicePdf(invoice({ invoice_number: "CN-2026-0001" }), {
+        documentType: "credit_note",
+        referenceNumber: "INV-2026-0001",
+      })
+    );
+
+    expect(text.startsWith("%PDF")).toBe(true);
+    expect(pageCount).toBe(1);
+    expect(text).toContain("(CREDIT NOTE)");
+    expect(text).toContain("INV-2026-0001");
+  });
+
+  it("maps characters the built-in fonts cannot draw", async () => {
+    const { text } = await readPdf(
+      renderInvoicePdf(
+        invoice({ client_name: "Łukasz Wójcik 山田", currency: "JPY" })
+      )
+    );
+
+    expect(text).toContain("(Lukasz Wójcik ??)");
+    // Intl writes the ja-JP yen sign full-width
+    expect(text).toContain("¥330");
+  });
+});
+
+describe("shouldRenderLocally", () => {
+  const failedWith = (status?: number) =>
+    new AxiosError(
+      "Request failed",
+      undefined,
+      undefined,
+      undefined,
+      status ? ({ status } as AxiosResponse) : undefined
+    );
+
+  it("falls back when the server is unreachable or failing", () => {
+    expect(shouldRenderLocally(failedWith())).toBe(true);
+    expect(shouldRenderLocally(failedWith(502))).toBe(true);
+  });
+
+  it("keeps refused requests as errors", () => {
+    expect(shouldRenderLocally(failedWith(401))).toBe(false);
+    expect(shouldRenderLocally(failedWith(403))).toBe(false);
+    expect(shouldRenderLocally(failedWith(404))).toBe(false);
+    expect(shouldRenderLocally(new Error("Unexpected"))).toBe(false);
+  });
+});
@@ -0,0 +1,472 @@
+import { isAxiosError } from "axios";
+import { jsPDF } from "jspdf";
+import type {
+  DocumentType,
+  InvoiceBranding,
+  InvoiceFormData,
+  User,
+} from "../types/index.ts";
+import {
+  BRAND_FONTS,
+  DEFAULT_BRANDING,
+  hexToRgb,
+  tintColor,
+} from "./branding.ts";
+import {
+  calculateInvoiceTotals,
+  calculateLineTotal,
+  sumMoney,
+} from "./calculation.ts";
+import { formatMoney } from "./currency.ts";
+import { formatDate, formatItemRate } from "./helper.ts";
+import { getPaymentQr, getQrModules } from "./paymentQr.ts";
+import { describePaymentTerms } from "./paymentTerms.ts";
+import type { PdfFont } from "./pdfFonts.ts";
+
+export interface InvoicePdfOptions {
+  documentType?: DocumentType;
+  amountPaid?: number;
+  amountCredited?: number;
+  lateFee?: number;
+  // Number of the invoice a credit note corrects
+  referenceNumber?: string;
+  // Signed-in user, whose details replace the sender fields like in the preview
+  user?: User | null;
+  branding?: InvoiceBranding;
+  // Embedded instead of the built-in font of the branding
+  embeddedFont?: PdfFont;
+}
+
+const DOCUMENT_TITLES: Record<DocumentType, string> = {
+  invoice: "INVOICE",
+  quote: "QUOTE",
+  credit_note: "CREDIT NOTE",
+};
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const RIGHT = 190;
+const LINE_HEIGHT = 5;
+const QR_SIZE = 30;
+
+// The built-in PDF fonts only cover WinAnsi (Latin-1 plus a few symbols), and
+// a single character outside it garbles the whole line
+const WIN_ANSI_EXTRAS =
+  "\u20ac\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u017d\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u017e\u0178";
+
+// Letters that do not decompose into a base letter and accents
+const TRANSLITERATIONS: Record<string, string> = {
+  "\u0142": "l",
+  "\u0141": "L",
+  "\u0111": "d",
+  "\u0110": "D",
+  "\u0127": "h",
+  "\u0126": "H",
+  "\u0131": "i",
+  "\u0167": "t",
+  "\u0166": "T",
+  "\u014b": "n",
+  "\u014a": "N",
+  "\u2212": "-",
+};
+
+const isPrintable = (text: string) =>
+  Array.from(text).every(
+    (char) => char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.includes(char)
+  );
+
+// Full-width signs such as the ja-JP yen have a Latin-1 compatibility form,
+// accented letters lose their accents, and scripts the fonts cannot draw at
+// all print as "?"
+const toPrintable = (char: string) => {
+  if (isPrintable(char)) return char;
+  if (char in TRANSLITERATIONS) return TRANSLITERATIONS[char];
+
+  const compatible = char.normalize("NFKC");
+  if (isPrintable(compatible)) return compatible;
+  const base = char.normalize("NFD").replace(/\p{M}/gu, "");
+  return base && isPrintable(base) ? base : "?";
+};
+
+// Intl puts narrow and non-breaking spaces in formatted amounts
+const clean = (text: string) =>
+  Array.from(text.replace(/[\u00a0\u202f]/g, " "), toPrintable).join("");
+
+// Only an unreachable or failing server is replaced by the local renderer;
+// refused requests such as 401, 403 and 404 are real errors, and a local PDF
+// could differ from the official one
+export const shouldRenderLocally = (error: unknown) =>
+  isAxiosError(error) && (!error.response || error.response.status >= 500);
+
+// Renders the same layout as InvoicePreview without a round-trip to the API,
+// so a PDF can still be produced when the backend is unreachable
+export const renderInvoicePdf = (
+  data: InvoiceFormData,
+  options: InvoicePdfOptions = {}
+): Blob => {
+  const {
+    documentType = "invoice",
+    amountPaid = 0,
+    amountCredited = 0,
+    lateFee = 0,
+    referenceNumber,
+    user,
+    branding = DEFAULT_BRANDING,
+    embeddedFont,
+  } = options;
+  const isModern = branding.layout === "modern";
+  const isCompact = branding.layout === "compact";
+  const font = embeddedFont?.name ?? BRAND_FONTS[branding.font].pdf;
+  const primaryColor = hexToRgb(branding.primary_color);
+  const accentColor = hexToRgb(branding.accent_color);
+  const money = (amount: number) => clean(formatMoney(amount, data.currency));
+  const totals = calculateInvoiceTotals(data);
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  if (embeddedFont) {
+    const { name, normal, bold } = embeddedFont;
+    doc.addFileToVFS(`${name}.ttf`, normal);
+    doc.addFont(`${name}.ttf`, name, "normal");
+    doc.addFileToVFS(`${name}-Bold.ttf`, bold);
+    doc.addFont(`${name}-Bold.ttf`, name, "bold");
+  }
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const write = (
+    text: string,
+    x: number,
+    options: {
+      bold?: boolean;
+      size?: number;
+      // Grey level or RGB
+      color?: number | [number, number, number];
+      align?: "left" | "center" | "right";
+    } = {}
+  ) => {
+    const color = options.color ?? 55;
+    doc.setFont(font, options.bold ? "bold" : "normal");
+    doc.setFontSize(options.size ?? 10);
+    if (typeof color === "number") {
+      doc.setTextColor(color);
+    } else {
+      doc.setTextColor(...color);
+    }
+    doc.text(clean(text), x, y, { align: options.align ?? "left" });
+  };
+
+  // Header
+  const logoHeight = branding.logo ? (isCompact ? 10 : 14) : 0;
+  const headerColor = isModern ? 255 : 75;
+  if (isModern) {
+    doc.setFillColor(...primaryColor);
+    doc.rect(0, 0, PAGE_WIDTH, MARGIN + logoHeight + 22, "F");
+  }
+  if (branding.logo) {
+    const logo = doc.getImageProperties(branding.logo);
+    const logoWidth = (logo.width / logo.height) * logoHeight;
+    doc.addImage(branding.logo, MARGIN, y - 5, logoWidth, logoHeight);
+    y += logoHeight + 4;
+  }
+  write(DOCUMENT_TITLES[documentType], MARGIN, {
+    bold: true,
+    size: isCompact ? 18 : 24,
+    color: isModern ? 255 : primaryColor,
+  });
+  write(
+    `Issue Date: ${data.issue_date ? formatDate(data.issue_date) : ""}`,
+    RIGHT,
+    { align: "right", color: headerColor }
+  );
+  y += 7;
+  if (data.invoice_number) {
+    write(data.invoice_number, MARGIN, { color: isModern ? 230 : 107 });
+  }
+  if (documentType === "credit_note") {
+    write(`Original Invoice: ${referenceNumber || ""}`, RIGHT, {
+      align: "right",
+      color: headerColor,
+    });
+  } else {
+    const dueLabel = documentType === "quote" ? "Valid Until" : "Due Date";
+    write(
+      `${dueLabel}: ${data.due_date ? formatDate(data.due_date) : ""}`,
+      RIGHT,
+      { align: "right", color: headerColor }
+    );
+    if (documentType === "invoice" && data.payment_terms) {
+      y += 5;
+      write(
+        `Payment Terms: ${describePaymentTerms(data.payment_terms)}`,
+        RIGHT,
+        { align: "right", color: headerColor }
+      );
+    }
+  }
+  y += isCompact ? 10 : 15;
+
+  // Sender and client
+  const sender = user
+    ? [user.name, user.address, user.email, user.phone]
+    : [
+        data.sender_name,
+        data.sender_address,
+        data.sender_email,
+        data.sender_phone,
+      ];
+  const recipient = [
+    data.client_name,
+    data.client_address,
+    data.client_email,
+    data.client_phone,
+  ];
+  write("FROM", MARGIN, { bold: true, size: 9, color: accentColor });
+  write("TO", 110, { bold: true, size: 9, color: accentColor });
+  y += 7;
+  const partyTop = y;
+  [sender, recipient].forEach((lines, column) => {
+    y = partyTop;
+    lines
+      .filter((line): line is string => !!line)
+      .forEach((line, index) => {
+        const wrapped: string[] = doc.splitTextToSize(clean(line), 80);
+        wrapped.forEach((part) => {
+          write(part, column === 0 ? MARGIN : 110, { bold: index === 0 });
+          y += LINE_HEIGHT;
+        });
+      });
+  });
+  y = Math.max(y, partyTop + 4 * LINE_HEIGHT) + (isCompact ? 4 : 8);
+
+  // Items
+  const drawItemsHeader = () => {
+    doc.setFillColor(...hexToRgb(tintColor(branding.accent_color, 0.9)));
+    doc.rect(MARGIN, y - 5, RIGHT - MARGIN, 8, "F");
+    doc.setDrawColor(...accentColor);
+    doc.line(MARGIN, y + 3, RIGHT, y + 3);
+    write("Description", MARGIN + 2, { bold: true });
+    write("Quantity × Price", 105, { bold: true });
+    write("Total", RIGHT - 2, { bold: true, align: "right" });
+    y += 9;
+  };
+  drawItemsHeader();
+
+  data.items.forEach((item) => {
+    const description: string[] = doc.splitTextToSize(
+      clean(item.description),
+      80
+    );
+    const hasDiscount = !!(item.discount_type && item.discount_value);
+    const height =
+      (description.length + (hasDiscount ? 1 : 0)) * LINE_HEIGHT + 4;
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      drawItemsHeader();
+    }
+
+    const rowTop = y;
+    write(formatItemRate(item, data.currency, data.quantity_precision), 105);
+    write(money(calculateLineTotal(item, data.currency)), RIGHT - 2, {
+      align: "right",
+    });
+    description.forEach((part) => {
+      write(part, MARGIN + 2);
+      y += LINE_HEIGHT;
+    });
+    if (hasDiscount) {
+      const discount =
+        item.discount_type === "PERCENTAGE"
+          ? `${item.discount_value}%`
+          : money(item.discount_value || 0);
+      write(`Discount ${discount}`, MARGIN + 2, { size: 8, color: 107 });
+      y += LINE_HEIGHT;
+    }
+    y = Math.max(y, rowTop + LINE_HEIGHT) - 1;
+    doc.setDrawColor(243, 244, 246);
+    doc.line(MARGIN, y, RIGHT, y);
+    y += isCompact ? 5 : 6;
+  });
+  y += 4;
+
+  // Totals
+  const totalRow = (label: string, amount: string, emphasis = false) => {
+    ensureSpace(8);
+    if (emphasis) {
+      doc.setDrawColor(209, 213, 219);
+      doc.line(120, y - 4, RIGHT, y - 4);
+      y += 1;
+    }
+    write(label, 120, {
+      bold: emphasis,
+      size: emphasis ? 11 : 10,
+      color: emphasis ? 17 : 75,
+    });
+    write(amount, RIGHT, {
+      bold: emphasis,
+      size: emphasis ? 11 : 10,
+      align: "right",
+      color: emphasis ? primaryColor : 55,
+    });
+    y += emphasis ? 9 : 7;
+  };
+
+  totalRow("Subtotal:", money(totals.subtotal));
+  if (totals.lineDiscount > 0) {
+    totalRow("Line Discounts:", `-${money(totals.lineDiscount)}`);
+  }
+  if (totals.invoiceDiscount > 0) {
+    const rate =
+      data.discount_type === "PERCENTAGE" ? ` (${data.discount_value}%)` : "";
+    totalRow(`Discount${rate}:`, `-${money(totals.invoiceDiscount)}`);
+  }
+  totals.taxes.forEach((tax) => {
+    totalRow(
+      `${tax.name} (${tax.rate}%):`,
+      `${tax.amount < 0 ? "-" : ""}${money(Math.abs(tax.amount))}`
+    );
+  });
+  if (data.delivery_fee > 0) {
+    totalRow("Delivery Fee:", money(data.delivery_fee));
+  }
+  const balanceDue = sumMoney(
+    [totals.total, lateFee, -amountCredited, -amountPaid],
+    data.currency
+  );
+  totalRow(
+    documentType === "credit_note" ? "Total Credit:" : "Total:",
+    money(totals.total),
+    true
+  );
+  if (amountPaid > 0 || amountCredited > 0 || lateFee > 0) {
+    if (lateFee > 0) {
+      totalRow("Late Fee:", money(lateFee));
+    }
+    if (amountCredited > 0) {
+      totalRow("Credit Notes:", `-${money(amountCredited)}`);
+    }
+    if (amountPaid > 0) {
+      totalRow("Amount Paid:", `-${money(amountPaid)}`);
+    }
+    totalRow("Balance Due:", money(balanceDue), true);
+  }
+  y += 6;
+
+  // Notes
+  if (branding.show_notes && data.notes) {
+    const label = documentType === "credit_note" ? "Reason: " : "Terms: ";
+    const notes: string[] = doc.splitTextToSize(
+      clean(label + data.notes),
+      RIGHT - MARGIN
+    );
+    notes.forEach((part) => {
+      ensureSpace(LINE_HEIGHT);
+      write(part, MARGIN);
+      y += LINE_HEIGHT;
+    });
+    y += 2;
+  }
+  ensureSpace(LINE_HEIGHT);
+  write("Thank you for your business!", MARGIN);
+  y += 10;
+
+  // Bank account details
+  const bankDetails = [
+    ["Bank Name:", user?.bank_name || data.sender_bank_name],
+    ["Account Name:", user?.bank_account_name || data.sender_bank_account_name],
+    [
+      "Account Number:",
+      user?.bank_account_number || data.sender_bank_account_number,
+    ],
+  ].filter((detail): detail is [string, string] => !!detail[1]);
+  const showBankDetails =
+    branding.show_bank_details && !!(user?.bank_name || data.sender_bank_name);
+  const paymentQr =
+    branding.show_bank_details && documentType === "invoice"
+      ? getPaymentQr({
+          currency: data.currency,
+          amount: balanceDue,
+          reference: data.invoice_number || "",
+          bankName: user?.bank_name || data.sender_bank_name,
+          accountName: user?.bank_account_name || data.sender_bank_account_name,
+          accountNumber:
+            user?.bank_account_number || data.sender_bank_account_number,
+          bic: user?.bank_bic,
+          qrisPayload: user?.qris_payload,
+        })
+      : null;
+  if (showBankDetails || paymentQr) {
+    const height = Math.max(
+      showBankDetails ? 14 + bankDetails.length * 6 : 0,
+      paymentQr ? QR_SIZE + 14 : 0
+    );
+    ensureSpace(height);
+    const boxTop = y - 5;
+    doc.setFillColor(243, 244, 246);
+    doc.rect(MARGIN, boxTop, RIGHT - MARGIN, height, "F");
+
+    if (paymentQr) {
+      // Drawn module by module so the code stays sharp at any zoom
+      const modules = getQrModules(paymentQr.payload);
+      const cell = QR_SIZE / modules.length;
+      const left = RIGHT - 6 - QR_SIZE;
+      const top = boxTop + 5;
+      doc.setFillColor(255, 255, 255);
+      doc.rect(left - 2, top - 2, QR_SIZE + 4, QR_SIZE + 4, "F");
+      doc.setFillColor(0, 0, 0);
+      modules.forEach((row, r) =>
+        row.forEach((dark, c) => {
+          if (dark) doc.rect(left + c * cell, top + r * cell, cell, cell, "F");
+        })
+      );
+      const textTop = y;
+      y = top + QR_SIZE + 6;
+      write(paymentQr.label, left + QR_SIZE / 2, {
+        size: 7,
+        color: 75,
+        align: "center",
+      });
+      y = textTop;
+    }
+
+    if (showBankDetails) {
+      y += 2;
+      write("BANK ACCOUNT DETAILS", MARGIN + 6, {
+        bold: true,
+        size: 9,
+        color: 75,
+      });
+      y += 8;
+      bankDetails.forEach(([label, value]) => {
+        write(label, MARGIN + 6, { bold: true });
+        write(value, MARGIN + 40);
+        y += 6;
+      });
+    }
+    y = boxTop + height + 5;
+  }
+
+  // Signature
+  if (branding.show_signature) {
+    ensureSpace(24);
+    y += 16;
+    doc.setDrawColor(156, 163, 175);
+    doc.line(RIGHT - 56, y, RIGHT, y);
+    y += 5;
+    write(
+      branding.signature_name || user?.name || data.sender_name || "",
+      RIGHT - 28,
+      { align: "center" }
+    );
+  }
+
+  return doc.output("blob");
+};
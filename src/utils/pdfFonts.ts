@@ -0,0 +1,52 @@
+import type { BrandFont } from "../types/index.ts";
+
+// TrueType font jsPDF embeds in the PDF, as base64
+export interface PdfFont {
+  name: string;
+  normal: string;
+  bold: string;
+}
+
+// DejaVu faces closest in width to the built-in Helvetica, Times and Courier
+const FONT_FILES: Record<
+  BrandFont,
+  { name: string; load: () => Promise<{ default: string }[]> }
+> = {
+  sans: {
+    name: "DejaVuSansCondensed",
+    load: () =>
+      Promise.all([
+        import("dejavu-fonts-ttf/ttf/DejaVuSansCondensed.ttf?inline"),
+        import("dejavu-fonts-ttf/ttf/DejaVuSansCondensed-Bold.ttf?inline"),
+      ]),
+  },
+  serif: {
+    name: "DejaVuSerifCondensed",
+    load: () =>
+      Promise.all([
+        import("dejavu-fonts-ttf/ttf/DejaVuSerifCondensed.ttf?inline"),
+        import("dejavu-fonts-ttf/ttf/DejaVuSerifCondensed-Bold.ttf?inline"),
+      ]),
+  },
+  mono: {
+    name: "DejaVuSansMono",
+    load: () =>
+      Promise.all([
+        import("dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf?inline"),
+        import("dejavu-fonts-ttf/ttf/DejaVuSansMono-Bold.ttf?inline"),
+      ]),
+  },
+};
+
+// The built-in PDF fonts are not embedded, which archival PDFs (PDF/A) do not
+// allow. The font files are large, so they are only fetched when needed.
+export const loadPdfFont = async (font: BrandFont): Promise<PdfFont> => {
+  const { name, load } = FONT_FILES[font];
+  const [normal, bold] = await load();
+  const toBase64 = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(",") + 1);
+  return {
+    name,
+    normal: toBase64(normal.default),
+    bold: toBase64(bold.default),
+  };
+};
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getNextReminderDate } from "./reminders.ts";
+
+describe("getNextReminderDate", () => {
+  afterEach(() => {
+    delete process.env.TZ;
+  });
+
+  it("schedules from the local due date", () => {
+    process.env.TZ = "America/Los_Angeles";
+    const next = getNextReminderDate(
+      "2026-10-10",
+      [
+        { timing: "BEFORE_DUE", days: 3 },
+        { timing: "ON_DUE", days: 0 },
+      ],
+      new Date(2026, 9, 1)
+    );
+    expect(next).toEqual(new Date(2026, 9, 7));
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+import { z } from "zod";
+import type {
+  Invoice,
+  ReminderPolicy,
+  ReminderRule,
+  ReminderTiming,
+} from "../types/index.ts";
+
+export const DEFAULT_REMINDER_POLICY: ReminderPolicy = {
+  enabled: false,
+  rules: [
+    { timing: "BEFORE_DUE", days: 3 },
+    { timing: "ON_DUE", days: 0 },
+    { timing: "AFTER_DUE", days: 7, repeat_every_days: 7 },
+  ],
+  subject: "Reminder: invoice {invoice_number} is due {due_date}",
+  body: `Hi {client_name},
+
+This is a friendly reminder that invoice {invoice_number} has a balance of {balance_due}, due on {due_date}.
+
+If you have already paid, please disregard this message.
+
+{sender_name}`,
+};
+
+export const REMINDER_TIMING_LABELS: Record<ReminderTiming, string> = {
+  BEFORE_DUE: "Before due date",
+  ON_DUE: "On due date",
+  AFTER_DUE: "After due date",
+};
+
+// Shared by the settings form and the per-invoice override
+export const reminderRulesSchema = z
+  .array(
+    z
+      .object({
+        timing: z.enum(["BEFORE_DUE", "ON_DUE", "AFTER_DUE"]),
+        days: z
+          .number("Days are required")
+          .int("Days must be a whole number")
+          .min(0, "Days cannot be negative")
+          .max(365, "Days cannot exceed 365"),
+        repeat_every_days: z
+          .number()
+          .int("Interval must be a whole number")
+          .min(1, "Interval must be at least 1 day")
+          .optional(),
+      })
+      .refine((rule) => rule.timing === "ON_DUE" || rule.days > 0, {
+        message: "Days must be at least 1",
+        path: ["days"],
+      })
+  )
+  .max(10, "Use at most 10 reminder rules");
+
+export const describeReminderRule = (rule: ReminderRule) => {
+  const plural = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+  if (rule.timing === "ON_DUE") return "On the due date";
+  if (rule.timing === "BEFORE_DUE") {
+    return `${plural(rule.days)} before the due date`;
+  }
+  const repeat = rule.repeat_every_days
+    ? `, then every ${plural(rule.repeat_every_days)}`
+    : "";
+  return `${plural(rule.days)} after the due date${repeat}`;
+};
+
+// Reminders only go out while the client still owes money
+export const canSendReminder = (invoice: Pick<Invoice, "status">) => {
+  return invoice.status === "SENT" || invoice.status === "PARTIALLY_PAID";
+};
+
+// Earliest date from today on that one of the rules fires, mirroring the
+// backend scheduler so the invoice page can show what happens next
+export const getNextReminderDate = (
+  dueDate: string,
+  rules: ReminderRule[],
+  today: Date = new Date()
+): Date | null => {
+  // Due dates are local days; new Date() would read them as UTC midnight
+  const due = startOfDay(parseISO(dueDate));
+  const start = startOfDay(today);
+
+  const dates = rules
+    .map((rule) => {
+      const offset =
+        rule.timing === "BEFORE_DUE"
+          ? -rule.days
+          : rule.timing === "AFTER_DUE"
+          ? rule.days
+          : 0;
+      const first = addDays(due, offset);
+      const behind = differenceInCalendarDays(start, first);
+      if (behind <= 0) return first;
+      if (rule.timing !== "AFTER_DUE" || !rule.repeat_every_days) return null;
+      const repeats = Math.ceil(behind / rule.repeat_every_days);
+      return addDays(first, repeats * rule.repeat_every_days);
+    })
+    .filter((date): date is Date => date !== null);
+
+  if (dates.length === 0) return null;
+  return new Date(Math.min(...dates.map((date) => date.getTime())));
+};